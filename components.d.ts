@@ -11,6 +11,7 @@ declare module 'vue' {
     BrandLogo: typeof import('./src/components/TopBar/BrandLogo.vue')['default']
     Button: typeof import('primevue/button')['default']
     Calendar: typeof import('primevue/calendar')['default']
+    ConflictPanel: typeof import('./src/components/ConflictPanel.vue')['default']
     ConfirmDialog: typeof import('primevue/confirmdialog')['default']
     Dialog: typeof import('primevue/dialog')['default']
     Dropdown: typeof import('primevue/dropdown')['default']
@@ -20,17 +21,21 @@ declare module 'vue' {
     IconEcosystem: typeof import('./src/components/icons/IconEcosystem.vue')['default']
     IconSupport: typeof import('./src/components/icons/IconSupport.vue')['default']
     IconTooling: typeof import('./src/components/icons/IconTooling.vue')['default']
+    InputNumber: typeof import('primevue/inputnumber')['default']
     InputText: typeof import('primevue/inputtext')['default']
     LoginDialog: typeof import('./src/components/TopBar/LoginDialog.vue')['default']
     Navigation: typeof import('./src/components/TopBar/Navigation.vue')['default']
+    PriorityBreakdown: typeof import('./src/components/PriorityBreakdown.vue')['default']
     RouterLink: typeof import('vue-router')['RouterLink']
     RouterView: typeof import('vue-router')['RouterView']
+    SelectButton: typeof import('primevue/selectbutton')['default']
     SyncStatus: typeof import('./src/components/SyncStatus.vue')['default']
     TaskForm: typeof import('./src/components/TaskForm.vue')['default']
     TaskItem: typeof import('./src/components/TaskItem.vue')['default']
     TaskItemWithContext: typeof import('./src/components/TaskItemWithContext.vue')['default']
     TaskManager: typeof import('./src/components/TaskManager.vue')['default']
     Textarea: typeof import('primevue/textarea')['default']
+    TombstoneDialog: typeof import('./src/components/TombstoneDialog.vue')['default']
     TopBar: typeof import('./src/components/TopBar.vue')['default']
     UserSection: typeof import('./src/components/TopBar/UserSection.vue')['default']
   }
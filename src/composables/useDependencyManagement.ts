@@ -0,0 +1,91 @@
+import { computed, type Ref } from 'vue'
+import { useTaskStore } from '@/stores/tasks'
+import type { TaskClass } from '@/models/TaskClass'
+import { DependencyCycleError } from '@/models/TaskGraph'
+
+/**
+ * Minimal interface for task operations needed by dependency management
+ */
+interface TaskOperations {
+  // eslint-disable-next-line no-unused-vars
+  updateTask: (task: TaskClass) => Promise<void>
+}
+
+/**
+ * Composable for managing the dependencies ("blocked by") of a task
+ * Handles adding and removing blockers, with automatic persistence
+ */
+export function useDependencyManagement(
+  selectedTask: Ref<TaskClass | null>,
+  taskOperations?: Ref<TaskOperations | null>,
+) {
+  const store = useTaskStore()
+
+  /**
+   * Calculate available task list for adding as dependencies
+   * Excludes the current task, its existing blockers, and every task that
+   * already depends on it (directly or transitively) to prevent cycles
+   */
+  const availableTasksForDependency = computed(() => {
+    if (!selectedTask.value) return []
+
+    const excludeIds = new Set<string>([
+      selectedTask.value.id,
+      ...store.graph.getDependencyIds(selectedTask.value.id),
+      ...store.graph.getAllDependentIds(selectedTask.value.id),
+    ])
+
+    return store.tasks.filter(
+      task => !excludeIds.has(task.id) && !task.tombstoned,
+    )
+  })
+
+  /**
+   * Make the selected task depend on another task
+   */
+  async function addDependency(dependencyId: string) {
+    if (!selectedTask.value) return
+
+    try {
+      store.addDependency(selectedTask.value.id, dependencyId)
+    } catch (error) {
+      if (error instanceof DependencyCycleError) {
+        console.warn(error.message)
+        return
+      }
+      throw error
+    }
+
+    // Only the dependent task stores the relationship
+    if (taskOperations?.value) {
+      try {
+        await taskOperations.value.updateTask(selectedTask.value)
+      } catch (error) {
+        console.error('Failed to save dependency:', error)
+      }
+    }
+  }
+
+  /**
+   * Remove a dependency from the selected task
+   */
+  async function removeDependency(dependencyId: string) {
+    if (!selectedTask.value) return
+
+    store.removeDependency(selectedTask.value.id, dependencyId)
+
+    if (taskOperations?.value) {
+      try {
+        await taskOperations.value.updateTask(selectedTask.value)
+      } catch (error) {
+        console.error('Failed to save dependency removal:', error)
+      }
+    }
+  }
+
+  return {
+    availableTasksForDependency,
+    addDependency,
+    removeDependency,
+  }
+}
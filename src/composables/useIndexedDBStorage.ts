@@ -1,6 +1,7 @@
 import { ref } from 'vue'
 import { getIndexedDBStorage } from '@/storage/local/indexeddb-storage'
 import { TaskClass, Status } from '@/models/TaskClass'
+import { formatRRule, parseRRule } from '@/models/recurrence'
 
 /**
  * Composable for managing tasks with IndexedDB local storage
@@ -34,6 +35,18 @@ export function useIndexedDBStorage() {
           startDate: dbTask.startDate ? new Date(dbTask.startDate) : undefined,
           endDate: dbTask.endDate ? new Date(dbTask.endDate) : undefined,
           status: dbTask.status as Status | undefined,
+          recurrence: dbTask.recurrenceRule
+            ? parseRRule(dbTask.recurrenceRule)
+            : undefined,
+          estimatedEffort: dbTask.estimatedEffort,
+          completedDate: dbTask.completedDate
+            ? new Date(dbTask.completedDate)
+            : undefined,
+          rolloverCount: dbTask.rolloverCount,
+          tombstoneReason: dbTask.tombstoneReason,
+          tombstonedDate: dbTask.tombstonedDate
+            ? new Date(dbTask.tombstonedDate)
+            : undefined,
         })
         task.fullId = dbTask.url
         if (dbTask.subTaskUrls) {
@@ -42,6 +55,9 @@ export function useIndexedDBStorage() {
         if (dbTask.parentTaskUrl) {
           task.parentId = dbTask.parentTaskUrl
         }
+        if (dbTask.dependsOnUrls) {
+          task.dependsOn = dbTask.dependsOnUrls
+        }
         return task
       })
     } catch (err) {
@@ -83,6 +99,15 @@ export function useIndexedDBStorage() {
         status: task.status,
         subTaskUrls: task.childIds,
         parentTaskUrl: task.parentId,
+        dependsOnUrls: task.dependsOn,
+        recurrenceRule: task.recurrence
+          ? formatRRule(task.recurrence)
+          : undefined,
+        estimatedEffort: task.estimatedEffort,
+        completedDate: task.completedDate,
+        rolloverCount: task.rolloverCount,
+        tombstoneReason: task.tombstoneReason,
+        tombstonedDate: task.tombstonedDate,
       })
     } catch (err) {
       error.value =
@@ -110,6 +135,15 @@ export function useIndexedDBStorage() {
           status: task.status,
           subTaskUrls: task.childIds,
           parentTaskUrl: task.parentId,
+          dependsOnUrls: task.dependsOn,
+          recurrenceRule: task.recurrence
+            ? formatRRule(task.recurrence)
+            : undefined,
+          estimatedEffort: task.estimatedEffort,
+          completedDate: task.completedDate,
+          rolloverCount: task.rolloverCount,
+          tombstoneReason: task.tombstoneReason,
+          tombstonedDate: task.tombstonedDate,
         })
       }
     } catch (err) {
@@ -1,11 +1,41 @@
-import { ref, computed, watch } from 'vue'
+import { ref, computed, watch, onScopeDispose } from 'vue'
+import { v4 as uuidv4 } from 'uuid'
 import { useTaskStore } from '@/stores/tasks'
-import { TaskClass } from '@/models/TaskClass'
+import { useSettingsStore } from '@/stores/settings'
+import { Status, TaskClass, type TombstoneStatus } from '@/models/TaskClass'
+import { TaskGraph } from '@/models/TaskGraph'
+import { createNextOccurrence } from '@/models/recurrence'
 import { useIndexedDBStorage } from './useIndexedDBStorage'
 import { useSolidStorage } from './useSolidStorage'
 import { getIndexedDBStorage } from '@/storage/local/indexeddb-storage'
 import { getSyncService } from '@/storage/sync/sync-service'
-import type { SyncStatus } from '@/storage/sync/sync-service'
+import type { SyncConflict, SyncStatus } from '@/storage/sync/sync-service'
+import type { TaskFields } from '@/storage/sync/merge'
+import {
+  exportTasks,
+  parseBackup,
+  planImport,
+  type ImportMode,
+  type ImportPlan,
+  type TaskBackup,
+} from '@/utils/backup'
+import {
+  formatDeadlineFeed,
+  formatICalendar,
+  parseICalendar,
+  withoutTimestamps,
+} from '@/utils/icalendar'
+import {
+  formatMarkdownChecklist,
+  formatTodoTxt,
+  parseMarkdownChecklist,
+  parseTodoTxt,
+  type PlainTextFormat,
+} from '@/utils/plain-text'
+import {
+  categorizeTasksByFocus,
+  getWeeklyRelevantTasks,
+} from '@/utils/priority'
 
 /**
  * Composable for managing tasks with local-first architecture
@@ -18,6 +48,8 @@ export function useLocalFirstTasks() {
   const isLoading = ref(false)
   const error = ref<string | null>(null)
   const syncStatus = ref<SyncStatus>('idle')
+  const conflicts = ref<SyncConflict[]>([])
+  const pendingOperations = ref(0) // Local changes not synced yet
 
   // Track if this is initial load vs logout
   const isInitialLoad = ref(true)
@@ -34,10 +66,63 @@ export function useLocalFirstTasks() {
   const isOnline = computed(() => syncStatus.value !== 'offline')
 
   // Subscribe to sync status changes
-  syncService.onStatusChange(status => {
+  const unsubscribeStatus = syncService.onStatusChange(status => {
     syncStatus.value = status
+    if (status === 'idle') {
+      refreshConflicts()
+    }
+  })
+  const unsubscribePending = syncService.onPendingOperationsChange(count => {
+    pendingOperations.value = count
+  })
+  // Show the changes made elsewhere once they are pulled (only the tasks
+  // changed, when another tab says which)
+  const unsubscribeRemote = syncService.onRemoteChange(urls => {
+    const reload = urls
+      ? syncService.loadLocalTasks(urls).then(tasks => {
+          const removedIds = [...taskStore.taskMap.values()]
+            .filter(task => urls.includes(task.fullId || `temp:${task.id}`))
+            .map(task => task.id)
+          taskStore.replaceTaskClasses(tasks, removedIds)
+        })
+      : syncService.loadLocal().then(loadIntoStore)
+    reload.catch(err => {
+      console.error('Failed to reload tasks:', err)
+    })
+  })
+  // New tasks keep their ids once created remotely, only their URLs change,
+  // so the tasks in the store (and any open in the UI) are updated in place
+  const unsubscribeUrls = syncService.onTaskUrlsChange(urls => {
+    for (const task of taskStore.taskMap.values()) {
+      const newUrl = urls.get(task.fullId || `temp:${task.id}`)
+      if (newUrl) task.fullId = newUrl
+    }
   })
 
+  // The sync service outlives the components using this, so stop listening
+  // once they are unmounted (otherwise every view opened since would reload
+  // the tasks on each change)
+  onScopeDispose(() => {
+    unsubscribeStatus()
+    unsubscribePending()
+    unsubscribeRemote()
+    unsubscribeUrls()
+  }, true)
+
+  // Publish the upcoming deadlines as a calendar feed after syncing
+  syncService.setFeedBuilder({
+    build: tasks => formatDeadlineFeed(tasks),
+    withoutTimestamps,
+  })
+
+  // Resolve sync conflicts the way the user chose
+  const settings = useSettingsStore()
+  watch(
+    () => settings.conflictResolution,
+    strategy => syncService.setConflictResolution(strategy),
+    { immediate: true },
+  )
+
   // Watch for Solid service initialization and update sync service
   watch(
     () => solidStorage.getService(),
@@ -53,6 +138,27 @@ export function useLocalFirstTasks() {
     { immediate: true },
   )
 
+  /**
+   * Put loaded tasks into the store
+   * Parent-child cycles in the data (e.g. written by another client to the Pod)
+   * are broken first, and the repaired tasks are persisted locally
+   */
+  async function loadIntoStore(tasks: TaskClass[]) {
+    const repaired = TaskGraph.repairCycles(tasks)
+    if (repaired.length > 0) {
+      console.warn(
+        `Broke parent-child cycles involving ${repaired.length} task(s)`,
+      )
+    }
+
+    const { graph } = taskStore.convertTasksToGraph(tasks)
+    taskStore.loadTaskClasses(tasks, graph)
+
+    for (const task of repaired) {
+      await syncService.saveLocal(task)
+    }
+  }
+
   /**
    * Load tasks from local storage first, then sync with remote
    * This provides instant UI updates while syncing in the background
@@ -66,9 +172,9 @@ export function useLocalFirstTasks() {
       // First, load from local storage (instant, works offline)
       const localTasks = await syncService.loadLocal()
       if (localTasks.length > 0) {
-        const { graph } = taskStore.convertTasksToGraph(localTasks)
-        taskStore.loadTaskClasses(localTasks, graph)
+        await loadIntoStore(localTasks)
       }
+      await refreshConflicts()
 
       // Then sync with remote in background (if authenticated)
       if (solidStorage.getService()) {
@@ -81,8 +187,7 @@ export function useLocalFirstTasks() {
         // Reload from local storage after sync
         const updatedTasks = await syncService.loadLocal()
         if (updatedTasks.length > 0) {
-          const { graph } = taskStore.convertTasksToGraph(updatedTasks)
-          taskStore.loadTaskClasses(updatedTasks, graph)
+          await loadIntoStore(updatedTasks)
         }
       }
     } catch (err) {
@@ -127,6 +232,8 @@ export function useLocalFirstTasks() {
    * Add a new TaskClass (local-first, then sync)
    */
   async function addTask(taskClass: TaskClass) {
+    taskClass.updateCompletedDate()
+
     // Add to store
     taskStore.addTaskClass(taskClass)
 
@@ -147,14 +254,45 @@ export function useLocalFirstTasks() {
     }
   }
 
+  /**
+   * Hand the series of a completed recurring task over to its next occurrence
+   * The completed task stops recurring, so the next occurrence is created once
+   */
+  async function advanceRecurrence(taskClass: TaskClass) {
+    const next = createNextOccurrence(taskClass, uuidv4())
+    taskClass.recurrence = undefined
+    if (!next) return
+
+    // Keep the next occurrence under the same parent task
+    const parent = next.parentId
+      ? taskStore.taskMap.get(next.parentId)
+      : undefined
+    if (parent) {
+      taskStore.addSubTask(parent.id, next)
+      await syncService.saveLocal(parent)
+    } else {
+      next.parentId = undefined
+      taskStore.addTaskClass(next)
+    }
+    await syncService.saveLocal(next)
+  }
+
   /**
    * Update a TaskClass (local-first, then sync)
+   * Completing a recurring task creates its next occurrence
    */
   async function updateTask(taskClass: TaskClass) {
+    // The status may have been changed directly (e.g. in the task form)
+    taskClass.updateCompletedDate()
+
     // Update in store
     taskStore.updateTaskClass(taskClass)
 
     try {
+      if (taskClass.completed && taskClass.recurrence) {
+        await advanceRecurrence(taskClass)
+      }
+
       // Save to local storage first (instant)
       await syncService.saveLocal(taskClass)
 
@@ -172,7 +310,58 @@ export function useLocalFirstTasks() {
   }
 
   /**
-   * Remove a TaskClass (local-first, then sync)
+   * Save tasks changed together (local-first, then sync)
+   */
+  async function saveChanged(tasks: TaskClass[]) {
+    for (const task of tasks) {
+      await syncService.saveLocal(task)
+    }
+
+    if (tasks.length > 0 && solidStorage.getService()) {
+      syncService.sync().catch(err => {
+        console.error('Background sync failed:', err)
+      })
+    }
+  }
+
+  /**
+   * Move a task and its open subtasks to the trash (tombstones them)
+   * This is what deleting a task does; see `removeTask` to purge it
+   */
+  async function tombstoneTask(
+    taskOrId: TaskClass | string,
+    status: TombstoneStatus = Status.CANCELLED,
+    reason?: string,
+  ) {
+    const taskId = typeof taskOrId === 'string' ? taskOrId : taskOrId.id
+
+    try {
+      await saveChanged(taskStore.tombstoneTask(taskId, status, reason))
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to delete task'
+      console.error('Failed to delete task:', err)
+      throw err
+    }
+  }
+
+  /**
+   * Bring a task back from the trash, with the subtasks deleted along with it
+   */
+  async function restoreTask(taskOrId: TaskClass | string) {
+    const taskId = typeof taskOrId === 'string' ? taskOrId : taskOrId.id
+
+    try {
+      await saveChanged(taskStore.restoreTask(taskId))
+    } catch (err) {
+      error.value =
+        err instanceof Error ? err.message : 'Failed to restore task'
+      console.error('Failed to restore task:', err)
+      throw err
+    }
+  }
+
+  /**
+   * Permanently remove a TaskClass and all its descendants (local-first, then sync)
    */
   async function removeTask(taskOrId: TaskClass | string) {
     const taskId = typeof taskOrId === 'string' ? taskOrId : taskOrId.id
@@ -184,14 +373,24 @@ export function useLocalFirstTasks() {
       return
     }
 
+    // Collect the subtasks before they leave the store
+    const subtasks = taskStore.graph
+      .getAllDescendantIds(taskId)
+      .filter(id => id !== taskId)
+      .map(id => taskStore.taskMap.get(id))
+
     // Remove from store
-    taskStore.removeTaskClass(taskId)
+    const dependents = taskStore.removeTaskClass(taskId)
 
     try {
       // Delete from local and remote
-      if (task.fullId) {
-        await syncService.deleteTask(task.fullId)
+      for (const removed of [task, ...subtasks]) {
+        if (removed?.fullId) {
+          await syncService.deleteTask(removed.fullId)
+        }
       }
+      // The tasks blocked by them no longer are
+      await saveChanged(dependents)
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Failed to delete task'
       console.error('Failed to delete task:', err)
@@ -199,6 +398,195 @@ export function useLocalFirstTasks() {
     }
   }
 
+  /**
+   * Reload the tasks with conflicting changes from local storage
+   */
+  async function refreshConflicts() {
+    try {
+      conflicts.value = await syncService.getConflicts()
+    } catch (err) {
+      console.error('Failed to load sync conflicts:', err)
+    }
+  }
+
+  /**
+   * Resolve a sync conflict with the chosen fields (local-first, then sync)
+   */
+  async function resolveConflict(url: string, fields: TaskFields) {
+    try {
+      await syncService.resolveConflict(url, fields)
+      await loadIntoStore(await syncService.loadLocal())
+      await refreshConflicts()
+
+      if (solidStorage.getService()) {
+        syncService.sync().catch(err => {
+          console.error('Background sync failed:', err)
+        })
+      }
+    } catch (err) {
+      error.value =
+        err instanceof Error ? err.message : 'Failed to resolve conflict'
+      console.error('Failed to resolve conflict:', err)
+      throw err
+    }
+  }
+
+  /**
+   * Restore a task deleted remotely after local edits, or let it go
+   * (local-first, then sync)
+   */
+  async function resolveDeletion(url: string, restore: boolean) {
+    try {
+      await syncService.resolveDeletion(url, restore)
+      await loadIntoStore(await syncService.loadLocal())
+      await refreshConflicts()
+
+      if (restore && solidStorage.getService()) {
+        syncService.sync().catch(err => {
+          console.error('Background sync failed:', err)
+        })
+      }
+    } catch (err) {
+      error.value =
+        err instanceof Error ? err.message : 'Failed to resolve conflict'
+      console.error('Failed to resolve conflict:', err)
+      throw err
+    }
+  }
+
+  /**
+   * Export every task (including the ones in the trash) as a backup
+   */
+  function exportBackup(): TaskBackup {
+    return exportTasks(Array.from(taskStore.taskMap.values()))
+  }
+
+  /**
+   * Import the tasks of a backup (local-first, then sync)
+   * @throws BackupError if the document is not a valid backup
+   */
+  async function importBackup(
+    document: unknown,
+    mode: ImportMode,
+  ): Promise<ImportPlan> {
+    return importTasks(() => parseBackup(document), mode)
+  }
+
+  /**
+   * Export every task as an iCalendar document of to-dos
+   */
+  function exportICalendar(): string {
+    return formatICalendar(Array.from(taskStore.taskMap.values()))
+  }
+
+  /**
+   * Import the to-dos of an iCalendar document (local-first, then sync)
+   */
+  async function importICalendar(
+    text: string,
+    mode: ImportMode,
+  ): Promise<ImportPlan> {
+    return importTasks(() => parseICalendar(text), mode)
+  }
+
+  /**
+   * Export every task as a todo.txt or Markdown list
+   * In todo.txt, the tasks to focus on now have priority A, and the other
+   * tasks of this week priority B (as in the weekly planner).
+   */
+  function exportPlainText(format: PlainTextFormat): string {
+    const tasks = Array.from(taskStore.taskMap.values())
+    if (format === 'markdown') return formatMarkdownChecklist(tasks)
+
+    const weeklyTasks = getWeeklyRelevantTasks(
+      tasks,
+      new Date(),
+      taskStore.graph,
+    )
+    const { focusNow, thisWeek } = categorizeTasksByFocus(
+      weeklyTasks,
+      taskStore.graph,
+      taskStore.taskMap,
+      settings.priorityScorer,
+      settings.getFocusLimit(weeklyTasks, taskStore.graph, taskStore.taskMap),
+    )
+    return formatTodoTxt(
+      tasks,
+      new Map([
+        ...focusNow.map(task => [task.id, 'A'] as const),
+        ...thisWeek.map(task => [task.id, 'B'] as const),
+      ]),
+    )
+  }
+
+  /**
+   * Import the tasks of a todo.txt or Markdown list (local-first, then sync)
+   * They are always added as new tasks, as the lists have no ids.
+   */
+  async function importPlainText(
+    text: string,
+    format: PlainTextFormat,
+  ): Promise<ImportPlan> {
+    return importTasks(
+      () =>
+        format === 'markdown'
+          ? parseMarkdownChecklist(text)
+          : parseTodoTxt(text),
+      'merge',
+    )
+  }
+
+  /**
+   * Work out what importing tasks changes, without saving anything
+   * (e.g. to show it before importing with `applyImport`)
+   */
+  function previewImport(tasks: TaskClass[], mode: ImportMode): ImportPlan {
+    return planImport(Array.from(taskStore.taskMap.values()), tasks, mode)
+  }
+
+  /**
+   * Import tasks as previewed (local-first, then sync)
+   */
+  async function applyImport(plan: ImportPlan): Promise<ImportPlan> {
+    return saveImport(() => plan)
+  }
+
+  /**
+   * Import tasks read from a file (local-first, then sync)
+   */
+  async function importTasks(
+    read: () => TaskClass[],
+    mode: ImportMode,
+  ): Promise<ImportPlan> {
+    return saveImport(() => previewImport(read(), mode))
+  }
+
+  /**
+   * Save the tasks of an import
+   * They are saved like any other edit, so they sync to the Pod as well.
+   */
+  async function saveImport(getPlan: () => ImportPlan): Promise<ImportPlan> {
+    try {
+      const plan = getPlan()
+      for (const task of plan.tasks) {
+        await syncService.saveLocal(task)
+      }
+      await loadIntoStore(await syncService.loadLocal())
+
+      if (plan.tasks.length > 0 && solidStorage.getService()) {
+        syncService.sync().catch(err => {
+          console.error('Background sync failed:', err)
+        })
+      }
+      return plan
+    } catch (err) {
+      error.value =
+        err instanceof Error ? err.message : 'Failed to import tasks'
+      console.error('Failed to import tasks:', err)
+      throw err
+    }
+  }
+
   /**
    * Manually trigger a sync operation
    */
@@ -206,7 +594,6 @@ export function useLocalFirstTasks() {
     return syncService.sync()
   }
 
-  // Initialize on first use
   // Initialize on first use
   watch(
     isAuthenticated,
@@ -233,6 +620,8 @@ export function useLocalFirstTasks() {
     isAuthenticated,
     isOnline,
     syncStatus,
+    conflicts,
+    pendingOperations,
 
     // Methods
     loadTasks,
@@ -240,7 +629,20 @@ export function useLocalFirstTasks() {
     addTask,
     updateTask,
     removeTask,
+    tombstoneTask,
+    restoreTask,
     manualSync,
+    refreshConflicts,
+    resolveConflict,
+    resolveDeletion,
+    exportBackup,
+    importBackup,
+    exportICalendar,
+    importICalendar,
+    exportPlainText,
+    importPlainText,
+    previewImport,
+    applyImport,
 
     // Storage composables (for advanced use)
     localStorage,
@@ -1,6 +1,7 @@
-import { computed, type Ref } from 'vue'
+import { computed, ref, watch, type Ref } from 'vue'
 import { useTaskStore } from '@/stores/tasks'
 import type { TaskClass } from '@/models/TaskClass'
+import { TaskCycleError } from '@/models/TaskGraph'
 import { getAllDescendantTasks } from '@/models/task-operations'
 
 /**
@@ -21,6 +22,13 @@ export function useSubtaskManagement(
 ) {
   const store = useTaskStore()
 
+  // Why the last subtask addition was rejected, if it was
+  const subtaskError = ref<string | null>(null)
+
+  watch(selectedTask, () => {
+    subtaskError.value = null
+  })
+
   /**
    * Calculate available task list for adding as subtasks
    * Excludes the current task and all its descendants to prevent circular dependencies
@@ -37,8 +45,10 @@ export function useSubtaskManagement(
       excludeIds.add(desc.id)
     }
 
-    // Get all tasks and filter out excluded ones
-    return store.tasks.filter(task => !excludeIds.has(task.id))
+    // Get all tasks and filter out excluded ones and those in the trash
+    return store.tasks.filter(
+      task => !excludeIds.has(task.id) && !task.tombstoned,
+    )
   })
 
   /**
@@ -51,8 +61,18 @@ export function useSubtaskManagement(
     const taskToAdd = store.taskMap.get(subtaskId)
     if (!taskToAdd) return
 
+    subtaskError.value = null
+
     // Move task to be a child of selected task (use store action to ensure consistency)
-    store.moveTask(subtaskId, selectedTask.value.id)
+    try {
+      store.moveTask(subtaskId, selectedTask.value.id)
+    } catch (error) {
+      if (error instanceof TaskCycleError) {
+        subtaskError.value = `"${taskToAdd.name}" contains "${selectedTask.value.name}", so it cannot become its subtask`
+        return
+      }
+      throw error
+    }
 
     // Save both parent and child (incremental)
     if (taskOperations?.value) {
@@ -89,6 +109,7 @@ export function useSubtaskManagement(
   }
 
   return {
+    subtaskError,
     availableTasksForSubtask,
     addSubtask,
     removeSubtask,
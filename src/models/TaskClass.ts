@@ -1,4 +1,7 @@
-import { endOfWeek } from '@/utils/datetime'
+import { getEndOfWorkWeek } from '@/utils/calendar'
+import type { RecurrenceRule } from './recurrence'
+import type { ScheduleEstimate } from '@/utils/estimation'
+import type { InheritedDeadline } from '@/utils/priority'
 
 interface TaskClassContent {
   id: string
@@ -8,6 +11,12 @@ interface TaskClassContent {
   startDate?: Date
   endDate?: Date
   status?: Status
+  recurrence?: RecurrenceRule
+  estimatedEffort?: number
+  completedDate?: Date
+  rolloverCount?: number
+  tombstoneReason?: string
+  tombstonedDate?: Date
 }
 
 export enum Priority {
@@ -20,8 +29,13 @@ export enum Status {
   IN_PROGRESS = 'InProgress',
   COMPLETED = 'Completed',
   IGNORED = 'Ignored',
+  // Tombstones: kept (and synced) instead of being deleted, until purged
+  CANCELLED = 'Cancelled', // No longer needed
+  DEPRECATED = 'Deprecated', // Superseded or outdated
 }
 
+export type TombstoneStatus = Status.CANCELLED | Status.DEPRECATED
+
 /**
  * TaskClass represents a task's core data properties.
  * Parent-child relationships are managed by TaskGraph, not stored directly in this class.
@@ -36,10 +50,23 @@ export class TaskClass implements TaskClassContent {
   startDate?: Date
   endDate?: Date
   status?: Status
+  recurrence?: RecurrenceRule // Set if this task is an occurrence of a repeating series
+  estimatedEffort?: number // In the user's effort unit (hours or points)
+  completedDate?: Date // When the task was marked as completed
+  rolloverCount?: number // Times the task was carried over to another week in the weekly review
+  tombstoneReason?: string // Why the task was cancelled or deprecated
+  tombstonedDate?: Date // When the task was cancelled or deprecated
+
+  // Derived from the history of completed tasks (not persisted), see `refreshEstimates()` in the store
+  scheduleEstimate?: ScheduleEstimate
+  // Deadline of the nearest-due ancestor, for tasks without their own (not persisted)
+  inheritedDeadline?: InheritedDeadline
 
   // Relationships stored directly as IDs (source of truth)
   parentId?: string
   childIds: string[] = []
+  // IDs of tasks that must be done before this one ("blocked by")
+  dependsOn: string[] = []
 
   /**
    * Reference to the TaskGraph that maintains cached indices for performance.
@@ -56,9 +83,20 @@ export class TaskClass implements TaskClassContent {
     startDate,
     endDate,
     status,
+    recurrence,
+    estimatedEffort,
+    completedDate,
+    rolloverCount,
+    tombstoneReason,
+    tombstonedDate,
     parentId,
     childIds,
-  }: TaskClassContent & { parentId?: string; childIds?: string[] }) {
+    dependsOn,
+  }: TaskClassContent & {
+    parentId?: string
+    childIds?: string[]
+    dependsOn?: string[]
+  }) {
     this.id = id
     this.name = name
     this.description = description
@@ -66,8 +104,15 @@ export class TaskClass implements TaskClassContent {
     this.startDate = startDate
     this.endDate = endDate
     this.status = status
+    this.recurrence = recurrence
+    this.estimatedEffort = estimatedEffort
+    this.completedDate = completedDate
+    this.rolloverCount = rolloverCount
+    this.tombstoneReason = tombstoneReason
+    this.tombstonedDate = tombstonedDate
     this.parentId = parentId
     this.childIds = childIds ? [...childIds] : []
+    this.dependsOn = dependsOn ? [...dependsOn] : []
   }
 
   /**
@@ -81,8 +126,10 @@ export class TaskClass implements TaskClassContent {
     return this.startDate ?? this.addedDate
   }
 
+  // Without a deadline, due at the end of the last working day of the week
+  // it was added in (the fallback of `calculateSoftDeadline`)
   get effectiveEndDate() {
-    return this.endDate ?? endOfWeek(this.addedDate)
+    return this.endDate ?? getEndOfWorkWeek(this.addedDate)
   }
 
   get completed() {
@@ -91,6 +138,51 @@ export class TaskClass implements TaskClassContent {
 
   set completed(value: boolean) {
     this.status = value ? Status.COMPLETED : Status.IN_PROGRESS
+    this.updateCompletedDate()
+  }
+
+  /**
+   * Record when the task was completed, or forget it if the task is reopened.
+   * Tombstoned tasks keep it, so restoring them brings the completion back.
+   * Call after changing `status` directly (e.g. from a form).
+   */
+  updateCompletedDate(now: Date = new Date()): void {
+    if (this.completed) {
+      this.completedDate ??= now
+    } else if (!this.tombstoned) {
+      this.completedDate = undefined
+    }
+  }
+
+  /**
+   * Whether the task was cancelled or deprecated (it is in the trash)
+   */
+  get tombstoned() {
+    return this.status === Status.CANCELLED || this.status === Status.DEPRECATED
+  }
+
+  /**
+   * Cancel or deprecate the task, recording why and when.
+   * Use the store's `tombstoneTask()` to include the task's subtasks.
+   */
+  tombstone(
+    status: TombstoneStatus = Status.CANCELLED,
+    reason?: string,
+    now: Date = new Date(),
+  ): void {
+    this.status = status
+    this.tombstoneReason = reason?.trim() || undefined
+    this.tombstonedDate = now
+  }
+
+  /**
+   * Bring a tombstoned task back, as completed if it was completed before
+   */
+  restore(): void {
+    if (!this.tombstoned) return
+    this.status = this.completedDate ? Status.COMPLETED : Status.IN_PROGRESS
+    this.tombstoneReason = undefined
+    this.tombstonedDate = undefined
   }
 
   /**
@@ -113,10 +205,11 @@ export class TaskClass implements TaskClassContent {
    * Set the parent ID (internal - keeps graph in sync if present)
    */
   setParentId(parentId: string | undefined): void {
-    this.parentId = parentId
+    // Update the graph first, so a rejected (cyclic) move leaves the task untouched
     if (this.graph) {
       this.graph.setParent(this.id, parentId)
     }
+    this.parentId = parentId
   }
 
   /**
@@ -124,10 +217,10 @@ export class TaskClass implements TaskClassContent {
    */
   addChildId(childId: string): void {
     if (!this.childIds.includes(childId)) {
-      this.childIds.push(childId)
       if (this.graph) {
         this.graph.addChild(this.id, childId)
       }
+      this.childIds.push(childId)
     }
   }
 
@@ -143,4 +236,37 @@ export class TaskClass implements TaskClassContent {
       }
     }
   }
+
+  /**
+   * Get the IDs of the tasks this task depends on (is blocked by).
+   * Use store methods like `addDependency()` to modify dependencies.
+   */
+  getDependencyIds(): string[] {
+    return [...this.dependsOn]
+  }
+
+  /**
+   * Add a dependency ID (internal - keeps graph in sync if present)
+   */
+  addDependencyId(dependencyId: string): void {
+    if (dependencyId !== this.id && !this.dependsOn.includes(dependencyId)) {
+      this.dependsOn.push(dependencyId)
+      if (this.graph) {
+        this.graph.addDependency(this.id, dependencyId)
+      }
+    }
+  }
+
+  /**
+   * Remove a dependency ID (internal - keeps graph in sync if present)
+   */
+  removeDependencyId(dependencyId: string): void {
+    const index = this.dependsOn.indexOf(dependencyId)
+    if (index !== -1) {
+      this.dependsOn.splice(index, 1)
+      if (this.graph) {
+        this.graph.removeDependency(this.id, dependencyId)
+      }
+    }
+  }
 }
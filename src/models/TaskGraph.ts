@@ -2,16 +2,47 @@ import type { TaskClass } from './TaskClass'
 
 /**
  * Task Graph - provides cached indices for efficient task relationship lookups
- * The graph is derived from TaskClass.parentId and TaskClass.childIds properties.
+ * The graph is derived from TaskClass.parentId, TaskClass.childIds and TaskClass.dependsOn properties.
  * It maintains O(1) lookups while the source of truth remains in TaskClass instances.
  *
  * This provides:
  * - Efficient parent/child lookups
  * - Root task identification
  * - Ancestor/descendant queries
+ * - Dependency ("blocked by") lookups in both directions
  * - Proper reactivity for Vue
  */
 
+/**
+ * Error raised when a relationship change would make a task its own ancestor
+ */
+export class TaskCycleError extends Error {
+  constructor(
+    readonly taskId: string,
+    readonly parentId: string,
+  ) {
+    super(
+      `Cannot place task ${taskId} under ${parentId}: it would become its own ancestor`,
+    )
+    this.name = 'TaskCycleError'
+  }
+}
+
+/**
+ * Error raised when a dependency would make a task (transitively) wait on itself
+ */
+export class DependencyCycleError extends Error {
+  constructor(
+    readonly taskId: string,
+    readonly dependencyId: string,
+  ) {
+    super(
+      `Cannot make task ${taskId} depend on ${dependencyId}: it would wait on itself`,
+    )
+    this.name = 'DependencyCycleError'
+  }
+}
+
 export class TaskGraph {
   /**
    * Map of task ID to parent task ID (cached from TaskClass.parentId)
@@ -24,6 +55,16 @@ export class TaskGraph {
    */
   private childrenMap = new Map<string, string[]>()
 
+  /**
+   * Map of task ID to the IDs of tasks it depends on (cached from TaskClass.dependsOn)
+   */
+  private dependencyMap = new Map<string, string[]>()
+
+  /**
+   * Reverse index: map of task ID to the IDs of tasks that depend on it
+   */
+  private dependentsMap = new Map<string, string[]>()
+
   /**
    * Build or rebuild the graph from TaskClass instances
    */
@@ -33,6 +74,68 @@ export class TaskGraph {
     return graph
   }
 
+  /**
+   * Detect and break parent-child cycles in task data (e.g. loaded from a Pod)
+   * Cycles are broken by detaching the task that closes the loop, on both the
+   * childIds and parentId sides. Returns the tasks that were modified.
+   */
+  static repairCycles(tasks: TaskClass[]): TaskClass[] {
+    const taskMap = new Map(tasks.map(task => [task.id, task]))
+    const modified = new Set<TaskClass>()
+
+    const detach = (parent: TaskClass, child: TaskClass) => {
+      const index = parent.childIds.indexOf(child.id)
+      if (index !== -1) {
+        parent.childIds.splice(index, 1)
+      }
+      if (child.parentId === parent.id) {
+        child.parentId = undefined
+      }
+      modified.add(parent)
+      modified.add(child)
+    }
+
+    // Cycles along childIds: depth-first search, dropping back edges
+    const state = new Map<string, 'visiting' | 'done'>()
+    const visit = (task: TaskClass) => {
+      state.set(task.id, 'visiting')
+      for (const childId of [...task.childIds]) {
+        const child = taskMap.get(childId)
+        if (!child) continue
+        const childState = state.get(childId)
+        if (childState === 'visiting') {
+          detach(task, child)
+        } else if (childState === undefined) {
+          visit(child)
+        }
+      }
+      state.set(task.id, 'done')
+    }
+    for (const task of tasks) {
+      if (!state.has(task.id)) {
+        visit(task)
+      }
+    }
+
+    // Cycles along parentId chains
+    for (const task of tasks) {
+      const chain = new Set<string>([task.id])
+      let current = task
+      while (current.parentId) {
+        const parent = taskMap.get(current.parentId)
+        if (!parent) break
+        if (chain.has(parent.id)) {
+          detach(parent, current)
+          break
+        }
+        chain.add(parent.id)
+        current = parent
+      }
+    }
+
+    return [...modified]
+  }
+
   /**
    * Rebuild indices from TaskClass data (source of truth)
    */
@@ -43,6 +146,9 @@ export class TaskGraph {
       if (task.childIds.length > 0) {
         this.childrenMap.set(task.id, [...task.childIds])
       }
+      for (const dependencyId of task.dependsOn ?? []) {
+        this.addDependency(task.id, dependencyId)
+      }
     }
   }
 
@@ -60,11 +166,25 @@ export class TaskGraph {
     return this.childrenMap.get(taskId) || []
   }
 
+  /**
+   * Check if placing a task under the given parent would create a cycle
+   * (i.e. the parent is the task itself or one of its descendants)
+   */
+  wouldCreateCycle(taskId: string, parentId: string | undefined): boolean {
+    if (parentId === undefined) return false
+    return parentId === taskId || this.isAncestor(taskId, parentId)
+  }
+
   /**
    * Set the parent of a task
    * Also updates the parent's children list
+   * @throws TaskCycleError if the parent is the task itself or a descendant
    */
   setParent(taskId: string, parentId: string | undefined): void {
+    if (this.wouldCreateCycle(taskId, parentId)) {
+      throw new TaskCycleError(taskId, parentId!)
+    }
+
     const oldParentId = this.parentMap.get(taskId)
 
     // Remove from old parent's children list
@@ -95,8 +215,13 @@ export class TaskGraph {
 
   /**
    * Add a child to a task
+   * @throws TaskCycleError if the child is the parent itself or an ancestor of it
    */
   addChild(parentId: string, childId: string): void {
+    if (this.wouldCreateCycle(childId, parentId)) {
+      throw new TaskCycleError(childId, parentId)
+    }
+
     // First, remove child from its current parent
     const oldParentId = this.parentMap.get(childId)
     if (oldParentId && oldParentId !== parentId) {
@@ -159,6 +284,14 @@ export class TaskGraph {
       this.removeChild(parentId, taskId)
     }
 
+    // Drop dependency edges in both directions
+    for (const dependencyId of [...this.getDependencyIds(taskId)]) {
+      this.removeDependency(taskId, dependencyId)
+    }
+    for (const dependentId of [...this.getDependentIds(taskId)]) {
+      this.removeDependency(dependentId, taskId)
+    }
+
     // Remove the task itself
     this.parentMap.delete(taskId)
     this.childrenMap.delete(taskId)
@@ -183,12 +316,15 @@ export class TaskGraph {
   /**
    * Get all descendants of a task (including the task itself)
    */
-  getAllDescendantIds(taskId: string): string[] {
+  getAllDescendantIds(taskId: string, visited = new Set<string>()): string[] {
+    if (visited.has(taskId)) return []
+    visited.add(taskId)
+
     const descendants: string[] = [taskId]
     const children = this.childrenMap.get(taskId)
     if (children) {
       for (const childId of children) {
-        descendants.push(...this.getAllDescendantIds(childId))
+        descendants.push(...this.getAllDescendantIds(childId, visited))
       }
     }
     return descendants
@@ -198,22 +334,119 @@ export class TaskGraph {
    * Check if task A is an ancestor of task B
    */
   isAncestor(ancestorId: string, taskId: string): boolean {
+    const visited = new Set<string>([taskId])
     let current = this.parentMap.get(taskId)
-    while (current !== undefined) {
+    while (current !== undefined && !visited.has(current)) {
       if (current === ancestorId) {
         return true
       }
+      visited.add(current)
       current = this.parentMap.get(current)
     }
     return false
   }
 
+  /**
+   * Get the IDs of the tasks a task depends on (its blockers)
+   */
+  getDependencyIds(taskId: string): string[] {
+    return this.dependencyMap.get(taskId) || []
+  }
+
+  /**
+   * Get the IDs of the tasks that depend on a task (the tasks it blocks)
+   */
+  getDependentIds(taskId: string): string[] {
+    return this.dependentsMap.get(taskId) || []
+  }
+
+  /**
+   * Check if making a task depend on another would create a cycle
+   * (i.e. the dependency is the task itself or already depends on it,
+   * directly or transitively)
+   */
+  wouldCreateDependencyCycle(taskId: string, dependencyId: string): boolean {
+    return (
+      dependencyId === taskId ||
+      this.getAllDependentIds(taskId).includes(dependencyId)
+    )
+  }
+
+  /**
+   * Record that `taskId` depends on `dependencyId`
+   */
+  addDependency(taskId: string, dependencyId: string): void {
+    if (taskId === dependencyId) return
+
+    if (!this.dependencyMap.has(taskId)) {
+      this.dependencyMap.set(taskId, [])
+    }
+    const dependencies = this.dependencyMap.get(taskId)!
+    if (!dependencies.includes(dependencyId)) {
+      dependencies.push(dependencyId)
+    }
+
+    if (!this.dependentsMap.has(dependencyId)) {
+      this.dependentsMap.set(dependencyId, [])
+    }
+    const dependents = this.dependentsMap.get(dependencyId)!
+    if (!dependents.includes(taskId)) {
+      dependents.push(taskId)
+    }
+  }
+
+  /**
+   * Remove the dependency of `taskId` on `dependencyId`
+   */
+  removeDependency(taskId: string, dependencyId: string): void {
+    const dependencies = this.dependencyMap.get(taskId)
+    if (dependencies) {
+      const index = dependencies.indexOf(dependencyId)
+      if (index !== -1) {
+        dependencies.splice(index, 1)
+      }
+      if (dependencies.length === 0) {
+        this.dependencyMap.delete(taskId)
+      }
+    }
+
+    const dependents = this.dependentsMap.get(dependencyId)
+    if (dependents) {
+      const index = dependents.indexOf(taskId)
+      if (index !== -1) {
+        dependents.splice(index, 1)
+      }
+      if (dependents.length === 0) {
+        this.dependentsMap.delete(dependencyId)
+      }
+    }
+  }
+
+  /**
+   * Get all tasks that directly or transitively depend on a task (excluding itself)
+   */
+  getAllDependentIds(taskId: string): string[] {
+    const result: string[] = []
+    const visited = new Set<string>([taskId])
+    const queue = [...this.getDependentIds(taskId)]
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      if (visited.has(current)) continue
+      visited.add(current)
+      result.push(current)
+      queue.push(...this.getDependentIds(current))
+    }
+    return result
+  }
+
   /**
    * Clear all relationships
    */
   clear(): void {
     this.parentMap.clear()
     this.childrenMap.clear()
+    this.dependencyMap.clear()
+    this.dependentsMap.clear()
   }
 
   /**
@@ -223,6 +456,7 @@ export class TaskGraph {
     return {
       parentMap: Object.fromEntries(this.parentMap),
       childrenMap: Object.fromEntries(this.childrenMap),
+      dependencyMap: Object.fromEntries(this.dependencyMap),
     }
   }
 }
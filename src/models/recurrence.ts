@@ -0,0 +1,277 @@
+/**
+ * Recurrence rules for repeating tasks
+ *
+ * A subset of the iCalendar RRULE (RFC 5545): FREQ, INTERVAL, BYDAY (weekly
+ * only), UNTIL and COUNT. Rules are stored in the Pod as RRULE strings.
+ *
+ * A recurring task is one occurrence of its series. Completing it creates the
+ * next occurrence, which takes over the rule (with COUNT reduced by one).
+ */
+
+import { TaskClass, Status } from './TaskClass'
+import { getStartOfWeek } from '@/utils/calendar'
+
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  YEARLY = 'YEARLY',
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number // Repeat every N days/weeks/months/years
+  byWeekday?: number[] // Weekdays for weekly rules (0 = Sunday ... 6 = Saturday)
+  until?: Date // No occurrences after this date
+  count?: number // Occurrences left in the series, including the current one
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Format a date as an iCalendar UTC date-time (e.g. 20260131T120000Z)
+ */
+export function formatICalDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+/**
+ * Parse an iCalendar date or date-time (e.g. 20260131 or 20260131T120000Z)
+ * A date alone stands for the end of that day, or its start if `startOfDay`
+ * is set. Date-times without a "Z" are in local time.
+ */
+export function parseICalDateTime(
+  value: string,
+  startOfDay = false,
+): Date | undefined {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/,
+  )
+  if (!match) return undefined
+
+  const [
+    ,
+    year,
+    month,
+    day,
+    hours = startOfDay ? '00' : '23',
+    minutes = startOfDay ? '00' : '59',
+    seconds = startOfDay ? '00' : '59',
+    utc,
+  ] = match
+  const parts = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds),
+  ] as const
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts)
+}
+
+/**
+ * Serialize a recurrence rule as an RRULE value
+ * (e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5)
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`]
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`)
+  }
+  if (
+    rule.frequency === RecurrenceFrequency.WEEKLY &&
+    rule.byWeekday &&
+    rule.byWeekday.length > 0
+  ) {
+    const days = [...rule.byWeekday].sort((a, b) => a - b)
+    parts.push(`BYDAY=${days.map(day => WEEKDAY_CODES[day]).join(',')}`)
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${formatICalDateTime(rule.until)}`)
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`)
+  }
+  return parts.join(';')
+}
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix)
+ * Returns undefined if the value has no supported frequency
+ */
+export function parseRRule(value: string): RecurrenceRule | undefined {
+  const params = new Map<string, string>()
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const [key, val] = part.split('=')
+    if (key && val) {
+      params.set(key.trim().toUpperCase(), val.trim())
+    }
+  }
+
+  const frequency = params.get('FREQ')?.toUpperCase()
+  if (
+    !frequency ||
+    !Object.values(RecurrenceFrequency).includes(
+      frequency as RecurrenceFrequency,
+    )
+  ) {
+    return undefined
+  }
+
+  const interval = Number(params.get('INTERVAL') ?? 1)
+  const rule: RecurrenceRule = {
+    frequency: frequency as RecurrenceFrequency,
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+  }
+
+  const byDay = params.get('BYDAY')
+  if (byDay) {
+    const days = byDay
+      .split(',')
+      // Ignore ordinal prefixes like "1MO", which are not supported
+      .map(code => WEEKDAY_CODES.indexOf(code.trim().toUpperCase()))
+      .filter(day => day !== -1)
+    if (days.length > 0) {
+      rule.byWeekday = days
+    }
+  }
+
+  const until = params.get('UNTIL')
+  if (until) {
+    rule.until = parseICalDateTime(until)
+  }
+
+  const count = Number(params.get('COUNT'))
+  if (Number.isInteger(count) && count > 0) {
+    rule.count = count
+  }
+
+  return rule
+}
+
+/**
+ * Add a number of months, clamping to the last day of the target month
+ * (e.g. Jan 31 + 1 month = Feb 28/29)
+ */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date)
+  const day = result.getDate()
+  result.setDate(1)
+  result.setMonth(result.getMonth() + months)
+  const lastDay = new Date(
+    result.getFullYear(),
+    result.getMonth() + 1,
+    0,
+  ).getDate()
+  result.setDate(Math.min(day, lastDay))
+  return result
+}
+
+/**
+ * Get the date of the occurrence following the one at `from`
+ * Returns undefined when the series has ended (COUNT used up or past UNTIL)
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  from: Date,
+): Date | undefined {
+  if (rule.count !== undefined && rule.count <= 1) {
+    return undefined
+  }
+
+  const interval = Math.max(1, rule.interval)
+  let next: Date
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      next = new Date(from)
+      next.setDate(next.getDate() + interval)
+      break
+    case RecurrenceFrequency.WEEKLY: {
+      const weekdays = rule.byWeekday ?? []
+      next = new Date(from)
+      if (weekdays.length === 0) {
+        next.setDate(next.getDate() + 7 * interval)
+        break
+      }
+      // Walk forward to the next listed weekday in a week that is on the interval
+      // (weeks start on the configured first day, like WKST in RFC 5545)
+      const fromWeek = getStartOfWeek(from).getTime()
+      do {
+        next.setDate(next.getDate() + 1)
+      } while (
+        !weekdays.includes(next.getDay()) ||
+        Math.round((getStartOfWeek(next).getTime() - fromWeek) / (7 * DAY_MS)) %
+          interval !==
+          0
+      )
+      break
+    }
+    case RecurrenceFrequency.MONTHLY:
+      next = addMonths(from, interval)
+      break
+    case RecurrenceFrequency.YEARLY:
+      next = addMonths(from, 12 * interval)
+      break
+  }
+
+  if (rule.until && next > rule.until) {
+    return undefined
+  }
+  return next
+}
+
+/**
+ * Create the next occurrence of a recurring task
+ * The start and due dates are shifted to the next occurrence, keeping the
+ * distance between them. Tasks without dates get the occurrence as start date.
+ * Returns undefined if the task does not recur or its series has ended.
+ */
+export function createNextOccurrence(
+  task: TaskClass,
+  id: string,
+): TaskClass | undefined {
+  const rule = task.recurrence
+  if (!rule) return undefined
+
+  const anchor = task.startDate ?? task.endDate ?? task.addedDate
+  const next = getNextOccurrence(rule, new Date(anchor))
+  if (!next) return undefined
+
+  // Shift by whole days, so times of day survive daylight saving changes
+  const shiftDays = Math.round(
+    (next.getTime() - new Date(anchor).getTime()) / DAY_MS,
+  )
+  const shiftDate = (date: Date) => {
+    const shifted = new Date(date)
+    shifted.setDate(shifted.getDate() + shiftDays)
+    return shifted
+  }
+
+  return new TaskClass({
+    id,
+    name: task.name,
+    description: task.description,
+    addedDate: new Date(),
+    startDate: task.startDate
+      ? shiftDate(task.startDate)
+      : task.endDate
+        ? undefined
+        : next,
+    endDate: task.endDate ? shiftDate(task.endDate) : undefined,
+    status: Status.IN_PROGRESS,
+    estimatedEffort: task.estimatedEffort,
+    parentId: task.parentId,
+    recurrence: {
+      ...rule,
+      byWeekday: rule.byWeekday ? [...rule.byWeekday] : undefined,
+      count: rule.count !== undefined ? rule.count - 1 : undefined,
+    },
+  })
+}
@@ -45,6 +45,7 @@ export function getParentTask(
 export function getAllDescendantTasks(
   taskId: string,
   store = useTaskStore(),
+  visited = new Set<string>([taskId]),
 ): TaskClass[] {
   const descendants: TaskClass[] = []
   const task = store.taskMap.get(taskId)
@@ -52,9 +53,10 @@ export function getAllDescendantTasks(
 
   for (const childId of task.childIds) {
     const childTask = store.taskMap.get(childId)
-    if (childTask) {
+    if (childTask && !visited.has(childId)) {
+      visited.add(childId)
       descendants.push(childTask)
-      descendants.push(...getAllDescendantTasks(childId, store))
+      descendants.push(...getAllDescendantTasks(childId, store, visited))
     }
   }
 
@@ -70,7 +72,7 @@ export function getAncestorTaskIds(
 ): string[] {
   const ancestors: string[] = []
   let task = store.taskMap.get(taskId)
-  while (task && task.parentId) {
+  while (task && task.parentId && !ancestors.includes(task.parentId)) {
     ancestors.push(task.parentId)
     task = store.taskMap.get(task.parentId)
   }
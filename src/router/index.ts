@@ -16,6 +16,26 @@ const router = createRouter({
       name: 'all-tasks',
       component: () => import('../views/HomeView.vue'),
     },
+    {
+      path: '/review',
+      name: 'weekly-review',
+      component: () => import('../views/WeeklyReviewView.vue'),
+    },
+    {
+      path: '/trash',
+      name: 'trash',
+      component: () => import('../views/TrashView.vue'),
+    },
+    {
+      path: '/import',
+      name: 'import',
+      component: () => import('../views/ImportView.vue'),
+    },
+    {
+      path: '/settings',
+      name: 'settings',
+      component: () => import('../views/SettingsView.vue'),
+    },
     {
       path: '/about',
       name: 'about',
@@ -1,10 +1,21 @@
-import { openDB } from 'idb'
+import { deleteDB, openDB } from 'idb'
 import type { DBSchema, IDBPDatabase } from 'idb'
+import {
+  getChangedFields,
+  pickTaskFields,
+  type TaskConflict,
+  type TaskField,
+  type TaskFields,
+} from '../sync/merge'
+import type { SyncOperation } from '../sync/outbox'
+import type { CachedResource, ResourceCache } from '../soukai/conditional-fetch'
+import { DB_VERSION, migrateTask, runMigrations } from './migrations'
 
 /**
  * IndexedDB schema for local task storage
+ * Changes to it are made by migrations (see migrations.ts).
  */
-interface TaskDB extends DBSchema {
+export interface TaskDB extends DBSchema {
   tasks: {
     key: string // task URL
     value: {
@@ -18,14 +29,42 @@ interface TaskDB extends DBSchema {
       status?: string
       subTaskUrls?: string[]
       parentTaskUrl?: string
+      dependsOnUrls?: string[]
+      recurrenceRule?: string // iCalendar RRULE value
+      estimatedEffort?: number
+      completedDate?: string // ISO string
+      rolloverCount?: number
+      tombstoneReason?: string
+      tombstonedDate?: string // ISO string
       lastModified: string // ISO string for sync
       syncStatus: 'synced' | 'pending' | 'conflict'
+      base?: TaskFields // Snapshot of the fields when last synced
+      fieldModified?: Partial<Record<TaskField, string>> // ISO string per field
+      conflict?: TaskConflict // Set while syncStatus is 'conflict'
     }
     indexes: {
       'by-lastModified': string
       'by-syncStatus': string
     }
   }
+  operations: {
+    key: number // Log position
+    value: SyncOperation
+    indexes: {
+      'by-url': string
+    }
+  }
+  appliedOperations: {
+    key: string // Operation id
+    value: {
+      id: string
+      appliedAt: string // ISO string
+    }
+  }
+  resources: {
+    key: string // Resource URL
+    value: CachedResource
+  }
   metadata: {
     key: string
     value: {
@@ -35,40 +74,115 @@ interface TaskDB extends DBSchema {
   }
 }
 
+/**
+ * A task as stored locally
+ */
+export type StoredTask = TaskDB['tasks']['value']
+
 /**
  * Local storage service using IndexedDB for offline-first task management
  */
-export class IndexedDBTaskStorage {
+export class IndexedDBTaskStorage implements ResourceCache {
   private db: IDBPDatabase<TaskDB> | null = null
   private readonly dbName = 'solid-planner'
-  private readonly version = 1
 
   /**
    * Initialize the IndexedDB database
+   * Upgrades it from the version stored, or recovers what it can if that
+   * fails.
    */
   async init(): Promise<void> {
     if (this.db) return
 
-    this.db = await openDB<TaskDB>(this.dbName, this.version, {
-      upgrade(db) {
-        // Create tasks store
-        if (!db.objectStoreNames.contains('tasks')) {
-          const taskStore = db.createObjectStore('tasks', { keyPath: 'url' })
-          taskStore.createIndex('by-lastModified', 'lastModified')
-          taskStore.createIndex('by-syncStatus', 'syncStatus')
-        }
-
-        // Create metadata store
-        if (!db.objectStoreNames.contains('metadata')) {
-          db.createObjectStore('metadata', { keyPath: 'key' })
-        }
+    let upgrading = false
+    try {
+      this.db = await this.open(() => (upgrading = true))
+    } catch (err) {
+      if (!upgrading) throw err
+      console.error('Failed to upgrade local storage, recovering:', err)
+      this.db = await this.recover()
+    }
+  }
+
+  /**
+   * Open the database at the current version, migrating it if needed
+   */
+  private open(onUpgrade?: () => void): Promise<IDBPDatabase<TaskDB>> {
+    return openDB<TaskDB>(this.dbName, DB_VERSION, {
+      upgrade(db, oldVersion, _newVersion, transaction) {
+        onUpgrade?.()
+        return runMigrations(db, transaction, oldVersion)
+      },
+      // Let a tab running a newer version of the app upgrade the database
+      blocking: () => {
+        this.db?.close()
+        this.db = null
       },
     })
   }
 
+  /**
+   * Recover from a failed upgrade
+   * The database is created again at the current version, with the tasks
+   * and operations that could be migrated (and the ids of those applied),
+   * and the metadata such as the last sync time and the user's settings.
+   * The Pod has the other tasks, so they come back on the next sync.
+   */
+  private async recover(): Promise<IDBPDatabase<TaskDB>> {
+    const old = await openDB(this.dbName)
+    const fromVersion = old.version
+    const read = (store: string) =>
+      old.objectStoreNames.contains(store) ? old.getAll(store) : []
+    const tasks: StoredTask[] = await read('tasks')
+    const operations: SyncOperation[] = await read('operations')
+    const applied: TaskDB['appliedOperations']['value'][] =
+      await read('appliedOperations')
+    const metadata: TaskDB['metadata']['value'][] = await read('metadata')
+    old.close()
+
+    await deleteDB(this.dbName)
+    const db = await this.open()
+
+    const transaction = db.transaction(
+      ['tasks', 'operations', 'appliedOperations', 'metadata'],
+      'readwrite',
+    )
+    let dropped = 0
+    for (const task of tasks) {
+      try {
+        if (typeof task.url !== 'string') throw new Error('Task without URL')
+        await transaction
+          .objectStore('tasks')
+          .put(migrateTask(task, fromVersion))
+      } catch (err) {
+        console.warn('Dropped a task that could not be migrated:', task, err)
+        dropped++
+      }
+    }
+    for (const operation of operations) {
+      if (typeof operation.seq === 'number') {
+        await transaction.objectStore('operations').put(operation)
+      }
+    }
+    for (const record of applied) {
+      await transaction.objectStore('appliedOperations').put(record)
+    }
+    for (const entry of metadata) {
+      await transaction.objectStore('metadata').put(entry)
+    }
+    await transaction.done
+
+    console.warn(
+      `Recovered ${tasks.length - dropped} of ${tasks.length} local tasks`,
+    )
+    return db
+  }
+
   /**
    * Save task to local storage
    * Accepts dates as either Date objects or ISO strings for flexibility
+   * Records when each field last changed, and keeps the last synced snapshot
+   * for merging. A conflict stays open until it is resolved.
    */
   async saveTask(task: {
     url: string
@@ -81,6 +195,13 @@ export class IndexedDBTaskStorage {
     status?: string
     subTaskUrls?: string[]
     parentTaskUrl?: string
+    dependsOnUrls?: string[]
+    recurrenceRule?: string
+    estimatedEffort?: number
+    completedDate?: Date | string
+    rolloverCount?: number
+    tombstoneReason?: string
+    tombstonedDate?: Date | string
   }): Promise<void> {
     if (!this.db) await this.init()
 
@@ -102,11 +223,32 @@ export class IndexedDBTaskStorage {
       status: task.status,
       subTaskUrls: task.subTaskUrls,
       parentTaskUrl: task.parentTaskUrl,
-      lastModified: new Date().toISOString(),
-      syncStatus: 'pending' as const,
+      dependsOnUrls: task.dependsOnUrls,
+      recurrenceRule: task.recurrenceRule,
+      estimatedEffort: task.estimatedEffort,
+      completedDate: toISOString(task.completedDate),
+      rolloverCount: task.rolloverCount,
+      tombstoneReason: task.tombstoneReason,
+      tombstonedDate: toISOString(task.tombstonedDate),
     }
 
-    await this.db!.put('tasks', taskData)
+    const existing = await this.db!.get('tasks', task.url)
+    const now = new Date().toISOString()
+    const fieldModified = { ...existing?.fieldModified }
+    if (existing) {
+      for (const field of getChangedFields(existing, taskData)) {
+        fieldModified[field] = now
+      }
+    }
+
+    await this.db!.put('tasks', {
+      ...taskData,
+      lastModified: now,
+      syncStatus: existing?.conflict ? 'conflict' : 'pending',
+      base: existing?.base,
+      fieldModified,
+      conflict: existing?.conflict,
+    })
   }
 
   /**
@@ -134,8 +276,18 @@ export class IndexedDBTaskStorage {
     return await index.getAll('pending')
   }
 
+  /**
+   * Get tasks with conflicting changes awaiting resolution
+   */
+  async getConflictedTasks() {
+    if (!this.db) await this.init()
+    const index = this.db!.transaction('tasks').store.index('by-syncStatus')
+    return await index.getAll('conflict')
+  }
+
   /**
    * Mark task as synced
+   * Its current fields become the base for the next merge.
    */
   async markAsSynced(url: string): Promise<void> {
     if (!this.db) await this.init()
@@ -143,23 +295,46 @@ export class IndexedDBTaskStorage {
     const task = await this.db!.get('tasks', url)
     if (task) {
       task.syncStatus = 'synced'
+      task.base = pickTaskFields(task)
+      task.fieldModified = {}
       await this.db!.put('tasks', task)
     }
   }
 
   /**
-   * Mark task as conflict
+   * Mark task as conflict, keeping the remote version to resolve it against
    */
-  async markAsConflict(url: string): Promise<void> {
+  async markAsConflict(url: string, conflict: TaskConflict): Promise<void> {
     if (!this.db) await this.init()
 
     const task = await this.db!.get('tasks', url)
     if (task) {
       task.syncStatus = 'conflict'
+      task.conflict = conflict
       await this.db!.put('tasks', task)
     }
   }
 
+  /**
+   * Settle a conflict with the chosen fields, to be pushed on the next sync
+   * The remote version becomes the base, so the choices don't conflict again.
+   */
+  async resolveConflict(url: string, fields: TaskFields): Promise<void> {
+    if (!this.db) await this.init()
+
+    const task = await this.db!.get('tasks', url)
+    if (task?.conflict) {
+      await this.db!.put('tasks', {
+        ...task,
+        ...pickTaskFields(fields),
+        lastModified: new Date().toISOString(),
+        syncStatus: 'pending',
+        base: task.conflict.remote,
+        conflict: undefined,
+      })
+    }
+  }
+
   /**
    * Delete task from local storage
    */
@@ -176,6 +351,116 @@ export class IndexedDBTaskStorage {
     await this.db!.clear('tasks')
   }
 
+  /**
+   * Append an operation to the outbox
+   */
+  async addOperation(operation: SyncOperation): Promise<void> {
+    if (!this.db) await this.init()
+    await this.db!.add('operations', operation)
+  }
+
+  /**
+   * Get the operations waiting to be synced, oldest first
+   */
+  async getOperations(): Promise<SyncOperation[]> {
+    if (!this.db) await this.init()
+    return await this.db!.getAll('operations')
+  }
+
+  /**
+   * Get the operations waiting to be synced for one task, oldest first
+   */
+  async getOperationsForUrl(url: string): Promise<SyncOperation[]> {
+    if (!this.db) await this.init()
+    const index = this.db!.transaction('operations').store.index('by-url')
+    return await index.getAll(url)
+  }
+
+  /**
+   * Count the operations waiting to be synced
+   */
+  async countOperations(): Promise<number> {
+    if (!this.db) await this.init()
+    return await this.db!.count('operations')
+  }
+
+  /**
+   * Update an operation in the outbox (e.g. its retry state)
+   */
+  async updateOperation(operation: SyncOperation): Promise<void> {
+    if (!this.db) await this.init()
+    await this.db!.put('operations', operation)
+  }
+
+  /**
+   * Remove an operation from the outbox once it is done
+   */
+  async deleteOperation(seq: number): Promise<void> {
+    if (!this.db) await this.init()
+    await this.db!.delete('operations', seq)
+  }
+
+  /**
+   * Record that an operation was applied to the Pod
+   * Kept until the operation is removed (see `completeOperation`), so it is
+   * not applied again if the app stops in between.
+   */
+  async markOperationApplied(id: string): Promise<void> {
+    if (!this.db) await this.init()
+    await this.db!.put('appliedOperations', {
+      id,
+      appliedAt: new Date().toISOString(),
+    })
+  }
+
+  /**
+   * Get the ids of the operations applied but still in the outbox
+   */
+  async getAppliedOperationIds(): Promise<string[]> {
+    if (!this.db) await this.init()
+    return await this.db!.getAllKeys('appliedOperations')
+  }
+
+  /**
+   * Remove an applied operation from the outbox, along with its record
+   */
+  async completeOperation(operation: SyncOperation): Promise<void> {
+    if (!this.db) await this.init()
+    const transaction = this.db!.transaction(
+      ['operations', 'appliedOperations'],
+      'readwrite',
+    )
+    await Promise.all([
+      transaction.objectStore('operations').delete(operation.seq!),
+      transaction.objectStore('appliedOperations').delete(operation.id),
+      transaction.done,
+    ])
+  }
+
+  /**
+   * Get a resource as last read from the Pod
+   */
+  async getResource(url: string): Promise<CachedResource | undefined> {
+    if (!this.db) await this.init()
+    return await this.db!.get('resources', url)
+  }
+
+  /**
+   * Cache a resource read from the Pod, with its validators
+   */
+  async saveResource(resource: CachedResource): Promise<void> {
+    if (!this.db) await this.init()
+    await this.db!.put('resources', resource)
+  }
+
+  /**
+   * Forget a cached resource (e.g. once it was written)
+   */
+  async deleteResource(url: string): Promise<void> {
+    if (!this.db) await this.init()
+    await this.db!.delete('resources', url)
+  }
+
   /**
    * Get metadata value
    */
@@ -0,0 +1,127 @@
+/**
+ * Versioned migrations of the local database
+ *
+ * Each version of the `solid-planner` database has a migration: its schema
+ * changes (object stores and indexes), and optionally a transform of the
+ * tasks stored before it (e.g. to fill in a new field). Opening the database
+ * runs the migrations of every version since the stored one, in order, in a
+ * single upgrade transaction: if any of them fails, none of them applies.
+ *
+ * To change the schema or the stored tasks, add a migration with the next
+ * version; never change the ones already released.
+ */
+import type { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb'
+import { pickTaskFields } from '../sync/merge'
+import type { StoredTask, TaskDB } from './indexeddb-storage'
+
+export type UpgradeTransaction = IDBPTransaction<
+  TaskDB,
+  StoreNames<TaskDB>[],
+  'versionchange'
+>
+
+export interface Migration {
+  version: number
+  description: string
+  // Schema changes, made synchronously while upgrading
+  upgrade?: (db: IDBPDatabase<TaskDB>, transaction: UpgradeTransaction) => void
+  // Transform of a task stored before this version
+  migrateTask?: (task: StoredTask) => StoredTask
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Tasks and metadata',
+    upgrade(db) {
+      const taskStore = db.createObjectStore('tasks', { keyPath: 'url' })
+      taskStore.createIndex('by-lastModified', 'lastModified')
+      taskStore.createIndex('by-syncStatus', 'syncStatus')
+      db.createObjectStore('metadata', { keyPath: 'key' })
+    },
+  },
+  {
+    version: 2,
+    description: 'Outbox of operations to sync, in log order',
+    upgrade(db) {
+      const operationStore = db.createObjectStore('operations', {
+        keyPath: 'seq',
+        autoIncrement: true,
+      })
+      operationStore.createIndex('by-url', 'url')
+    },
+  },
+  {
+    version: 3,
+    description: 'Cache of the resources read from the Pod',
+    upgrade(db) {
+      db.createObjectStore('resources', { keyPath: 'url' })
+    },
+  },
+  {
+    version: 4,
+    description: 'Sync state of tasks stored before field-level merging',
+    migrateTask(task) {
+      // Synced tasks had no base to merge against: their fields are that base
+      if (task.syncStatus === 'synced' && !task.base) {
+        return { ...task, base: pickTaskFields(task), fieldModified: {} }
+      }
+      // Conflicts without a remote version could never be resolved
+      if (task.syncStatus === 'conflict' && !task.conflict) {
+        return { ...task, syncStatus: 'pending' }
+      }
+      return task
+    },
+  },
+  {
+    version: 5,
+    description: 'Ids of the operations applied, until removed from the outbox',
+    upgrade(db) {
+      db.createObjectStore('appliedOperations', { keyPath: 'id' })
+    },
+  },
+]
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Migrate a task stored at an earlier version to the current one
+ */
+export function migrateTask(task: StoredTask, fromVersion: number): StoredTask {
+  return MIGRATIONS.filter(migration => migration.version > fromVersion).reduce(
+    (migrated, migration) => migration.migrateTask?.(migrated) ?? migrated,
+    task,
+  )
+}
+
+/**
+ * Upgrade the database from an earlier version, as part of opening it
+ * A failure aborts the upgrade transaction, which makes opening the database
+ * fail with the stored data left as it was.
+ */
+export async function runMigrations(
+  db: IDBPDatabase<TaskDB>,
+  transaction: UpgradeTransaction,
+  oldVersion: number,
+): Promise<void> {
+  try {
+    for (const migration of MIGRATIONS) {
+      if (migration.version > oldVersion) {
+        migration.upgrade?.(db, transaction)
+      }
+    }
+
+    if (oldVersion === 0) return
+    let cursor = await transaction.objectStore('tasks').openCursor()
+    while (cursor) {
+      const migrated = migrateTask(cursor.value, oldVersion)
+      if (migrated !== cursor.value) await cursor.update(migrated)
+      cursor = await cursor.continue()
+    }
+  } catch (err) {
+    console.error('Failed to upgrade the local database:', err)
+    // Opening the database fails with the abort, so it is reported there
+    transaction.done.catch(() => {})
+    if (!transaction.error) transaction.abort()
+  }
+}
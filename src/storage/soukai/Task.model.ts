@@ -1,5 +1,6 @@
 import { FieldType } from 'soukai'
 import { SolidModel } from 'soukai-solid'
+import { URL_SP } from './namespaces'
 
 /**
  * Soukai model for Task, using schema.org/Action as RDF type
@@ -12,6 +13,7 @@ export default class Task extends SolidModel {
 
   static rdfContexts = {
     schema: 'https://schema.org/',
+    sp: URL_SP,
   }
 
   static rdfsClasses = ['Action']
@@ -57,6 +59,38 @@ export default class Task extends SolidModel {
       type: FieldType.String,
       rdfProperty: 'schema:partOf',
     },
+    // Tasks this task is blocked by, stored as URLs (foreign keys)
+    dependsOnUrls: {
+      type: FieldType.Array,
+      items: FieldType.String,
+      rdfProperty: 'sp:dependsOn',
+    },
+    // Repetition of the task, as an iCalendar RRULE value
+    recurrenceRule: {
+      type: FieldType.String,
+      rdfProperty: 'sp:recurrenceRule',
+    },
+    // Estimated effort, in hours or points
+    estimatedEffort: {
+      type: FieldType.Number,
+      rdfProperty: 'sp:estimatedEffort',
+    },
+    completedDate: {
+      type: FieldType.Date,
+      rdfProperty: 'sp:completedDate',
+    },
+    rolloverCount: {
+      type: FieldType.Number,
+      rdfProperty: 'sp:rolloverCount',
+    },
+    tombstoneReason: {
+      type: FieldType.String,
+      rdfProperty: 'sp:tombstoneReason',
+    },
+    tombstonedDate: {
+      type: FieldType.Date,
+      rdfProperty: 'sp:tombstonedDate',
+    },
   }
 
   // Type-safe field accessors
@@ -69,6 +103,13 @@ export default class Task extends SolidModel {
   declare status?: string
   declare subTaskUrls?: string[]
   declare parentTaskUrl?: string
+  declare dependsOnUrls?: string[]
+  declare recurrenceRule?: string
+  declare estimatedEffort?: number
+  declare completedDate?: Date
+  declare rolloverCount?: number
+  declare tombstoneReason?: string
+  declare tombstonedDate?: Date
 
   // Soukai automatic timestamps
   declare createdAt?: Date
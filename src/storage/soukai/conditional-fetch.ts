@@ -0,0 +1,186 @@
+/**
+ * Conditional requests to a Solid Pod
+ *
+ * Wraps the authenticated fetch used by Soukai. Resources read from the Pod
+ * are cached with their ETag (or Last-Modified date), so reading them again
+ * is a conditional GET: an unchanged resource is answered with a 304 and
+ * served from the cache instead of being downloaded again. Writes are made
+ * conditional too (If-Match), so a resource changed remotely since it was
+ * read or last written is not overwritten: the write fails with a
+ * PreconditionFailedError. Creates (If-None-Match: *) fail the same way when
+ * the resource exists already.
+ */
+
+/**
+ * A resource as last read from the Pod
+ */
+export interface CachedResource {
+  url: string
+  etag?: string
+  lastModified?: string // HTTP date
+  body?: string // Unknown after a PATCH, until read again
+  contentType?: string
+}
+
+/**
+ * Storage for the cached resources (see IndexedDBTaskStorage)
+ */
+export interface ResourceCache {
+  getResource(url: string): Promise<CachedResource | undefined>
+  saveResource(resource: CachedResource): Promise<void>
+  deleteResource(url: string): Promise<void>
+}
+
+/**
+ * A write refused because the resource changed since it was read (HTTP 412)
+ */
+export class PreconditionFailedError extends Error {
+  constructor(public url: string) {
+    super(`${url} was modified remotely since it was read`)
+    this.name = 'PreconditionFailedError'
+  }
+}
+
+/**
+ * Whether an error (or one it was caused by) is a refused conditional write
+ */
+export function isPreconditionFailed(error: unknown): boolean {
+  for (let cause = error; cause; cause = (cause as { cause?: unknown }).cause) {
+    if (cause instanceof PreconditionFailedError) return true
+  }
+  return false
+}
+
+const WRITE_METHODS = ['PUT', 'PATCH', 'DELETE']
+
+/**
+ * Create a fetch making conditional requests, backed by a resource cache
+ */
+export function createConditionalFetch(
+  fetchFn: typeof fetch,
+  cache: ResourceCache,
+): typeof fetch {
+  return async (input, init) => {
+    const url = getRequestUrl(input)
+    const method = (init?.method ?? 'GET').toUpperCase()
+
+    if (method === 'GET') {
+      return conditionalGet(fetchFn, cache, url, input, init)
+    }
+    if (WRITE_METHODS.includes(method)) {
+      return conditionalWrite(fetchFn, cache, url, input, init)
+    }
+    return fetchFn(input, init)
+  }
+}
+
+/**
+ * GET a resource, unless the cached version is still current
+ */
+async function conditionalGet(
+  fetchFn: typeof fetch,
+  cache: ResourceCache,
+  url: string,
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+): Promise<Response> {
+  const cached = await cache.getResource(url)
+  const headers = new Headers(init?.headers)
+  if (cached?.body !== undefined) {
+    if (cached.etag) {
+      headers.set('If-None-Match', cached.etag)
+    } else if (cached.lastModified) {
+      headers.set('If-Modified-Since', cached.lastModified)
+    }
+  }
+
+  const response = await fetchFn(input, { ...init, headers })
+
+  if (response.status === 304 && cached?.body !== undefined) {
+    return new Response(cached.body, {
+      status: 200,
+      headers: cachedHeaders(cached),
+    })
+  }
+
+  const etag = response.headers.get('ETag') ?? undefined
+  const lastModified = response.headers.get('Last-Modified') ?? undefined
+  if (response.ok && (etag || lastModified)) {
+    await cache.saveResource({
+      url,
+      etag,
+      lastModified,
+      body: await response.clone().text(),
+      contentType: response.headers.get('Content-Type') ?? undefined,
+    })
+  } else if (response.status === 404 && cached) {
+    await cache.deleteResource(url)
+  }
+  return response
+}
+
+/**
+ * Write a resource, provided it did not change since it was read
+ * The version written is cached in turn, so the next write to the resource is
+ * conditional as well. A create (If-None-Match: *) is left as it is, as the
+ * resource must not exist whatever version of it was cached.
+ */
+async function conditionalWrite(
+  fetchFn: typeof fetch,
+  cache: ResourceCache,
+  url: string,
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+): Promise<Response> {
+  const cached = await cache.getResource(url)
+  const headers = new Headers(init?.headers)
+  if (!headers.has('If-None-Match')) {
+    if (cached?.etag) {
+      headers.set('If-Match', cached.etag)
+    } else if (cached?.lastModified) {
+      headers.set('If-Unmodified-Since', cached.lastModified)
+    }
+  }
+
+  const method = init?.method?.toUpperCase()
+  const response = await fetchFn(input, { ...init, headers })
+
+  if (response.status === 412) {
+    throw new PreconditionFailedError(url)
+  }
+  if (!response.ok) return response
+
+  const etag = response.headers.get('ETag') ?? undefined
+  const lastModified = response.headers.get('Last-Modified') ?? undefined
+  if (method !== 'DELETE' && (etag || lastModified)) {
+    // A PUT replaces the resource with its body, a PATCH only changes it
+    const replaced = method === 'PUT' && typeof init?.body === 'string'
+    await cache.saveResource({
+      url,
+      etag,
+      lastModified,
+      body: replaced ? (init.body as string) : undefined,
+      contentType: replaced
+        ? (headers.get('Content-Type') ?? undefined)
+        : undefined,
+    })
+  } else if (cached) {
+    // Without a version to check the next write against
+    await cache.deleteResource(url)
+  }
+  return response
+}
+
+function getRequestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input
+  if (input instanceof URL) return input.href
+  return input.url
+}
+
+function cachedHeaders(cached: CachedResource): Headers {
+  const headers = new Headers()
+  if (cached.contentType) headers.set('Content-Type', cached.contentType)
+  if (cached.etag) headers.set('ETag', cached.etag)
+  if (cached.lastModified) headers.set('Last-Modified', cached.lastModified)
+  return headers
+}
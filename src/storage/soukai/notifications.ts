@@ -0,0 +1,301 @@
+/**
+ * Subscriptions to changes of resources in a Solid Pod
+ *
+ * Uses the Solid Notifications Protocol (WebSocketChannel2023), found through
+ * the storage description of the Pod. Pods that predate it are subscribed to
+ * with the legacy `solid-0.1` WebSocket API, advertised in the `Updates-Via`
+ * header instead.
+ *
+ * A subscription can follow more resources than the one subscribed to (e.g.
+ * the tasks in a container, which is only notified of tasks being added or
+ * removed). With `solid-0.1` they share its WebSocket. WebSocketChannel2023
+ * needs a channel per resource, so only a limited number of them are followed.
+ */
+
+const NOTIFICATIONS_CONTEXT = 'https://www.w3.org/ns/solid/notification/v1'
+const WEBSOCKET_CHANNEL_2023 =
+  'http://www.w3.org/ns/solid/notifications#WebSocketChannel2023'
+const STORAGE_DESCRIPTION_REL =
+  'http://www.w3.org/ns/solid/terms#storageDescription'
+const MAX_FOLLOWED_CHANNELS = 20 // WebSocketChannel2023 resources followed
+
+export interface ChangeHandlers {
+  onChange: (url: string) => void // Called with the URL of a changed resource
+  onClose: () => void // Called if the subscription stops on its own
+}
+
+export interface ChangeSubscription {
+  close(): void
+  // Follow these resources as well, instead of those followed before.
+  // Resolves to the ones followed, which may be fewer than asked for.
+  follow(urls: string[]): Promise<string[]>
+}
+
+/**
+ * Subscribe to the changes of a resource (or of the resources in a container)
+ * Resolves to null when the Pod offers no way to subscribe.
+ */
+export async function subscribeToResource(
+  topic: string,
+  fetchFn: typeof fetch,
+  handlers: ChangeHandlers,
+): Promise<ChangeSubscription | null> {
+  try {
+    const subscription = await subscribeWebSocketChannel(
+      topic,
+      fetchFn,
+      handlers,
+    )
+    if (subscription) return subscription
+  } catch (err) {
+    console.warn('Failed to subscribe with WebSocketChannel2023:', err)
+  }
+
+  try {
+    return await subscribeLegacyWebSocket(topic, fetchFn, handlers)
+  } catch (err) {
+    console.warn('Failed to subscribe with solid-0.1:', err)
+    return null
+  }
+}
+
+/**
+ * Subscribe through a WebSocketChannel2023 subscription service
+ * The resources followed get a channel each, from the same service.
+ */
+async function subscribeWebSocketChannel(
+  topic: string,
+  fetchFn: typeof fetch,
+  handlers: ChangeHandlers,
+): Promise<ChangeSubscription | null> {
+  const serviceUrl = await findSubscriptionServiceUrl(topic, fetchFn)
+  if (!serviceUrl) return null
+
+  const openChannel = async (channelTopic: string) => {
+    const response = await fetchFn(serviceUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/ld+json' },
+      body: JSON.stringify({
+        '@context': [NOTIFICATIONS_CONTEXT],
+        type: WEBSOCKET_CHANNEL_2023,
+        topic: channelTopic,
+      }),
+    })
+    if (!response.ok) {
+      throw new Error(`Subscription refused (${response.status})`)
+    }
+    const { receiveFrom } = await response.json()
+    if (typeof receiveFrom !== 'string') return null
+
+    const socket = await openWebSocket(receiveFrom)
+    socket.addEventListener('message', event => {
+      const url = getNotificationObject(String(event.data))
+      if (url) handlers.onChange(url)
+    })
+    return socket
+  }
+
+  const socket = await openChannel(topic)
+  if (!socket) return null
+  const subscription = watchSocket(socket, handlers)
+  // By resource URL; a channel closing on its own is opened again when
+  // `follow` is next called
+  const channels = new Map<string, Promise<WebSocket | null>>()
+  const closeChannel = (url: string) => {
+    channels.get(url)?.then(channel => channel?.close())
+    channels.delete(url)
+  }
+
+  return {
+    close() {
+      subscription.close()
+      for (const url of [...channels.keys()]) closeChannel(url)
+    },
+    async follow(urls) {
+      const wanted = urls.slice(0, MAX_FOLLOWED_CHANNELS)
+      for (const url of channels.keys()) {
+        if (!wanted.includes(url)) closeChannel(url)
+      }
+
+      for (const url of wanted) {
+        if (channels.has(url)) continue
+        const channel = openChannel(url).catch(err => {
+          console.warn(`Failed to follow the changes of ${url}:`, err)
+          return null
+        })
+        channels.set(url, channel)
+        channel.then(socket =>
+          socket?.addEventListener('close', () => {
+            if (channels.get(url) === channel) channels.delete(url)
+          }),
+        )
+      }
+
+      const opened = await Promise.all(wanted.map(url => channels.get(url)))
+      return wanted.filter((_url, i) => opened[i])
+    },
+  }
+}
+
+/**
+ * Find the WebSocketChannel2023 subscription service of the Pod storing a
+ * resource, through its storage description
+ */
+async function findSubscriptionServiceUrl(
+  topic: string,
+  fetchFn: typeof fetch,
+): Promise<string | undefined> {
+  const head = await fetchFn(topic, { method: 'HEAD' })
+  const descriptionUrl = getLinkUrl(
+    head.headers.get('Link'),
+    STORAGE_DESCRIPTION_REL,
+    topic,
+  )
+  if (!descriptionUrl) return undefined
+
+  const description = await fetchFn(descriptionUrl, {
+    headers: { Accept: 'application/ld+json' },
+  })
+  if (!description.ok) return undefined
+  const serviceUrl = findSubscriptionService(await description.json())
+  return serviceUrl && new URL(serviceUrl, descriptionUrl).href
+}
+
+/**
+ * Subscribe through the legacy `solid-0.1` WebSocket API
+ * The resources followed are subscribed to over the same WebSocket. There is
+ * no way to unsubscribe from them, so they stay followed until it closes.
+ */
+async function subscribeLegacyWebSocket(
+  topic: string,
+  fetchFn: typeof fetch,
+  handlers: ChangeHandlers,
+): Promise<ChangeSubscription | null> {
+  const head = await fetchFn(topic, { method: 'HEAD' })
+  const updatesVia = head.headers.get('Updates-Via')
+  if (!updatesVia) return null
+
+  const socket = await openWebSocket(updatesVia, 'solid-0.1')
+  socket.addEventListener('message', event => {
+    // Messages are "ack <url>" for the subscription, then "pub <url>"
+    const [type, url] = String(event.data).split(' ')
+    if (type === 'pub' && url) handlers.onChange(url)
+  })
+  socket.send(`sub ${topic}`)
+
+  const subscribed = new Set([topic])
+  return {
+    ...watchSocket(socket, handlers),
+    async follow(urls) {
+      for (const url of urls) {
+        if (subscribed.has(url)) continue
+        socket.send(`sub ${url}`)
+        subscribed.add(url)
+      }
+      return urls
+    },
+  }
+}
+
+/**
+ * Open a WebSocket, resolving once it is connected
+ */
+function openWebSocket(url: string, protocol?: string): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = protocol ? new WebSocket(url, protocol) : new WebSocket(url)
+    socket.addEventListener('open', () => resolve(socket), { once: true })
+    socket.addEventListener(
+      'error',
+      () => reject(new Error(`Could not connect to ${url}`)),
+      { once: true },
+    )
+  })
+}
+
+/**
+ * Report a socket closing on its own, and allow closing it
+ */
+function watchSocket(
+  socket: WebSocket,
+  handlers: ChangeHandlers,
+): Pick<ChangeSubscription, 'close'> {
+  let closed = false
+  socket.addEventListener('close', () => {
+    if (!closed) handlers.onClose()
+  })
+  return {
+    close() {
+      closed = true
+      socket.close()
+    },
+  }
+}
+
+/**
+ * Get the URL of a link with the given relation from a Link header
+ */
+export function getLinkUrl(
+  header: string | null,
+  rel: string,
+  baseUrl: string,
+): string | undefined {
+  for (const link of header?.split(',') ?? []) {
+    const match = link.match(/<([^>]*)>\s*;(.*)/)
+    if (!match) continue
+    const rels = match[2].match(/rel="?([^";]*)"?/)?.[1].split(/\s+/) ?? []
+    if (rels.includes(rel)) {
+      return new URL(match[1], baseUrl).href
+    }
+  }
+  return undefined
+}
+
+type JsonLdNode = Record<string, unknown>
+
+function asList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Get the id of a JSON-LD node, or of a reference to one
+ */
+function getId(value: unknown): string | undefined {
+  if (typeof value === 'string') return value
+  if (value && typeof value === 'object') {
+    const id = (value as JsonLdNode).id ?? (value as JsonLdNode)['@id']
+    return typeof id === 'string' ? id : undefined
+  }
+  return undefined
+}
+
+/**
+ * Find the WebSocketChannel2023 subscription service in a storage description
+ */
+function findSubscriptionService(description: unknown): string | undefined {
+  for (const node of asList(description) as JsonLdNode[]) {
+    const services = asList(
+      node.subscription ?? node['notify:subscription'],
+    ) as JsonLdNode[]
+    for (const service of services) {
+      const channelTypes = asList(
+        service.channelType ?? service['notify:channelType'],
+      ).map(getId)
+      if (channelTypes.some(type => type?.endsWith('WebSocketChannel2023'))) {
+        return getId(service)
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Get the URL of the resource a notification is about
+ */
+function getNotificationObject(message: string): string | undefined {
+  try {
+    return getId(JSON.parse(message).object)
+  } catch {
+    return undefined
+  }
+}
@@ -1,24 +1,43 @@
-import { bootSolidModels, SolidEngine } from 'soukai-solid'
+import { bootSolidModels, SolidEngine, Tombstone } from 'soukai-solid'
 import { setEngine } from 'soukai'
 import Task from './Task.model'
 import { TaskClass, Status } from '@/models/TaskClass'
+import { formatRRule, parseRRule } from '@/models/recurrence'
 import { TaskGraph } from '@/models/TaskGraph'
 import { withTrailingSlash } from '@/utils/url'
+import type { RemoteDeletion } from '@/storage/sync/sync-service'
+import {
+  getLinkUrl,
+  subscribeToResource,
+  type ChangeHandlers,
+  type ChangeSubscription,
+} from './notifications'
+import { createConditionalFetch, type ResourceCache } from './conditional-fetch'
+import { getIndexedDBStorage } from '@/storage/local/indexeddb-storage'
 
 const TASK_CONTAINER_NAME = 'planner/tasks/'
+const CALENDAR_FEED_NAME = 'planner/deadlines.ics'
 
 /**
  * Service for reading and writing tasks to/from a Solid Pod using Soukai
  */
 export class SolidTaskService {
   private taskContainerUrl: string
+  private calendarFeedUrl: string
   private engine: SolidEngine
 
-  constructor(podRootUri: string, authFetch: typeof fetch) {
+  constructor(
+    podRootUri: string,
+    private authFetch: typeof fetch,
+    cache?: ResourceCache, // Makes requests conditional, see conditional-fetch
+  ) {
     this.taskContainerUrl = `${withTrailingSlash(podRootUri)}${TASK_CONTAINER_NAME}`
+    this.calendarFeedUrl = `${withTrailingSlash(podRootUri)}${CALENDAR_FEED_NAME}`
 
     // Initialize Soukai with authenticated fetch
-    this.engine = new SolidEngine(authFetch)
+    this.engine = new SolidEngine(
+      cache ? createConditionalFetch(authFetch, cache) : authFetch,
+    )
     setEngine(this.engine)
 
     // Boot Solid models
@@ -32,6 +51,84 @@ export class SolidTaskService {
     return this.taskContainerUrl
   }
 
+  /**
+   * Get the URL of the calendar feed of upcoming deadlines
+   */
+  getCalendarFeedUrl(): string {
+    return this.calendarFeedUrl
+  }
+
+  /**
+   * Publish the calendar feed, replacing the previous one
+   * It is readable by whoever the planner container is shared with, unless
+   * it is made public (see `setCalendarFeedPublic`).
+   */
+  async publishCalendarFeed(content: string): Promise<void> {
+    const response = await this.authFetch(this.calendarFeedUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'text/calendar' },
+      body: content,
+    })
+    if (!response.ok) {
+      throw new Error(
+        `Failed to publish the calendar feed: ${response.status} ${response.statusText}`,
+      )
+    }
+  }
+
+  /**
+   * Whether anyone can read the calendar feed, as told by the Pod (WAC-Allow)
+   */
+  async isCalendarFeedPublic(): Promise<boolean> {
+    const response = await this.authFetch(this.calendarFeedUrl, {
+      method: 'HEAD',
+    })
+    const publicModes =
+      response.headers.get('WAC-Allow')?.match(/public="([^"]*)"/)?.[1] ?? ''
+    return publicModes.split(/\s+/).includes('read')
+  }
+
+  /**
+   * Let anyone read the calendar feed, or only whoever the planner container
+   * is shared with again
+   * Calendar apps cannot log in to a Pod, so they can only subscribe to a
+   * public feed. It is made public with an ACL of its own, which also gives
+   * its owner full control; removing that ACL makes it private again.
+   * @param ownerWebId WebID of the owner of the Pod
+   */
+  async setCalendarFeedPublic(
+    isPublic: boolean,
+    ownerWebId: string,
+  ): Promise<void> {
+    const head = await this.authFetch(this.calendarFeedUrl, { method: 'HEAD' })
+    if (head.status === 404) {
+      throw new Error('The calendar feed is published after the next sync')
+    }
+    const aclUrl = getLinkUrl(
+      head.headers.get('Link'),
+      'acl',
+      this.calendarFeedUrl,
+    )
+    if (!aclUrl) {
+      throw new Error('The Pod does not allow sharing the calendar feed')
+    }
+
+    const response = isPublic
+      ? await this.authFetch(aclUrl, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'text/turtle' },
+          body: formatPublicReadAcl(this.calendarFeedUrl, ownerWebId),
+        })
+      : await this.authFetch(aclUrl, { method: 'DELETE' })
+    // Without an ACL of its own, it is private already
+    const isPrivate = !isPublic && response.status === 404
+    if (!response.ok && !isPrivate) {
+      throw new Error(
+        `Failed to share the calendar feed: ${response.status} ${response.statusText}`,
+      )
+    }
+  }
+
   /**
    * Fetch all tasks from the Solid Pod
    */
@@ -47,6 +144,45 @@ export class SolidTaskService {
     }
   }
 
+  /**
+   * Fetch a single task from the Solid Pod
+   * Resolves to null if it does not exist (anymore)
+   */
+  async fetchTask(taskUrl: string): Promise<Task | null> {
+    return (await Task.find(taskUrl)) as Task | null
+  }
+
+  /**
+   * Subscribe to changes of the tasks made elsewhere (e.g. on another device)
+   * The container is only notified of tasks added to or removed from it:
+   * edits to a task are notified once the subscription follows its resource.
+   * Resolves to null when the Pod has no notifications to subscribe to.
+   */
+  subscribeToChanges(
+    handlers: ChangeHandlers,
+  ): Promise<ChangeSubscription | null> {
+    return subscribeToResource(this.taskContainerUrl, this.authFetch, handlers)
+  }
+
+  /**
+   * Fetch the tasks deleted from the Solid Pod
+   * Deleted tasks leave a tombstone behind (see `Task.tombstone`), which
+   * records when they were deleted.
+   */
+  async fetchDeletions(): Promise<RemoteDeletion[]> {
+    try {
+      const tombstones = await Tombstone.from(this.taskContainerUrl).all()
+      return tombstones.map(tombstone => ({
+        url: tombstone.resourceUrl,
+        deletedAt: tombstone.deletedAt,
+      }))
+    } catch (err) {
+      console.error('Error fetching deleted tasks:', err)
+      // If container doesn't exist, nothing was deleted
+      return []
+    }
+  }
+
   /**
    * Delete a task by URL (recursively deletes subtasks)
    */
@@ -106,6 +242,14 @@ export class SolidTaskService {
         startDate: task.startDate,
         endDate: task.endDate,
         status: task.status as Status | undefined,
+        recurrence: task.recurrenceRule
+          ? parseRRule(task.recurrenceRule)
+          : undefined,
+        estimatedEffort: task.estimatedEffort,
+        completedDate: task.completedDate,
+        rolloverCount: task.rolloverCount,
+        tombstoneReason: task.tombstoneReason,
+        tombstonedDate: task.tombstonedDate,
       })
 
       taskClass.fullId = taskUrl
@@ -129,6 +273,17 @@ export class SolidTaskService {
           }
         }
       }
+
+      // Handle dependencies - store IDs in TaskClass.dependsOn
+      if (task.dependsOnUrls && task.dependsOnUrls.length > 0) {
+        for (const dependencyUrl of task.dependsOnUrls) {
+          const absoluteUrl = this.toAbsoluteUrl(dependencyUrl)
+          const dependencyClass = taskMap.get(absoluteUrl)
+          if (dependencyClass) {
+            taskClass.dependsOn.push(dependencyClass.id)
+          }
+        }
+      }
     }
 
     // Build graph from TaskClass data
@@ -193,6 +348,14 @@ export class SolidTaskService {
     task.startDate = taskClass.startDate
     task.endDate = taskClass.endDate
     task.status = taskClass.status
+    task.recurrenceRule = taskClass.recurrence
+      ? formatRRule(taskClass.recurrence)
+      : undefined
+    task.estimatedEffort = taskClass.estimatedEffort
+    task.completedDate = taskClass.completedDate
+    task.rolloverCount = taskClass.rolloverCount
+    task.tombstoneReason = taskClass.tombstoneReason
+    task.tombstonedDate = taskClass.tombstonedDate
 
     // Set subtask IDs (Soukai will handle URL conversion)
     if (taskClass.childIds.length > 0) {
@@ -207,6 +370,13 @@ export class SolidTaskService {
     } else {
       task.parentTaskUrl = undefined
     }
+
+    // Set dependency IDs (Soukai will handle URL conversion)
+    if (taskClass.dependsOn.length > 0) {
+      task.dependsOnUrls = taskClass.dependsOn
+    } else {
+      task.dependsOnUrls = undefined
+    }
   }
 
   /**
@@ -226,6 +396,14 @@ export class SolidTaskService {
     task.startDate = taskClass.startDate
     task.endDate = taskClass.endDate
     task.status = taskClass.status
+    task.recurrenceRule = taskClass.recurrence
+      ? formatRRule(taskClass.recurrence)
+      : undefined
+    task.estimatedEffort = taskClass.estimatedEffort
+    task.completedDate = taskClass.completedDate
+    task.rolloverCount = taskClass.rolloverCount
+    task.tombstoneReason = taskClass.tombstoneReason
+    task.tombstonedDate = taskClass.tombstonedDate
 
     // Set subtask IDs (Soukai will handle URL conversion)
     if (taskClass.childIds.length > 0) {
@@ -239,6 +417,11 @@ export class SolidTaskService {
       task.parentTaskUrl = taskClass.parentId
     }
 
+    // Set dependency IDs (Soukai will handle URL conversion)
+    if (taskClass.dependsOn.length > 0) {
+      task.dependsOnUrls = taskClass.dependsOn
+    }
+
     return task
   }
 
@@ -277,8 +460,29 @@ export class SolidTaskService {
   }
 }
 
+/**
+ * Format an ACL (Web Access Control) letting anyone read a resource, and its
+ * owner also change it and who can access it
+ */
+function formatPublicReadAcl(resourceUrl: string, ownerWebId: string): string {
+  return `@prefix acl: <http://www.w3.org/ns/auth/acl#>.
+@prefix foaf: <http://xmlns.com/foaf/0.1/>.
+
+<#owner> a acl:Authorization;
+  acl:agent <${ownerWebId}>;
+  acl:accessTo <${resourceUrl}>;
+  acl:mode acl:Read, acl:Write, acl:Control.
+
+<#public> a acl:Authorization;
+  acl:agentClass foaf:Agent;
+  acl:accessTo <${resourceUrl}>;
+  acl:mode acl:Read.
+`
+}
+
 /**
  * Create a SolidTaskService instance
+ * Resources read from the Pod are cached in IndexedDB, for conditional requests
  * @param podRootUri Root URI of the Solid Pod
  * @param authFetch Authenticated fetch function
  */
@@ -286,5 +490,5 @@ export function createSolidTaskService(
   podRootUri: string,
   authFetch: typeof fetch,
 ): SolidTaskService {
-  return new SolidTaskService(podRootUri, authFetch)
+  return new SolidTaskService(podRootUri, authFetch, getIndexedDBStorage())
 }
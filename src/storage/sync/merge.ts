@@ -0,0 +1,141 @@
+/**
+ * Field-level three-way merge of task records
+ *
+ * Each side of a sync is compared, field by field, against the snapshot taken
+ * when the task was last synced (the base). A field changed on one side only
+ * takes that side's value, so edits to different fields on different devices
+ * are all kept. Only a field changed on both sides, to different values, is a
+ * conflict that needs resolving.
+ */
+
+/**
+ * The synced fields of a task, as stored locally (dates as ISO strings)
+ */
+export interface TaskFields {
+  title: string
+  description?: string
+  priority?: number
+  dateCreated?: string
+  startDate?: string
+  endDate?: string
+  status?: string
+  subTaskUrls?: string[]
+  parentTaskUrl?: string
+  dependsOnUrls?: string[]
+  recurrenceRule?: string
+  estimatedEffort?: number
+  completedDate?: string
+  rolloverCount?: number
+  tombstoneReason?: string
+  tombstonedDate?: string
+}
+
+export type TaskField = keyof TaskFields
+
+export const TASK_FIELDS: TaskField[] = [
+  'title',
+  'description',
+  'priority',
+  'dateCreated',
+  'startDate',
+  'endDate',
+  'status',
+  'subTaskUrls',
+  'parentTaskUrl',
+  'dependsOnUrls',
+  'recurrenceRule',
+  'estimatedEffort',
+  'completedDate',
+  'rolloverCount',
+  'tombstoneReason',
+  'tombstonedDate',
+]
+
+/**
+ * The remote version of a task whose fields conflict, awaiting resolution
+ * A task deleted remotely but edited locally since is a conflict as well:
+ * its remote version is then the one last synced, and its fields the ones
+ * edited locally.
+ */
+export interface TaskConflict {
+  remote: TaskFields
+  fields: TaskField[]
+  deleted?: boolean // Deleted remotely
+  deletedAt?: string // ISO string, when known from the remote tombstone
+}
+
+export interface MergeResult {
+  merged: TaskFields
+  conflicts: TaskField[] // Fields changed on both sides, to different values
+}
+
+/**
+ * Copy the synced fields out of a stored task record
+ */
+export function pickTaskFields(record: TaskFields): TaskFields {
+  const fields: TaskFields = { title: record.title }
+  for (const field of TASK_FIELDS) {
+    Object.assign(fields, { [field]: record[field] })
+  }
+  return fields
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+/**
+ * Compare two field values; missing values and empty lists are the same
+ */
+export function isSameFieldValue(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b)
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => item === b[i])
+  }
+  return a === b
+}
+
+/**
+ * Get the fields whose values differ between two records
+ */
+export function getChangedFields(
+  from: Partial<TaskFields>,
+  to: Partial<TaskFields>,
+): TaskField[] {
+  return TASK_FIELDS.filter(field => !isSameFieldValue(from[field], to[field]))
+}
+
+/**
+ * Merge the local and remote versions of a task against their common base
+ * Conflicting fields are settled by `resolve`. Without a base (a task never
+ * synced on this device), every differing field is a conflict.
+ */
+export function mergeTaskFields(
+  base: TaskFields | undefined,
+  local: TaskFields,
+  remote: TaskFields,
+  resolve: (field: TaskField) => 'local' | 'remote',
+): MergeResult {
+  const merged = pickTaskFields(local)
+  const conflicts: TaskField[] = []
+
+  for (const field of getChangedFields(local, remote)) {
+    const localChanged = !base || !isSameFieldValue(base[field], local[field])
+    const remoteChanged = !base || !isSameFieldValue(base[field], remote[field])
+
+    let side: 'local' | 'remote' = localChanged ? 'local' : 'remote'
+    if (localChanged && remoteChanged) {
+      conflicts.push(field)
+      side = resolve(field)
+    }
+    if (side === 'remote') {
+      Object.assign(merged, { [field]: remote[field] })
+    }
+  }
+
+  return { merged, conflicts }
+}
@@ -0,0 +1,82 @@
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Offline outbox of task operations
+ *
+ * Every local change is logged as an operation, kept in IndexedDB until it
+ * has been applied to the Pod. Operations are replayed in the order they were
+ * made; one that fails is retried with an increasing delay, and holds back
+ * the later operations on the same task so they stay in order. Each
+ * operation has an id, recorded once it is applied: an operation applied just
+ * before the app stopped is not applied again.
+ */
+
+export type SyncOperationType = 'create' | 'update' | 'delete' | 'move'
+
+export interface SyncOperation {
+  seq?: number // Log position, assigned when the operation is stored
+  id: string // Idempotency key
+  type: SyncOperationType
+  url: string // Task URL (temp: for tasks not created remotely yet)
+  createdAt: string // ISO string
+  attempts: number
+  nextAttemptAt?: string // ISO string; not retried before then
+  lastError?: string
+}
+
+const RETRY_BASE_DELAY = 5000 // 5 seconds
+const RETRY_MAX_DELAY = 15 * 60 * 1000 // 15 minutes
+
+/**
+ * Create an operation to be added to the outbox
+ */
+export function createOperation(
+  type: SyncOperationType,
+  url: string,
+  now: Date = new Date(),
+): SyncOperation {
+  return {
+    id: uuidv4(),
+    type,
+    url,
+    createdAt: now.toISOString(),
+    attempts: 0,
+  }
+}
+
+/**
+ * Delay before retrying an operation that failed `attempts` times
+ * Doubles with every attempt, up to 15 minutes.
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY * 2 ** Math.max(attempts - 1, 0),
+    RETRY_MAX_DELAY,
+  )
+}
+
+/**
+ * Whether an operation can be attempted now
+ */
+export function isDue(operation: SyncOperation, now: Date = new Date()) {
+  return !operation.nextAttemptAt || new Date(operation.nextAttemptAt) <= now
+}
+
+/**
+ * Record a failed attempt, scheduling the next one
+ */
+export function recordFailure(
+  operation: SyncOperation,
+  error: unknown,
+  now: Date = new Date(),
+): SyncOperation {
+  const attempts = operation.attempts + 1
+  return {
+    ...operation,
+    attempts,
+    nextAttemptAt: new Date(
+      now.getTime() + getRetryDelay(attempts),
+    ).toISOString(),
+    lastError: error instanceof Error ? error.message : String(error),
+  }
+}
@@ -1,7 +1,31 @@
 import type { SolidTaskService } from '../soukai/soukai-storage'
-import { IndexedDBTaskStorage } from '../local/indexeddb-storage'
+import type {
+  ChangeHandlers,
+  ChangeSubscription,
+} from '../soukai/notifications'
+import { isPreconditionFailed } from '../soukai/conditional-fetch'
+import {
+  IndexedDBTaskStorage,
+  type StoredTask,
+} from '../local/indexeddb-storage'
 import Task from '../soukai/Task.model'
 import { TaskClass, Status } from '@/models/TaskClass'
+import { formatRRule, parseRRule } from '@/models/recurrence'
+import {
+  getChangedFields,
+  mergeTaskFields,
+  pickTaskFields,
+  type TaskField,
+  type TaskFields,
+} from './merge'
+import {
+  createOperation,
+  isDue,
+  recordFailure,
+  type SyncOperation,
+  type SyncOperationType,
+} from './outbox'
+import { getTabCoordinator, type TabCoordinator, type TabMessage } from './tabs'
 
 /**
  * Interface for remote task service (duck typing for flexibility)
@@ -9,7 +33,32 @@ import { TaskClass, Status } from '@/models/TaskClass'
 interface RemoteTaskService {
   getTaskContainerUrl(): string
   fetchTasks(): Promise<Task[]>
+  fetchTask(taskUrl: string): Promise<Task | null>
+  fetchDeletions(): Promise<RemoteDeletion[]>
   deleteTask(taskUrl: string): Promise<void>
+  subscribeToChanges(
+    handlers: ChangeHandlers,
+  ): Promise<ChangeSubscription | null>
+  publishCalendarFeed?(content: string): Promise<void>
+}
+
+/**
+ * Builds a feed of the local tasks, published in the Pod after they are
+ * synced (e.g. a calendar of their deadlines, see `setFeedBuilder`)
+ */
+export interface FeedBuilder {
+  build(tasks: TaskClass[]): string
+  // The feed without what changes each time it is built (e.g. timestamps),
+  // to tell whether it changed since it was last published
+  withoutTimestamps(feed: string): string
+}
+
+/**
+ * A task deleted remotely, as recorded by its tombstone
+ */
+export interface RemoteDeletion {
+  url: string
+  deletedAt?: Date
 }
 
 /**
@@ -19,12 +68,40 @@ export type SyncStatus = 'idle' | 'syncing' | 'error' | 'offline'
 
 /**
  * Sync conflict resolution strategy
+ * Applies to the fields of a task changed both locally and remotely since the
+ * last sync. With 'manual', the task is flagged and left for the user to
+ * resolve (see `getConflicts`).
  */
 export type ConflictResolution =
+  | 'manual'
   | 'local-wins'
   | 'remote-wins'
   | 'last-write-wins'
 
+/**
+ * A task with conflicting local and remote changes
+ */
+export interface SyncConflict {
+  url: string
+  local: TaskFields
+  remote: TaskFields
+  fields: TaskField[] // The conflicting fields
+  deleted?: boolean // Deleted remotely after being edited locally
+  deletedAt?: string
+}
+
+const PULL_DELAY = 500 // Wait for changes notified together, to pull them at once
+const TAB_CHANGE_DELAY = 100 // Wait for changes made together in another tab
+
+/**
+ * Remote state shared by the operations replayed in one sync
+ */
+interface ReplayContext {
+  remoteTaskMap: Map<string, Task>
+  deletions: Map<string, RemoteDeletion> // By task URL
+  urlMapping: Map<string, string> // temp: URL -> created task URL
+}
+
 /**
  * Redesigned sync service using proper three-way merge
  * Handles multi-device scenarios with tombstones and uniform conflict resolution
@@ -34,17 +111,49 @@ export class SyncService {
   private lastError: Error | null = null
   private syncInterval: number | null = null
   private listeners: Set<(status: SyncStatus) => void> = new Set()
+  private pendingListeners: Set<(count: number) => void> = new Set()
+  private urlListeners: Set<(urls: Map<string, string>) => void> = new Set()
+  private remoteChangeListeners: Set<(urls?: string[]) => void> = new Set()
+  private conflictResolution: ConflictResolution = 'manual'
+  private subscription: ChangeSubscription | null = null
+  private autoSyncRun = 0 // Increased when auto-sync stops
+  private changedUrls: Set<string> = new Set() // Notified, not pulled yet
+  private pullTimeout: number | null = null
+  private autoSyncInterval: number | null = null // Auto-sync requested
+  private tabChangeTimeout: number | null = null
+  private tabChangedUrls: Set<string> | null = new Set() // null for any task
+  private feedBuilder: FeedBuilder | null = null
+  private publishedFeed: string | null = null // Without its timestamps
 
   constructor(
     private localStore: IndexedDBTaskStorage,
     private remoteService: RemoteTaskService | null,
-  ) {}
+    private tabs: TabCoordinator | null = null,
+  ) {
+    tabs?.onMessage(message => this.handleTabMessage(message))
+    tabs?.onLeadership(() => this.takeOverSync())
+  }
 
   /**
    * Set remote service (after authentication)
    */
   setRemoteService(service: RemoteTaskService | SolidTaskService | null) {
     this.remoteService = service
+    this.publishedFeed = null
+  }
+
+  /**
+   * Set how the feed published after syncing is built (none if null)
+   */
+  setFeedBuilder(builder: FeedBuilder | null) {
+    this.feedBuilder = builder
+  }
+
+  /**
+   * Set how fields changed on both sides are resolved
+   */
+  setConflictResolution(strategy: ConflictResolution) {
+    this.conflictResolution = strategy
   }
 
   /**
@@ -69,21 +178,116 @@ export class SyncService {
     return () => this.listeners.delete(callback)
   }
 
+  /**
+   * Subscribe to the number of operations waiting to be synced
+   */
+  onPendingOperationsChange(callback: (count: number) => void) {
+    this.pendingListeners.add(callback)
+    this.notifyPendingOperations()
+    return () => this.pendingListeners.delete(callback)
+  }
+
+  /**
+   * Subscribe to new tasks moving to the URLs they were created at remotely
+   * Called with the temp: URL and the new URL of each task; their ids stay
+   * the same.
+   */
+  onTaskUrlsChange(callback: (urls: Map<string, string>) => void) {
+    this.urlListeners.add(callback)
+    return () => this.urlListeners.delete(callback)
+  }
+
+  /**
+   * Subscribe to remote changes being pulled into local storage, or to
+   * changes saved in another tab
+   * Called with the URLs of the tasks changed when only those did.
+   */
+  onRemoteChange(callback: (urls?: string[]) => void) {
+    this.remoteChangeListeners.add(callback)
+    return () => this.remoteChangeListeners.delete(callback)
+  }
+
   /**
    * Update sync status and notify listeners
    */
   private updateStatus(status: SyncStatus) {
     this.syncStatus = status
     this.listeners.forEach(listener => listener(status))
+    if (this.tabs?.isLeader) this.tabs.broadcast({ type: 'status', status })
+  }
+
+  /**
+   * Whether this tab is the one syncing (see TabCoordinator)
+   */
+  private isSyncingTab(): boolean {
+    return !this.tabs || this.tabs.isLeader
   }
 
   /**
-   * Save task locally (optimistic update)
+   * Act on a message from another tab
+   */
+  private handleTabMessage(message: TabMessage) {
+    switch (message.type) {
+      case 'changed':
+        if (message.urls && this.tabChangedUrls) {
+          message.urls.forEach(url => this.tabChangedUrls!.add(url))
+        } else {
+          this.tabChangedUrls = null
+        }
+        // Tasks are often saved a few at a time, so reload once for them all
+        this.tabChangeTimeout ??= window.setTimeout(() => {
+          const urls = this.tabChangedUrls
+          this.tabChangeTimeout = null
+          this.tabChangedUrls = new Set()
+          this.remoteChangeListeners.forEach(listener =>
+            listener(urls ? [...urls] : undefined),
+          )
+          this.notifyPendingOperations()
+        }, TAB_CHANGE_DELAY)
+        break
+      case 'sync-requested':
+        if (this.isSyncingTab()) {
+          this.sync().catch(err => {
+            console.error('Sync requested by another tab failed:', err)
+          })
+        }
+        break
+      case 'status':
+        if (!this.isSyncingTab()) this.updateStatus(message.status)
+        break
+    }
+  }
+
+  /**
+   * Start syncing once this tab leads (e.g. the tab syncing was closed)
+   */
+  private takeOverSync() {
+    if (this.autoSyncInterval === null) return
+    this.startAutoSync(this.autoSyncInterval)
+    this.sync().catch(err => {
+      console.error('Sync after taking over from another tab failed:', err)
+    })
+  }
+
+  /**
+   * Tell the other tabs that tasks changed in local storage
+   * Without URLs, any of them may have (e.g. after pulling remote changes).
+   */
+  private broadcastChange(urls?: string[]) {
+    this.tabs?.broadcast(urls ? { type: 'changed', urls } : { type: 'changed' })
+  }
+
+  /**
+   * Save task locally (optimistic update), and log it in the outbox
    * Converts reactive proxy values to plain values for IndexedDB
    */
   async saveLocal(task: TaskClass): Promise<void> {
+    const url = await this.getLocalUrl(task)
+    const existing = await this.localStore.getTask(url)
+    const parentTaskUrl = task.parentId && this.toTaskReference(task.parentId)
+
     await this.localStore.saveTask({
-      url: task.fullId || `temp:${task.id}`,
+      url,
       title: task.name,
       description: task.description,
       dateCreated: task.addedDate,
@@ -91,9 +295,70 @@ export class SyncService {
       endDate: task.endDate,
       status: task.status,
       // Convert array to plain array to avoid proxy cloning issues
-      subTaskUrls: task.childIds.length > 0 ? [...task.childIds] : undefined,
-      parentTaskUrl: task.parentId,
+      subTaskUrls:
+        task.childIds.length > 0
+          ? task.childIds.map(id => this.toTaskReference(id))
+          : undefined,
+      parentTaskUrl,
+      dependsOnUrls:
+        task.dependsOn.length > 0
+          ? task.dependsOn.map(id => this.toTaskReference(id))
+          : undefined,
+      recurrenceRule: task.recurrence
+        ? formatRRule(task.recurrence)
+        : undefined,
+      estimatedEffort: task.estimatedEffort,
+      completedDate: task.completedDate,
+      rolloverCount: task.rolloverCount,
+      tombstoneReason: task.tombstoneReason,
+      tombstonedDate: task.tombstonedDate,
     })
+
+    let type: SyncOperationType = 'update'
+    if (!existing) {
+      type = 'create'
+    } else if (existing.parentTaskUrl !== parentTaskUrl) {
+      type = 'move'
+    }
+    await this.queueOperation(type, url)
+    await this.notifyPendingOperations()
+    this.broadcastChange([url])
+  }
+
+  /**
+   * Get the URL a task is stored under locally
+   * A new task is stored under a temp: URL until it is created remotely. It
+   * then moves to the URL derived from its id, which is also where a task
+   * whose URL the caller has not caught up with yet is found.
+   */
+  private async getLocalUrl(task: TaskClass): Promise<string> {
+    const url = task.fullId || `temp:${task.id}`
+    if (!url.startsWith('temp:') || !this.remoteService) return url
+    if (await this.localStore.getTask(url)) return url
+
+    const remoteUrl = this.getRemoteUrl(url)
+    return (await this.localStore.getTask(remoteUrl)) ? remoteUrl : url
+  }
+
+  /**
+   * Get the URL a new task is created at remotely
+   * The URL is minted from the task id rather than by the Pod, so the id
+   * (and the subtasks and dependencies referring to it) stays the same once
+   * the task is created, and replaying its creation cannot duplicate it.
+   */
+  private getRemoteUrl(tempUrl: string): string {
+    return (
+      this.remoteService!.getTaskContainerUrl() + this.extractIdFromUrl(tempUrl)
+    )
+  }
+
+  /**
+   * Refer to a task by id rather than by temp: URL
+   * The id resolves against the task container to the URL the task gets
+   * once created remotely.
+   */
+  private toTaskReference(ref: string): string {
+    return ref.startsWith('temp:') ? this.extractIdFromUrl(ref) : ref
   }
 
   /**
@@ -101,33 +366,67 @@ export class SyncService {
    */
   async loadLocal(): Promise<TaskClass[]> {
     const localTasks = await this.localStore.getAllTasks()
+    return localTasks.map(task => this.toTaskClass(task))
+  }
 
-    return localTasks.map(task => {
-      const taskClass = new TaskClass({
-        id: this.extractIdFromUrl(task.url),
-        name: task.title,
-        description: task.description,
-        addedDate: task.dateCreated ? new Date(task.dateCreated) : new Date(),
-        startDate: task.startDate ? new Date(task.startDate) : undefined,
-        endDate: task.endDate ? new Date(task.endDate) : undefined,
-        status: task.status as Status | undefined,
-      })
-      taskClass.fullId = task.url
-      if (task.subTaskUrls && task.subTaskUrls.length > 0) {
-        // Ensure plain array
-        taskClass.childIds = [...task.subTaskUrls]
-      }
-      if (task.parentTaskUrl) {
-        taskClass.parentId = task.parentTaskUrl
-      }
-      return taskClass
+  /**
+   * Load the tasks stored locally under these URLs
+   * URLs without a task (e.g. deleted) are left out.
+   */
+  async loadLocalTasks(urls: string[]): Promise<TaskClass[]> {
+    const tasks: TaskClass[] = []
+    for (const url of urls) {
+      const task = await this.localStore.getTask(url)
+      if (task) tasks.push(this.toTaskClass(task))
+    }
+    return tasks
+  }
+
+  /**
+   * Turn a task from local storage into a TaskClass
+   */
+  private toTaskClass(task: StoredTask): TaskClass {
+    const taskClass = new TaskClass({
+      id: this.extractIdFromUrl(task.url),
+      name: task.title,
+      description: task.description,
+      addedDate: task.dateCreated ? new Date(task.dateCreated) : new Date(),
+      startDate: task.startDate ? new Date(task.startDate) : undefined,
+      endDate: task.endDate ? new Date(task.endDate) : undefined,
+      status: task.status as Status | undefined,
+      recurrence: task.recurrenceRule
+        ? parseRRule(task.recurrenceRule)
+        : undefined,
+      estimatedEffort: task.estimatedEffort,
+      completedDate: task.completedDate
+        ? new Date(task.completedDate)
+        : undefined,
+      rolloverCount: task.rolloverCount,
+      tombstoneReason: task.tombstoneReason,
+      tombstonedDate: task.tombstonedDate
+        ? new Date(task.tombstonedDate)
+        : undefined,
     })
+    taskClass.fullId = task.url
+    if (task.subTaskUrls && task.subTaskUrls.length > 0) {
+      // Ensure plain array
+      taskClass.childIds = [...task.subTaskUrls]
+    }
+    if (task.parentTaskUrl) {
+      taskClass.parentId = task.parentTaskUrl
+    }
+    if (task.dependsOnUrls && task.dependsOnUrls.length > 0) {
+      taskClass.dependsOn = [...task.dependsOnUrls]
+    }
+    return taskClass
   }
 
   /**
    * Sync tasks between local and remote storage
+   * Replays the outbox of local changes, then pulls remote changes
    * Uses three-way merge: local, remote, and sync status
    * Properly handles deletions and multi-device conflicts
+   * In a tab other than the syncing one, asks that tab to sync instead.
    */
   async sync(): Promise<void> {
     if (!this.remoteService) {
@@ -135,6 +434,11 @@ export class SyncService {
       return
     }
 
+    if (!this.isSyncingTab()) {
+      this.tabs!.broadcast({ type: 'sync-requested' })
+      return
+    }
+
     if (this.syncStatus === 'syncing') {
       console.log('Sync already in progress')
       return
@@ -152,48 +456,25 @@ export class SyncService {
       const localTasks = await this.localStore.getAllTasks()
       const localTaskMap = new Map(localTasks.map(t => [t.url, t]))
 
+      // Tasks deleted remotely, as recorded by their tombstones
+      const deletions = await this.fetchDeletions()
+
       // Track URL changes for temp: tasks
       const urlMapping = new Map<string, string>()
+      let pulled = false // Whether remote changes were saved locally
 
-      // PHASE 1: Process local tasks (push to remote)
-      for (const localTask of localTasks) {
-        const isNewTask = localTask.url.startsWith('temp:')
-        const remoteTask = remoteTaskMap.get(localTask.url)
-
-        if (isNewTask) {
-          // New local task: create in remote
-          const newRemoteTask = await this.createRemoteTask(localTask)
-          urlMapping.set(localTask.url, newRemoteTask.url!)
-        } else if (remoteTask) {
-          // Task exists in both: merge if local has changes
-          if (localTask.syncStatus === 'pending') {
-            await this.mergeAndUpdate(localTask, remoteTask)
-          }
-        } else {
-          // Task exists locally but not remotely
-          // This means it was deleted on another device
-          if (localTask.syncStatus === 'synced') {
-            // Was synced before, now gone - respect the deletion
-            console.log(
-              `Task ${localTask.url} deleted remotely, removing locally`,
-            )
-            await this.localStore.deleteTask(localTask.url)
-          }
-          // If syncStatus is 'pending', it means local modifications since last sync
-          // In this case, we could either:
-          // - Recreate it remotely (local wins)
-          // - Delete it locally (remote wins)
-          // For now, we'll delete it locally to respect remote deletion
-          console.log(
-            `Task ${localTask.url} had pending changes but was deleted remotely, removing locally`,
-          )
-          await this.localStore.deleteTask(localTask.url)
-        }
-      }
+      // PHASE 1: Replay the outbox (push to remote), in order
+      await this.queueUnloggedChanges()
+      await this.replayOperations(await this.localStore.getOperations(), {
+        remoteTaskMap,
+        deletions,
+        urlMapping,
+      })
 
       // PHASE 2: Update URLs for new tasks
+      // (re-read, as they may have been edited while being created)
       for (const [oldUrl, newUrl] of urlMapping) {
-        const localTask = localTasks.find(t => t.url === oldUrl)
+        const localTask = await this.localStore.getTask(oldUrl)
         if (localTask) {
           await this.localStore.deleteTask(oldUrl)
           // saveTask now handles both Date objects and ISO strings
@@ -201,6 +482,21 @@ export class SyncService {
           await this.localStore.markAsSynced(newUrl)
         }
       }
+      await this.rewriteTempReferences()
+      if (urlMapping.size > 0) {
+        this.urlListeners.forEach(listener => listener(urlMapping))
+        this.broadcastChange([...urlMapping.keys(), ...urlMapping.values()])
+      }
+
+      // Tasks deleted on another device are removed locally as well. Those
+      // only missing from the remote tasks are kept, as that is also what a
+      // container that failed to be read looks like.
+      const missingTasks = localTasks.filter(
+        task => !remoteTaskMap.has(task.url), // Unless created again since
+      )
+      if (await this.applyRemoteDeletions(missingTasks, deletions)) {
+        pulled = true
+      }
 
       // PHASE 3: Process remote tasks (pull to local)
       for (const remoteTask of remoteTasks) {
@@ -217,6 +513,7 @@ export class SyncService {
         if (!localTask) {
           // New remote task: add to local
           await this.syncRemoteToLocal(remoteTask)
+          pulled = true
         } else if (localTask.syncStatus === 'synced') {
           // Both synced: check if remote is newer
           const localTime = new Date(localTask.lastModified).getTime()
@@ -228,111 +525,582 @@ export class SyncService {
           if (remoteTime > localTime) {
             // Remote is newer: update local
             await this.syncRemoteToLocal(remoteTask)
+            pulled = true
           }
         }
         // If localTask.syncStatus === 'pending', we already handled it in phase 1
       }
 
       // PHASE 4: Mark all remaining local tasks as synced
+      // (conflicts stay flagged until they are resolved, and tasks with
+      // operations left in the outbox until they are retried)
+      const queuedUrls = new Set(
+        (await this.localStore.getOperations()).map(op => op.url),
+      )
       const finalLocalTasks = await this.localStore.getAllTasks()
       for (const task of finalLocalTasks) {
-        if (!task.url.startsWith('temp:')) {
+        if (
+          !task.url.startsWith('temp:') &&
+          task.syncStatus !== 'conflict' &&
+          !queuedUrls.has(task.url)
+        ) {
           await this.localStore.markAsSynced(task.url)
         }
       }
 
       await this.localStore.setLastSyncTime(new Date())
       this.updateStatus('idle')
+      if (pulled) this.notifyRemoteChange()
+      await this.followTasks()
+      await this.publishCalendarFeed()
+    } catch (err) {
+      this.lastError = err instanceof Error ? err : new Error(String(err))
+      this.updateStatus('error')
+      throw err
+    } finally {
+      await this.notifyPendingOperations()
+    }
+  }
+
+  /**
+   * Pull the remote changes to some resources, as notified by the Pod
+   * Only the tasks in them are fetched. Changes that need more than that
+   * (to the container itself, or to tasks also changed locally) are pulled
+   * with a full sync instead.
+   */
+  async pullChanges(urls: string[]): Promise<void> {
+    if (!this.remoteService) return
+
+    const containerUrl = this.remoteService.getTaskContainerUrl()
+    const localTasks = await this.localStore.getAllTasks()
+    // Tasks may be stored in a document of their own (e.g. `<url>#it`)
+    const tasksIn = (url: string) =>
+      localTasks.filter(task => task.url.split('#')[0] === url)
+
+    if (
+      urls.some(
+        url =>
+          url === containerUrl ||
+          tasksIn(url).some(task => task.syncStatus !== 'synced'),
+      )
+    ) {
+      return this.sync()
+    }
+
+    this.updateStatus('syncing')
+    let pulled = false
+    let unknownResource = false
+    const missing: StoredTask[] = [] // Not found remotely
+    try {
+      for (const url of urls) {
+        const taskUrls = tasksIn(url).map(task => task.url)
+        for (const taskUrl of taskUrls.length > 0 ? taskUrls : [url]) {
+          const localTask = localTasks.find(task => task.url === taskUrl)
+          const remoteTask = await this.remoteService.fetchTask(taskUrl)
+
+          if (remoteTask) {
+            const remote = this.toTaskFields(remoteTask)
+            if (!localTask || getChangedFields(localTask, remote).length > 0) {
+              await this.syncRemoteToLocal(remoteTask)
+              pulled = true
+            }
+          } else if (localTask) {
+            missing.push(localTask)
+          } else {
+            // Not a task itself (e.g. the document of a new one)
+            unknownResource = true
+          }
+        }
+      }
+      // Deleted remotely only if they left a tombstone, as in a full sync
+      if (
+        missing.length > 0 &&
+        (await this.applyRemoteDeletions(missing, await this.fetchDeletions()))
+      ) {
+        pulled = true
+      }
+      this.updateStatus('idle')
     } catch (err) {
       this.lastError = err instanceof Error ? err : new Error(String(err))
       this.updateStatus('error')
       throw err
     }
+
+    if (pulled) this.notifyRemoteChange()
+    if (unknownResource) {
+      await this.sync()
+    } else if (pulled) {
+      await this.followTasks()
+      await this.publishCalendarFeed()
+    }
+  }
+
+  /**
+   * Fetch the tombstones of the tasks deleted remotely, by task URL
+   */
+  private async fetchDeletions(): Promise<Map<string, RemoteDeletion>> {
+    return new Map(
+      (await this.remoteService!.fetchDeletions()).map(deletion => [
+        deletion.url,
+        deletion,
+      ]),
+    )
+  }
+
+  /**
+   * Remove the local tasks that left a tombstone remotely, as they were
+   * deleted on another device, along with their operations
+   * Tasks edited here after being deleted are flagged as a conflict instead,
+   * so the edits are not lost. Returns whether any task changed locally.
+   */
+  private async applyRemoteDeletions(
+    localTasks: StoredTask[],
+    deletions: Map<string, RemoteDeletion>,
+  ): Promise<boolean> {
+    let changed = false
+    for (const localTask of localTasks) {
+      const deletion = deletions.get(localTask.url)
+      if (!deletion || localTask.conflict?.deleted) continue
+
+      for (const operation of await this.localStore.getOperationsForUrl(
+        localTask.url,
+      )) {
+        await this.localStore.deleteOperation(operation.seq!)
+      }
+
+      const { deletedAt } = deletion
+      if (this.isEditedAfterDeletion(localTask, deletedAt)) {
+        console.log(`Task ${localTask.url} deleted remotely, but edited since`)
+        await this.localStore.markAsConflict(localTask.url, {
+          remote: localTask.base ?? pickTaskFields(localTask),
+          fields: localTask.base
+            ? getChangedFields(localTask.base, localTask)
+            : [],
+          deleted: true,
+          deletedAt: deletedAt?.toISOString(),
+        })
+      } else {
+        console.log(`Task ${localTask.url} deleted remotely, removing locally`)
+        await this.localStore.deleteTask(localTask.url)
+      }
+      changed = true
+    }
+    return changed
   }
 
   /**
-   * Create a new task in remote storage
+   * Publish the feed of the tasks in the Pod (see `setFeedBuilder`), if it
+   * changed since it was last published
+   * A feed that fails to be published is logged, and published again after
+   * the next sync.
    */
-  private async createRemoteTask(localTask: {
-    url: string
-    title: string
-    description?: string
-    priority?: number
-    dateCreated?: string
-    startDate?: string
-    endDate?: string
-    status?: string
-    subTaskUrls?: string[]
-    parentTaskUrl?: string
-    lastModified: string
-  }): Promise<Task> {
+  private async publishCalendarFeed() {
+    if (!this.remoteService?.publishCalendarFeed || !this.feedBuilder) return
+
+    try {
+      const feed = this.feedBuilder.build(await this.loadLocal())
+      const content = this.feedBuilder.withoutTimestamps(feed)
+      if (content === this.publishedFeed) return
+
+      await this.remoteService.publishCalendarFeed(feed)
+      this.publishedFeed = content
+    } catch (err) {
+      console.error('Failed to publish the calendar feed:', err)
+    }
+  }
+
+  /**
+   * Pull a resource changed remotely, with the others changed about the
+   * same time
+   */
+  private queuePull(url: string) {
+    this.changedUrls.add(url)
+    this.pullTimeout ??= window.setTimeout(this.pullQueued, PULL_DELAY)
+  }
+
+  /**
+   * Pull the resources notified as changed, once no sync is running
+   */
+  private pullQueued = () => {
+    this.pullTimeout = null
+    if (this.syncStatus === 'syncing') {
+      this.pullTimeout = window.setTimeout(this.pullQueued, PULL_DELAY)
+      return
+    }
+
+    const urls = [...this.changedUrls]
+    this.changedUrls.clear()
+    this.pullChanges(urls).catch(err => {
+      console.error('Pulling remote changes failed:', err)
+    })
+  }
+
+  /**
+   * Tell listeners that remote changes were saved locally
+   */
+  private notifyRemoteChange() {
+    this.remoteChangeListeners.forEach(listener => listener())
+    this.broadcastChange()
+  }
+
+  /**
+   * Whether a task deleted remotely has local changes made after that
+   * If the tombstone does not tell when it was deleted, any local change
+   * counts.
+   */
+  private isEditedAfterDeletion(
+    localTask: StoredTask,
+    deletedAt: Date | undefined,
+  ): boolean {
+    if (localTask.syncStatus === 'synced') return false
+    return !deletedAt || new Date(localTask.lastModified) > deletedAt
+  }
+
+  /**
+   * Add a local change to the outbox
+   * A change to a task that already has a create or update queued is left
+   * out, as replaying that one pushes the task as it is by then. Deleting a
+   * task that was never created remotely just drops its operations.
+   */
+  private async queueOperation(type: SyncOperationType, url: string) {
+    const queued = await this.localStore.getOperationsForUrl(url)
+
+    if (type === 'delete') {
+      for (const operation of queued) {
+        await this.localStore.deleteOperation(operation.seq!)
+      }
+      if (url.startsWith('temp:')) return
+    } else if (queued.some(operation => operation.type !== 'delete')) {
+      return
+    }
+
+    await this.localStore.addOperation(createOperation(type, url))
+  }
+
+  /**
+   * Queue the pending local tasks missing from the outbox
+   * (e.g. saved before the outbox existed)
+   */
+  private async queueUnloggedChanges() {
+    const queuedUrls = new Set(
+      (await this.localStore.getOperations()).map(op => op.url),
+    )
+    for (const task of await this.localStore.getPendingTasks()) {
+      if (!queuedUrls.has(task.url)) {
+        await this.queueOperation(
+          task.url.startsWith('temp:') ? 'create' : 'update',
+          task.url,
+        )
+      }
+    }
+  }
+
+  /**
+   * Apply operations to remote storage, in order
+   * A failed operation is scheduled for a retry, and holds back the later
+   * operations on the same task. Operations already applied (e.g. just
+   * before the app stopped) are removed without applying them again.
+   */
+  private async replayOperations(
+    operations: SyncOperation[],
+    context: ReplayContext,
+  ): Promise<void> {
+    const now = new Date()
+    const blockedUrls = new Set<string>()
+    const appliedIds = new Set(await this.localStore.getAppliedOperationIds())
+
+    for (const operation of operations) {
+      if (appliedIds.has(operation.id)) {
+        await this.localStore.completeOperation(operation)
+        continue
+      }
+      if (blockedUrls.has(operation.url) || !isDue(operation, now)) {
+        blockedUrls.add(operation.url)
+        continue
+      }
+
+      try {
+        await this.applyOperation(operation, context)
+        await this.localStore.markOperationApplied(operation.id)
+        await this.localStore.completeOperation(operation)
+      } catch (err) {
+        console.error(
+          `Failed to sync ${operation.type} of ${operation.url}:`,
+          err,
+        )
+        blockedUrls.add(operation.url)
+        await this.localStore.updateOperation(
+          recordFailure(operation, err, now),
+        )
+      }
+    }
+  }
+
+  /**
+   * Apply one operation to remote storage
+   * Safe to repeat: deleting a deleted task does nothing, updates push the
+   * current local state, and a task is created at a URL known in advance.
+   */
+  private async applyOperation(
+    operation: SyncOperation,
+    { remoteTaskMap, deletions, urlMapping }: ReplayContext,
+  ): Promise<void> {
+    if (operation.type === 'delete') {
+      await this.remoteService!.deleteTask(operation.url)
+      return
+    }
+
+    const localTask = await this.localStore.getTask(operation.url)
+    if (!localTask) return // Deleted locally since
+
+    if (operation.url.startsWith('temp:')) {
+      // New local task: create in remote, unless an earlier attempt did.
+      // Creating it again is refused if that attempt is not listed in the
+      // container yet; the task created then is brought up to date instead.
+      const remoteUrl = this.getRemoteUrl(operation.url)
+      if (!remoteTaskMap.has(remoteUrl)) {
+        try {
+          await this.createRemoteTask(localTask)
+        } catch (err) {
+          if (!isPreconditionFailed(err)) throw err
+          const created = await this.remoteService!.fetchTask(remoteUrl)
+          if (created) {
+            this.applyToRemote(created, localTask)
+            await created.save()
+          }
+        }
+      }
+      urlMapping.set(operation.url, remoteUrl)
+      return
+    }
+
+    // Missing remotely: deleted on another device if it left a tombstone
+    // (settled with the other remote deletions), otherwise created again so
+    // the local changes are not lost
+    const remoteTask = remoteTaskMap.get(operation.url)
+    if (!remoteTask) {
+      if (!deletions.has(operation.url)) {
+        await this.createRemoteTaskAgain(localTask, remoteTaskMap)
+      }
+      return
+    }
+
+    // Task exists in both: merge if local has changes
+    if (localTask.syncStatus === 'pending') {
+      try {
+        await this.mergeAndUpdate(localTask, remoteTask)
+      } catch (err) {
+        if (!isPreconditionFailed(err)) throw err
+        await this.mergeWithLatest(operation.url, remoteTaskMap)
+      }
+    }
+  }
+
+  /**
+   * Merge again with the latest remote version of a task, after writing it
+   * was refused because it changed remotely since it was fetched
+   * (if it was deleted, that is handled with the other remote deletions)
+   */
+  private async mergeWithLatest(
+    url: string,
+    remoteTaskMap: Map<string, Task>,
+  ): Promise<void> {
+    console.log(`Task ${url} changed remotely while syncing, merging again`)
+    const latest = await this.remoteService!.fetchTask(url)
+    const localTask = await this.localStore.getTask(url)
+
+    if (!latest) {
+      remoteTaskMap.delete(url)
+    } else if (localTask) {
+      remoteTaskMap.set(url, latest)
+      await this.mergeAndUpdate(localTask, latest)
+    }
+  }
+
+  /**
+   * Tell listeners how many operations are waiting in the outbox
+   */
+  private async notifyPendingOperations() {
+    if (this.pendingListeners.size === 0) return
+    try {
+      const count = await this.localStore.countOperations()
+      this.pendingListeners.forEach(listener => listener(count))
+    } catch (err) {
+      console.error('Failed to count pending operations:', err)
+    }
+  }
+
+  /**
+   * Point the references to temp: URLs stored locally at the task ids
+   * (e.g. saved before tasks were referred to by id)
+   */
+  private async rewriteTempReferences() {
+    for (const task of await this.localStore.getAllTasks()) {
+      const references = [
+        ...(task.subTaskUrls ?? []),
+        task.parentTaskUrl,
+        ...(task.dependsOnUrls ?? []),
+      ]
+      if (!references.some(ref => ref?.startsWith('temp:'))) continue
+
+      await this.localStore.saveTask({
+        ...task,
+        subTaskUrls: task.subTaskUrls?.map(ref => this.toTaskReference(ref)),
+        parentTaskUrl:
+          task.parentTaskUrl && this.toTaskReference(task.parentTaskUrl),
+        dependsOnUrls: task.dependsOnUrls?.map(ref =>
+          this.toTaskReference(ref),
+        ),
+      })
+    }
+  }
+
+  /**
+   * Create a task missing remotely without a tombstone again, at its URL
+   * If it turns out to exist (e.g. the container listing was out of date),
+   * it is merged with instead.
+   */
+  private async createRemoteTaskAgain(
+    localTask: StoredTask,
+    remoteTaskMap: Map<string, Task>,
+  ): Promise<void> {
+    console.log(`Task ${localTask.url} missing remotely, creating it again`)
+    try {
+      remoteTaskMap.set(localTask.url, await this.createRemoteTask(localTask))
+    } catch (err) {
+      if (!isPreconditionFailed(err)) throw err
+      await this.mergeWithLatest(localTask.url, remoteTaskMap)
+    }
+  }
+
+  /**
+   * Create a new task in remote storage, at the URL derived from its id
+   * (or at its own URL, for a task created remotely before)
+   */
+  private async createRemoteTask(localTask: StoredTask): Promise<Task> {
     const newTask = new Task()
-    newTask.title = localTask.title
-    newTask.description = localTask.description
-    newTask.priority = localTask.priority
-    newTask.dateCreated = localTask.dateCreated
-      ? new Date(localTask.dateCreated)
-      : undefined
-    newTask.startDate = localTask.startDate
-      ? new Date(localTask.startDate)
-      : undefined
-    newTask.endDate = localTask.endDate
-      ? new Date(localTask.endDate)
-      : undefined
-    newTask.status = localTask.status
-    newTask.subTaskUrls = localTask.subTaskUrls
-    newTask.parentTaskUrl = localTask.parentTaskUrl
+    newTask.url = localTask.url.startsWith('temp:')
+      ? this.getRemoteUrl(localTask.url)
+      : localTask.url
+    this.applyToRemote(newTask, localTask)
 
     await newTask.save(this.remoteService!.getTaskContainerUrl())
     return newTask
   }
 
   /**
-   * Merge local and remote task, then update appropriately
-   * Uses last-write-wins based on timestamps
+   * Merge a locally changed task with its remote version, then update both
+   * Fields changed on one side only are taken from that side; fields changed
+   * on both are settled by the conflict resolution strategy. With manual
+   * resolution, the remote task is left as is and the local one is flagged.
    */
   private async mergeAndUpdate(
-    localTask: {
-      url: string
-      title: string
-      description?: string
-      priority?: number
-      dateCreated?: string
-      startDate?: string
-      endDate?: string
-      status?: string
-      subTaskUrls?: string[]
-      parentTaskUrl?: string
-      lastModified: string
-    },
+    localTask: StoredTask,
     remoteTask: Task,
   ): Promise<void> {
-    // Compare timestamps for last-write-wins
-    const localTime = new Date(localTask.lastModified).getTime()
+    const local = pickTaskFields(localTask)
+    const remote = this.toTaskFields(remoteTask)
     const remoteTime =
       remoteTask.updatedAt?.getTime() || remoteTask.createdAt?.getTime() || 0
 
-    if (localTime > remoteTime) {
-      // Local is newer: update remote
-      remoteTask.title = localTask.title
-      remoteTask.description = localTask.description
-      remoteTask.priority = localTask.priority
-      remoteTask.startDate = localTask.startDate
-        ? new Date(localTask.startDate)
-        : undefined
-      remoteTask.endDate = localTask.endDate
-        ? new Date(localTask.endDate)
-        : undefined
-      remoteTask.status = localTask.status
-      remoteTask.subTaskUrls = localTask.subTaskUrls
-      remoteTask.parentTaskUrl = localTask.parentTaskUrl
+    const { merged, conflicts } = mergeTaskFields(
+      localTask.base,
+      local,
+      remote,
+      field => this.pickConflictSide(field, localTask, remoteTime),
+    )
+
+    if (getChangedFields(local, merged).length > 0) {
+      await this.localStore.saveTask({ ...merged, url: localTask.url })
+    }
+    if (this.conflictResolution === 'manual' && conflicts.length > 0) {
+      await this.localStore.markAsConflict(localTask.url, {
+        remote,
+        fields: conflicts,
+      })
+    } else if (getChangedFields(remote, merged).length > 0) {
+      this.applyToRemote(remoteTask, merged)
       await remoteTask.save()
-    } else {
-      // Remote is newer or equal: update local
-      await this.syncRemoteToLocal(remoteTask)
     }
   }
 
+  /**
+   * Pick the side of a field changed both locally and remotely
+   * With last-write-wins, the local time is when that field was last edited.
+   */
+  private pickConflictSide(
+    field: TaskField,
+    localTask: StoredTask,
+    remoteTime: number,
+  ): 'local' | 'remote' {
+    switch (this.conflictResolution) {
+      case 'manual': // Kept until the user resolves the conflict
+      case 'local-wins':
+        return 'local'
+      case 'remote-wins':
+        return 'remote'
+      case 'last-write-wins': {
+        const localTime = new Date(
+          localTask.fieldModified?.[field] ?? localTask.lastModified,
+        ).getTime()
+        return localTime > remoteTime ? 'local' : 'remote'
+      }
+    }
+  }
+
+  /**
+   * Get the synced fields of a remote task, in their stored form
+   */
+  private toTaskFields(remoteTask: Task): TaskFields {
+    return {
+      title: remoteTask.title,
+      description: remoteTask.description,
+      priority: remoteTask.priority,
+      dateCreated: remoteTask.dateCreated?.toISOString(),
+      startDate: remoteTask.startDate?.toISOString(),
+      endDate: remoteTask.endDate?.toISOString(),
+      status: remoteTask.status,
+      subTaskUrls: remoteTask.subTaskUrls,
+      parentTaskUrl: remoteTask.parentTaskUrl,
+      dependsOnUrls: remoteTask.dependsOnUrls,
+      recurrenceRule: remoteTask.recurrenceRule,
+      estimatedEffort: remoteTask.estimatedEffort,
+      completedDate: remoteTask.completedDate?.toISOString(),
+      rolloverCount: remoteTask.rolloverCount,
+      tombstoneReason: remoteTask.tombstoneReason,
+      tombstonedDate: remoteTask.tombstonedDate?.toISOString(),
+    }
+  }
+
+  /**
+   * Copy stored task fields onto a remote task (without saving it)
+   */
+  private applyToRemote(remoteTask: Task, fields: TaskFields): void {
+    const toDate = (iso?: string) => (iso ? new Date(iso) : undefined)
+
+    remoteTask.title = fields.title
+    remoteTask.description = fields.description
+    remoteTask.priority = fields.priority
+    remoteTask.dateCreated = toDate(fields.dateCreated)
+    remoteTask.startDate = toDate(fields.startDate)
+    remoteTask.endDate = toDate(fields.endDate)
+    remoteTask.status = fields.status
+    remoteTask.subTaskUrls = fields.subTaskUrls?.map(ref =>
+      this.toTaskReference(ref),
+    )
+    remoteTask.parentTaskUrl =
+      fields.parentTaskUrl && this.toTaskReference(fields.parentTaskUrl)
+    remoteTask.dependsOnUrls = fields.dependsOnUrls?.map(ref =>
+      this.toTaskReference(ref),
+    )
+    remoteTask.recurrenceRule = fields.recurrenceRule
+    remoteTask.estimatedEffort = fields.estimatedEffort
+    remoteTask.completedDate = toDate(fields.completedDate)
+    remoteTask.rolloverCount = fields.rolloverCount
+    remoteTask.tombstoneReason = fields.tombstoneReason
+    remoteTask.tombstonedDate = toDate(fields.tombstonedDate)
+  }
+
   /**
    * Sync remote task to local storage
    * Used for both adding new tasks and updating existing ones
@@ -349,6 +1117,13 @@ export class SyncService {
       status,
       subTaskUrls,
       parentTaskUrl,
+      dependsOnUrls,
+      recurrenceRule,
+      estimatedEffort,
+      completedDate,
+      rolloverCount,
+      tombstoneReason,
+      tombstonedDate,
     } = remoteTask
     await this.localStore.saveTask({
       url: url!,
@@ -361,15 +1136,146 @@ export class SyncService {
       status,
       subTaskUrls,
       parentTaskUrl,
+      dependsOnUrls,
+      recurrenceRule,
+      estimatedEffort,
+      completedDate,
+      rolloverCount,
+      tombstoneReason,
+      tombstonedDate,
     })
     await this.localStore.markAsSynced(url!)
   }
 
   /**
-   * Start automatic syncing at regular intervals
+   * Get the tasks with conflicting changes, with both versions
+   */
+  async getConflicts(): Promise<SyncConflict[]> {
+    const tasks = await this.localStore.getConflictedTasks()
+    return tasks
+      .filter(task => task.conflict)
+      .map(task => ({
+        url: task.url,
+        local: pickTaskFields(task),
+        remote: task.conflict!.remote,
+        fields: task.conflict!.fields,
+        deleted: task.conflict!.deleted,
+        deletedAt: task.conflict!.deletedAt,
+      }))
+  }
+
+  /**
+   * Resolve a conflict with the fields chosen (or combined) by the user
+   * They are saved locally and pushed to remote on the next sync.
+   */
+  async resolveConflict(url: string, fields: TaskFields): Promise<void> {
+    await this.localStore.resolveConflict(url, fields)
+    this.broadcastChange([url])
+  }
+
+  /**
+   * Settle the conflict of a task deleted remotely after local edits
+   * Restoring it creates it again remotely, with the local edits and at the
+   * URL derived from its id; otherwise the deletion is applied locally.
+   */
+  async resolveDeletion(url: string, restore: boolean): Promise<void> {
+    const task = await this.localStore.getTask(url)
+    if (!task?.conflict?.deleted) return
+
+    await this.localStore.deleteTask(url)
+    const tempUrl = `temp:${this.extractIdFromUrl(url)}`
+    if (restore) {
+      await this.localStore.saveTask({ ...pickTaskFields(task), url: tempUrl })
+      await this.queueOperation('create', tempUrl)
+    }
+    await this.notifyPendingOperations()
+    this.broadcastChange(restore ? [url, tempUrl] : [url])
+  }
+
+  /**
+   * Start automatic syncing
+   * Changes made elsewhere are pulled as the Pod notifies them. Without
+   * notifications, or once they stop, tasks are synced at regular intervals
+   * instead. Only the syncing tab does this; another tab starts it once it
+   * takes over.
    */
   startAutoSync(intervalMs: number = 60000): void {
     this.stopAutoSync()
+    this.autoSyncInterval = intervalMs
+    if (!this.isSyncingTab()) return
+
+    // Replay the outbox as soon as the connection is back
+    window.addEventListener('online', this.syncOnReconnect)
+    this.startLiveUpdates(intervalMs)
+  }
+
+  /**
+   * Subscribe to remote changes, or poll if the Pod cannot notify them
+   */
+  private async startLiveUpdates(intervalMs: number) {
+    const run = this.autoSyncRun
+    const subscription = await this.remoteService
+      ?.subscribeToChanges({
+        onChange: url => this.queuePull(url),
+        onClose: () => {
+          if (this.subscription !== subscription) return
+          console.warn('Live updates stopped, syncing at intervals instead')
+          this.subscription = null
+          this.startPolling(intervalMs)
+        },
+      })
+      .catch(err => {
+        console.error('Failed to subscribe to remote changes:', err)
+        return null
+      })
+
+    if (run !== this.autoSyncRun) {
+      // Stopped in the meantime
+      subscription?.close()
+    } else if (subscription) {
+      this.subscription = subscription
+      await this.followTasks()
+    } else {
+      this.startPolling(intervalMs)
+    }
+  }
+
+  /**
+   * Follow the resource of each task through the subscription, as the
+   * container is only notified of tasks being added or removed
+   * The recently edited tasks are followed first. If the Pod cannot follow
+   * them all, tasks are also synced at regular intervals.
+   */
+  private async followTasks() {
+    const subscription = this.subscription
+    if (!subscription) return
+
+    const tasks = (await this.localStore.getAllTasks())
+      .filter(task => !task.url.startsWith('temp:'))
+      .sort((a, b) => b.lastModified.localeCompare(a.lastModified))
+    const resourceUrls = [...new Set(tasks.map(task => task.url.split('#')[0]))]
+
+    let followed: string[] = []
+    try {
+      followed = await subscription.follow(resourceUrls)
+    } catch (err) {
+      console.warn('Failed to follow the changes of the tasks:', err)
+    }
+    if (subscription !== this.subscription || !this.autoSyncInterval) return
+
+    if (followed.length < resourceUrls.length) {
+      this.startPolling(this.autoSyncInterval)
+    } else if (this.syncInterval) {
+      clearInterval(this.syncInterval)
+      this.syncInterval = null
+    }
+  }
+
+  /**
+   * Sync at regular intervals
+   */
+  private startPolling(intervalMs: number) {
+    if (this.syncInterval) return
     this.syncInterval = window.setInterval(() => {
       this.sync().catch(err => {
         console.error('Auto-sync failed:', err)
@@ -381,10 +1287,29 @@ export class SyncService {
    * Stop automatic syncing
    */
   stopAutoSync(): void {
+    this.autoSyncRun++
+    this.autoSyncInterval = null
+    this.subscription?.close()
+    this.subscription = null
+    if (this.pullTimeout) {
+      clearTimeout(this.pullTimeout)
+      this.pullTimeout = null
+    }
+    this.changedUrls.clear()
     if (this.syncInterval) {
       clearInterval(this.syncInterval)
       this.syncInterval = null
     }
+    window.removeEventListener('online', this.syncOnReconnect)
+  }
+
+  /**
+   * Sync when the browser comes back online
+   */
+  private syncOnReconnect = () => {
+    this.sync().catch(err => {
+      console.error('Sync after reconnecting failed:', err)
+    })
   }
 
   /**
@@ -402,20 +1327,31 @@ export class SyncService {
 
   /**
    * Delete task from both local and remote
+   * The remote deletion goes through the outbox, so it is retried if it
+   * fails now.
    */
   async deleteTask(taskUrl: string): Promise<void> {
     // Delete locally
     await this.localStore.deleteTask(taskUrl)
+    await this.queueOperation('delete', taskUrl)
 
-    // Delete remotely if online
+    // Delete remotely if online (or have the syncing tab do it)
     if (this.remoteService && !taskUrl.startsWith('temp:')) {
-      try {
-        await this.remoteService.deleteTask(taskUrl)
-      } catch (err) {
-        console.error('Failed to delete remote task:', err)
-        // Task will be deleted on next sync
+      if (this.isSyncingTab()) {
+        await this.replayOperations(
+          await this.localStore.getOperationsForUrl(taskUrl),
+          {
+            remoteTaskMap: new Map(),
+            deletions: new Map(),
+            urlMapping: new Map(),
+          },
+        )
+      } else {
+        await this.sync()
       }
     }
+    await this.notifyPendingOperations()
+    this.broadcastChange([taskUrl])
   }
 }
 
@@ -432,7 +1368,11 @@ export function getSyncService(
   remoteService: RemoteTaskService | SolidTaskService | null = null,
 ): SyncService {
   if (!syncServiceInstance) {
-    syncServiceInstance = new SyncService(localStore, remoteService)
+    syncServiceInstance = new SyncService(
+      localStore,
+      remoteService,
+      getTabCoordinator(),
+    )
   }
   return syncServiceInstance
 }
@@ -0,0 +1,114 @@
+/**
+ * Coordination between the tabs the planner is open in
+ *
+ * All tabs share the same IndexedDB database, so only one of them (the
+ * leader) syncs it with the Pod. The leader is elected with the Web Locks
+ * API: the first tab to ask holds the lock until it is closed, then the next
+ * one waiting gets it. Tabs tell each other about their changes through a
+ * BroadcastChannel.
+ */
+import type { SyncStatus } from './sync-service'
+
+const CHANNEL_NAME = 'solid-planner'
+const LEADER_LOCK = 'solid-planner-sync'
+
+/**
+ * A message from another tab
+ */
+export type TabMessage =
+  | { type: 'changed'; urls?: string[] } // Tasks changed in local storage (any of them without URLs)
+  | { type: 'sync-requested' } // Asks the leader to sync
+  | { type: 'status'; status: SyncStatus } // Sync status of the leader
+
+export class TabCoordinator {
+  private leader = false
+  private channel: BroadcastChannel | null = null
+  private leaderListeners: Set<() => void> = new Set()
+  private messageListeners: Set<(message: TabMessage) => void> = new Set()
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME)
+      this.channel.addEventListener('message', event => {
+        const message = event.data as TabMessage
+        this.messageListeners.forEach(listener => listener(message))
+      })
+    }
+    this.electLeader()
+  }
+
+  /**
+   * Whether this tab is the one syncing
+   */
+  get isLeader(): boolean {
+    return this.leader
+  }
+
+  /**
+   * Subscribe to this tab becoming the leader
+   * (tabs only stop leading when they are closed)
+   */
+  onLeadership(callback: () => void) {
+    this.leaderListeners.add(callback)
+    return () => this.leaderListeners.delete(callback)
+  }
+
+  /**
+   * Subscribe to messages from the other tabs
+   */
+  onMessage(callback: (message: TabMessage) => void) {
+    this.messageListeners.add(callback)
+    return () => this.messageListeners.delete(callback)
+  }
+
+  /**
+   * Send a message to the other tabs
+   */
+  broadcast(message: TabMessage) {
+    this.channel?.postMessage(message)
+  }
+
+  /**
+   * Wait for the leader lock, and keep it once granted
+   * Browsers without Web Locks cannot tell tabs apart, so every tab leads
+   * (and syncs) there.
+   */
+  private electLeader() {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      this.becomeLeader()
+      return
+    }
+
+    navigator.locks
+      .request(LEADER_LOCK, () => {
+        this.becomeLeader()
+        // Held until the tab is closed
+        return new Promise<void>(() => {})
+      })
+      .catch(err => {
+        console.error('Failed to elect the syncing tab:', err)
+        this.becomeLeader()
+      })
+  }
+
+  private becomeLeader() {
+    if (this.leader) return
+    this.leader = true
+    this.leaderListeners.forEach(listener => listener())
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let tabCoordinatorInstance: TabCoordinator | null = null
+
+/**
+ * Get or create the tab coordinator instance
+ */
+export function getTabCoordinator(): TabCoordinator {
+  if (!tabCoordinatorInstance) {
+    tabCoordinatorInstance = new TabCoordinator()
+  }
+  return tabCoordinatorInstance
+}
@@ -0,0 +1,223 @@
+import { defineStore } from 'pinia'
+import { getIndexedDBStorage } from '@/storage/local/indexeddb-storage'
+import type { ConflictResolution } from '@/storage/sync/sync-service'
+import type { TaskClass } from '@/models/TaskClass'
+import {
+  DEFAULT_MAX_FOCUS_TASKS,
+  getFocusLimitByCapacity,
+  type GraphLike,
+  type PriorityScorer,
+} from '@/utils/priority'
+import {
+  DEFAULT_CALENDAR,
+  setCalendar,
+  type CalendarConfig,
+} from '@/utils/calendar'
+import {
+  DEFAULT_STRATEGY_ID,
+  createPriorityScorer,
+  type PriorityWeights,
+} from '@/utils/priority-strategies'
+
+export type EffortUnit = 'hours' | 'points'
+
+/**
+ * User preferences, kept in the local metadata store for each user
+ */
+export interface Settings {
+  weeklyCapacity: number // Effort available per week, in `effortUnit`
+  effortUnit: EffortUnit
+  planningMode: boolean // Fill the week by capacity in the weekly planner
+  maxFocusTasks: number // Most tasks in Focus Now, unless planning by capacity
+  priorityStrategy: string // Id of the registered priority strategy
+  priorityWeights: Record<string, PriorityWeights> // Tuned weights by strategy id
+  weekStartsOn: number // 0 = Sunday ... 6 = Saturday
+  workingDays: number[]
+  endOfWorkday: string // "HH:mm"
+  conflictResolution: ConflictResolution // For fields edited on two devices
+}
+
+const SETTINGS_KEY_PREFIX = 'settings.'
+
+/**
+ * Metadata key of a setting: "settings.<WebID>.<key>" for a logged-in user,
+ * or "settings.<key>" for the device when logged out
+ */
+function getSettingKey(key: keyof Settings, webId: string | null): string {
+  return webId
+    ? `${SETTINGS_KEY_PREFIX}${webId}.${key}`
+    : SETTINGS_KEY_PREFIX + key
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  weeklyCapacity: 40,
+  effortUnit: 'hours',
+  planningMode: false,
+  maxFocusTasks: DEFAULT_MAX_FOCUS_TASKS,
+  priorityStrategy: DEFAULT_STRATEGY_ID,
+  priorityWeights: {},
+  ...DEFAULT_CALENDAR,
+  conflictResolution: 'manual',
+}
+
+/**
+ * Parse a setting saved as JSON, or undefined if it is malformed
+ */
+function parseJSONSetting(value: string): unknown {
+  try {
+    const parsed = JSON.parse(value)
+    return parsed !== null && typeof parsed === 'object' ? parsed : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export const useSettingsStore = defineStore('settings', {
+  state: (): Settings & { webId: string | null; loaded: boolean } => ({
+    ...DEFAULT_SETTINGS,
+    priorityWeights: {}, // Not shared with DEFAULT_SETTINGS
+    workingDays: [...DEFAULT_SETTINGS.workingDays],
+    webId: null, // User whose settings these are (null when logged out)
+    loaded: false,
+  }),
+  getters: {
+    /**
+     * Short label for effort values (e.g. "3 h", "5 pts")
+     */
+    effortSuffix(state): string {
+      return state.effortUnit === 'hours' ? 'h' : 'pts'
+    },
+
+    /**
+     * Scorer for the selected priority strategy with the user's weights
+     */
+    priorityScorer(state): PriorityScorer {
+      return createPriorityScorer(
+        state.priorityStrategy,
+        state.priorityWeights[state.priorityStrategy],
+      )
+    },
+
+    /**
+     * Week start, working days and end of workday
+     */
+    calendar(state): CalendarConfig {
+      return {
+        weekStartsOn: state.weekStartsOn,
+        workingDays: state.workingDays,
+        endOfWorkday: state.endOfWorkday,
+      }
+    },
+  },
+  actions: {
+    /**
+     * Load saved settings from local storage (only once)
+     * Missing or malformed values keep their defaults. A user without a saved
+     * value starts from the one saved while logged out. Object values are
+     * saved as JSON, as metadata only holds primitives.
+     */
+    async loadSettings() {
+      if (this.loaded) return
+      const webId = this.webId
+
+      try {
+        const storage = getIndexedDBStorage()
+        const saved: Partial<Settings> = {}
+        for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]) {
+          let value: unknown =
+            (await storage.getMetadata(getSettingKey(key, webId))) ??
+            (webId
+              ? await storage.getMetadata(getSettingKey(key, null))
+              : undefined)
+          if (
+            typeof DEFAULT_SETTINGS[key] === 'object' &&
+            typeof value === 'string'
+          ) {
+            value = parseJSONSetting(value)
+          }
+          if (typeof value === typeof DEFAULT_SETTINGS[key]) {
+            Object.assign(saved, { [key]: value })
+          }
+        }
+        // Another user's settings were asked for meanwhile
+        if (this.webId !== webId) return
+        this.$patch(saved)
+      } catch (err) {
+        console.error('Failed to load settings:', err)
+      } finally {
+        if (this.webId === webId) {
+          setCalendar(this.calendar)
+          this.loaded = true
+        }
+      }
+    },
+
+    /**
+     * Switch to the settings of another user (or of the device, with null)
+     */
+    async setUser(webId: string | null) {
+      if (this.loaded && this.webId === webId) return
+
+      this.$reset()
+      this.webId = webId
+      await this.loadSettings()
+    },
+
+    /**
+     * Change a setting and save it to local storage
+     */
+    async updateSetting<K extends keyof Settings>(key: K, value: Settings[K]) {
+      // Replace rather than merge object values
+      this.$patch(state => Object.assign(state, { [key]: value }))
+      setCalendar(this.calendar)
+
+      try {
+        await getIndexedDBStorage().setMetadata(
+          getSettingKey(key, this.webId),
+          typeof value === 'object' ? JSON.stringify(value) : value,
+        )
+      } catch (err) {
+        console.error(`Failed to save setting ${key}:`, err)
+      }
+    },
+
+    /**
+     * Most of these tasks to put in Focus Now
+     * In planning mode, as many as fit into a working day of the capacity.
+     */
+    getFocusLimit(
+      tasks: TaskClass[],
+      graph: GraphLike,
+      allTasks: Map<string, TaskClass>,
+    ): number {
+      if (!this.planningMode) return this.maxFocusTasks
+      return getFocusLimitByCapacity(
+        tasks,
+        graph,
+        allTasks,
+        this.weeklyCapacity,
+        this.priorityScorer,
+        this.maxFocusTasks,
+      )
+    },
+
+    /**
+     * Tune one weight of a priority strategy
+     */
+    async setPriorityWeight(strategyId: string, key: string, value: number) {
+      await this.updateSetting('priorityWeights', {
+        ...this.priorityWeights,
+        [strategyId]: { ...this.priorityWeights[strategyId], [key]: value },
+      })
+    },
+
+    /**
+     * Go back to a strategy's default weights
+     */
+    async resetPriorityWeights(strategyId: string) {
+      const priorityWeights = { ...this.priorityWeights }
+      delete priorityWeights[strategyId]
+      await this.updateSetting('priorityWeights', priorityWeights)
+    },
+  },
+})
@@ -1,6 +1,12 @@
 import { defineStore } from 'pinia'
-import { Status, TaskClass } from '@/models/TaskClass'
-import { TaskGraph } from '@/models/TaskGraph'
+import { Status, TaskClass, type TombstoneStatus } from '@/models/TaskClass'
+import {
+  TaskGraph,
+  TaskCycleError,
+  DependencyCycleError,
+} from '@/models/TaskGraph'
+import { buildScheduleModel, estimateSchedule } from '@/utils/estimation'
+import { getInheritedDeadline, getParentChainIds } from '@/utils/priority'
 
 function existsOrCompare(v1: any, v2: any, fn: (v1: any, v2: any) => number) {
   if (v1 && v2 === undefined) return 1
@@ -32,7 +38,8 @@ export const useTaskStore = defineStore('tasks', {
         task.endDate
           ? new Date(task.endDate) < new Date() &&
             task.status !== Status.COMPLETED &&
-            task.status !== Status.IGNORED
+            task.status !== Status.IGNORED &&
+            !task.tombstoned
           : false,
       )
     },
@@ -67,6 +74,25 @@ export const useTaskStore = defineStore('tasks', {
       for (const task of this.taskMap.values()) {
         task.setGraph(this.graph)
       }
+
+      this.refreshEstimates()
+    },
+
+    /**
+     * Re-learn schedule estimates from the completed tasks, and propose
+     * start dates and soft deadlines for the open ones
+     * Also passes the deadlines of parent tasks down to their subtasks.
+     */
+    refreshEstimates() {
+      const model = buildScheduleModel(this.tasks)
+      for (const task of this.taskMap.values()) {
+        task.scheduleEstimate = estimateSchedule(task, model)
+        task.inheritedDeadline = getInheritedDeadline(
+          task,
+          this.graph,
+          this.taskMap,
+        )
+      }
     },
 
     /**
@@ -86,10 +112,12 @@ export const useTaskStore = defineStore('tasks', {
       this.taskMap.set(taskClass.id, taskClass)
       // Ensure it's registered as a root task in the graph
       this.graph.setParent(taskClass.id, undefined)
+      this.refreshEstimates()
     },
 
     /**
      * Add a task as a child of another task
+     * @throws TaskCycleError if the child is the parent itself or one of its ancestors
      */
     addSubTask(parentId: string, childTask: TaskClass) {
       const parent = this.taskMap.get(parentId)
@@ -97,6 +125,9 @@ export const useTaskStore = defineStore('tasks', {
         console.warn(`Parent task ${parentId} not found`)
         return
       }
+      if (this.graph.wouldCreateCycle(childTask.id, parentId)) {
+        throw new TaskCycleError(childTask.id, parentId)
+      }
 
       childTask.setGraph(this.graph)
       this.taskMap.set(childTask.id, childTask)
@@ -104,14 +135,16 @@ export const useTaskStore = defineStore('tasks', {
       // Update TaskClass relationships (source of truth)
       childTask.setParentId(parentId)
       parent.addChildId(childTask.id)
+      this.refreshEstimates()
     },
 
     /**
      * Remove a task and all its descendants
+     * Returns the remaining tasks that depended on them, which no longer do.
      */
-    removeTaskClass(taskId: string) {
+    removeTaskClass(taskId: string): TaskClass[] {
       const task = this.taskMap.get(taskId)
-      if (!task) return
+      if (!task) return []
 
       // Get all descendants before removal
       const descendantIds = this.graph.getAllDescendantIds(taskId)
@@ -129,8 +162,88 @@ export const useTaskStore = defineStore('tasks', {
         this.taskMap.delete(id)
       }
 
+      // Drop dangling dependencies on the removed tasks
+      const changed = new Set<TaskClass>()
+      for (const id of descendantIds) {
+        for (const dependentId of [...this.graph.getDependentIds(id)]) {
+          const dependent = this.taskMap.get(dependentId)
+          if (dependent) {
+            dependent.removeDependencyId(id)
+            changed.add(dependent)
+          }
+        }
+      }
+
       // Clean up graph
       this.graph.removeTaskAndDescendants(taskId)
+      this.refreshEstimates()
+      return [...changed]
+    },
+
+    /**
+     * Move a task to the trash by cancelling or deprecating it
+     * Its open subtasks are tombstoned along with it; all of them keep their
+     * place in the tree, so they can be restored. Returns the changed tasks.
+     */
+    tombstoneTask(
+      taskId: string,
+      status: TombstoneStatus = Status.CANCELLED,
+      reason?: string,
+      now: Date = new Date(),
+    ): TaskClass[] {
+      if (!this.taskMap.has(taskId)) return []
+
+      const changed: TaskClass[] = []
+      for (const id of this.graph.getAllDescendantIds(taskId)) {
+        const current = this.taskMap.get(id)
+        if (!current) continue
+        // Finished subtasks stay as they are
+        if (
+          id !== taskId &&
+          (current.completed ||
+            current.status === Status.IGNORED ||
+            current.tombstoned)
+        ) {
+          continue
+        }
+        current.tombstone(status, reason, now)
+        changed.push(current)
+      }
+      this.refreshEstimates()
+      return changed
+    },
+
+    /**
+     * Bring a task back from the trash, with the subtasks tombstoned along
+     * with it. Tombstoned ancestors are restored too, so the task shows up in
+     * its place in the tree again. Returns the changed tasks.
+     */
+    restoreTask(taskId: string): TaskClass[] {
+      const task = this.taskMap.get(taskId)
+      if (!task?.tombstoned) return []
+
+      const tombstonedAt = task.tombstonedDate?.getTime()
+      const changed: TaskClass[] = []
+      for (const id of this.graph.getAllDescendantIds(taskId)) {
+        const current = this.taskMap.get(id)
+        if (
+          current?.tombstoned &&
+          (id === taskId || current.tombstonedDate?.getTime() === tombstonedAt)
+        ) {
+          current.restore()
+          changed.push(current)
+        }
+      }
+
+      for (const id of getParentChainIds(taskId, this.graph)) {
+        const ancestor = this.taskMap.get(id)
+        if (ancestor?.tombstoned) {
+          ancestor.restore()
+          changed.push(ancestor)
+        }
+      }
+      this.refreshEstimates()
+      return changed
     },
 
     /**
@@ -138,10 +251,32 @@ export const useTaskStore = defineStore('tasks', {
      */
     updateTaskClass(taskClass: TaskClass) {
       this.taskMap.set(taskClass.id, taskClass)
+      this.refreshEstimates()
+    },
+
+    /**
+     * Replace some of the tasks, e.g. with those changed in another tab
+     * The removed ones are dropped first, and the graph rebuilt from all tasks.
+     */
+    replaceTaskClasses(taskClasses: TaskClass[], removedIds: string[] = []) {
+      for (const id of removedIds) {
+        this.taskMap.delete(id)
+      }
+      for (const task of taskClasses) {
+        this.taskMap.set(task.id, task)
+      }
+
+      this.graph.rebuildFromTasks(this.tasks)
+      for (const task of taskClasses) {
+        task.setGraph(this.graph)
+      }
+
+      this.refreshEstimates()
     },
 
     /**
      * Move a task under a new parent
+     * @throws TaskCycleError if the new parent is the task itself or one of its descendants
      */
     moveTask(taskId: string, newParentId: string | undefined) {
       const task = this.taskMap.get(taskId)
@@ -156,6 +291,11 @@ export const useTaskStore = defineStore('tasks', {
         return // Already in the right place
       }
 
+      // Validate before touching anything, so a rejected move changes nothing
+      if (this.graph.wouldCreateCycle(taskId, newParentId)) {
+        throw new TaskCycleError(taskId, newParentId!)
+      }
+
       // Remove from old parent's childIds
       if (oldParentId !== undefined) {
         const oldParent = this.taskMap.get(oldParentId)
@@ -174,6 +314,41 @@ export const useTaskStore = defineStore('tasks', {
           newParent.addChildId(taskId)
         }
       }
+      this.refreshEstimates()
+    },
+
+    /**
+     * Mark a task as depending on (blocked by) another task
+     * @throws DependencyCycleError if the other task is the task itself or already depends on it
+     */
+    addDependency(taskId: string, dependencyId: string) {
+      const task = this.taskMap.get(taskId)
+      if (!task) {
+        console.warn(`Task ${taskId} not found`)
+        return
+      }
+      if (!this.taskMap.has(dependencyId)) {
+        console.warn(`Dependency task ${dependencyId} not found`)
+        return
+      }
+      if (this.graph.wouldCreateDependencyCycle(taskId, dependencyId)) {
+        throw new DependencyCycleError(taskId, dependencyId)
+      }
+
+      task.addDependencyId(dependencyId)
+    },
+
+    /**
+     * Remove a dependency from a task
+     */
+    removeDependency(taskId: string, dependencyId: string) {
+      const task = this.taskMap.get(taskId)
+      if (!task) {
+        console.warn(`Task ${taskId} not found`)
+        return
+      }
+
+      task.removeDependencyId(dependencyId)
     },
 
     /**
@@ -0,0 +1,327 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Status, TaskClass } from '@/models/TaskClass'
+import { formatRRule, parseRRule } from '@/models/recurrence'
+
+/**
+ * Backups of all tasks as JSON
+ *
+ * A backup is a versioned document with every task, including tombstoned
+ * ones, and their relationships by id. Importing it merges it with the
+ * existing tasks (matched by id), replaces them (moving the others to the
+ * trash), or adds copies of its tasks under new ids.
+ */
+
+export const BACKUP_FORMAT = 'solid-planner-tasks'
+export const BACKUP_VERSION = 1
+
+export interface BackupTask {
+  id: string
+  url?: string // Where the task was stored in the Pod, for reference
+  name: string
+  description?: string
+  addedDate: string // ISO string
+  startDate?: string // ISO string
+  endDate?: string // ISO string
+  status?: Status
+  recurrence?: string // iCalendar RRULE value
+  estimatedEffort?: number
+  completedDate?: string // ISO string
+  rolloverCount?: number
+  tombstoneReason?: string
+  tombstonedDate?: string // ISO string
+  parentId?: string
+  childIds?: string[]
+  dependsOn?: string[]
+}
+
+export interface TaskBackup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exportedAt: string // ISO string
+  tasks: BackupTask[]
+}
+
+export type ImportMode = 'merge' | 'replace' | 'copy'
+
+export interface ImportPlan {
+  tasks: TaskClass[] // Tasks to save, imported or changed by the import
+  importedIds: string[] // The tasks imported (under their new ids for copies)
+  added: number
+  updated: number
+  trashed: number
+}
+
+/**
+ * A document that cannot be imported, with what is wrong with it
+ */
+export class BackupError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid backup: ${problems.join('; ')}`)
+    this.name = 'BackupError'
+  }
+}
+
+/**
+ * Export tasks as a backup document
+ */
+export function exportTasks(
+  tasks: TaskClass[],
+  now: Date = new Date(),
+): TaskBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    tasks: tasks.map(task => ({
+      id: task.id,
+      url: task.fullId,
+      name: task.name,
+      description: task.description,
+      addedDate: task.addedDate.toISOString(),
+      startDate: task.startDate?.toISOString(),
+      endDate: task.endDate?.toISOString(),
+      status: task.status,
+      recurrence: task.recurrence && formatRRule(task.recurrence),
+      estimatedEffort: task.estimatedEffort,
+      completedDate: task.completedDate?.toISOString(),
+      rolloverCount: task.rolloverCount,
+      tombstoneReason: task.tombstoneReason,
+      tombstonedDate: task.tombstonedDate?.toISOString(),
+      parentId: task.parentId,
+      childIds: task.childIds.length > 0 ? [...task.childIds] : undefined,
+      dependsOn: task.dependsOn.length > 0 ? [...task.dependsOn] : undefined,
+    })),
+  }
+}
+
+/**
+ * Read the tasks of a backup document (e.g. parsed from a file)
+ * @throws BackupError listing the problems found, if any
+ */
+export function parseBackup(document: unknown): TaskClass[] {
+  if (!isObject(document) || document.format !== BACKUP_FORMAT) {
+    throw new BackupError(['not a Solid Planner backup'])
+  }
+  const version = document.version
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    throw new BackupError(['unknown version'])
+  }
+  if (version > BACKUP_VERSION) {
+    throw new BackupError(['made by a newer version of Solid Planner'])
+  }
+  if (!Array.isArray(document.tasks)) {
+    throw new BackupError(['no list of tasks'])
+  }
+
+  const problems: string[] = []
+  const ids = new Set<string>()
+  const tasks = document.tasks.flatMap((data, index) => {
+    const taskProblems: string[] = []
+    const task = readTask(data, taskProblems)
+    const id = isObject(data) ? data.id : undefined
+    if (typeof id === 'string') {
+      if (ids.has(id)) taskProblems.push(`duplicate id ${id}`)
+      ids.add(id)
+    }
+
+    problems.push(
+      ...taskProblems.map(problem => `task ${index + 1}: ${problem}`),
+    )
+    return task && taskProblems.length === 0 ? [task] : []
+  })
+
+  if (problems.length > 0) throw new BackupError(problems)
+  return tasks
+}
+
+/**
+ * Work out the changes importing tasks makes to the existing ones
+ * References to tasks neither imported nor existing are dropped, and the
+ * parent of an imported task is the one it has in the backup.
+ */
+export function planImport(
+  existing: TaskClass[],
+  imported: TaskClass[],
+  mode: ImportMode,
+  createId: () => string = uuidv4,
+): ImportPlan {
+  const existingMap = new Map(existing.map(task => [task.id, task]))
+  // Copies get new ids, other tasks are matched by id
+  const idMap = new Map(
+    imported.map(task => [task.id, mode === 'copy' ? createId() : task.id]),
+  )
+  const mapId = (id: string) =>
+    idMap.get(id) ?? (existingMap.has(id) ? id : undefined)
+
+  const result = new Map<string, TaskClass>()
+  let updated = 0
+  for (const task of imported) {
+    const id = idMap.get(task.id)!
+    const copy = copyTask(task, id)
+    copy.fullId = existingMap.get(id)?.fullId
+    if (existingMap.has(id)) updated++
+
+    copy.parentId = task.parentId && mapId(task.parentId)
+    copy.childIds = task.childIds.flatMap(childId => mapId(childId) ?? [])
+    copy.dependsOn = task.dependsOn.flatMap(depId => mapId(depId) ?? [])
+    result.set(id, copy)
+  }
+
+  // Existing tasks are copied before being changed
+  const getForUpdate = (id: string) => {
+    if (!result.has(id) && existingMap.has(id)) {
+      result.set(id, copyTask(existingMap.get(id)!))
+    }
+    return result.get(id)
+  }
+
+  let trashed = 0
+  if (mode === 'replace') {
+    for (const task of existing) {
+      if (result.has(task.id) || task.tombstoned) continue
+      getForUpdate(task.id)!.tombstone(
+        Status.CANCELLED,
+        'Replaced by an import',
+      )
+      trashed++
+    }
+  }
+
+  // Keep the children of each task in line with the parents of imported ones
+  const importedIds = new Set(idMap.values())
+  for (const id of importedIds) {
+    const parentId = result.get(id)!.parentId
+    const parent = parentId ? getForUpdate(parentId) : undefined
+    if (parent && !parent.childIds.includes(id)) parent.childIds.push(id)
+  }
+  for (const task of existing) {
+    if (task.childIds.some(childId => importedIds.has(childId))) {
+      getForUpdate(task.id)
+    }
+  }
+  const parentOf = (id: string) =>
+    (result.get(id) ?? existingMap.get(id))?.parentId
+  for (const task of result.values()) {
+    task.childIds = task.childIds.filter(
+      childId => parentOf(childId) === task.id,
+    )
+  }
+
+  return {
+    tasks: [...result.values()],
+    importedIds: [...importedIds],
+    added: importedIds.size - updated,
+    updated,
+    trashed,
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Read a task of a backup, noting what is wrong with it
+ */
+function readTask(data: unknown, problems: string[]): TaskClass | undefined {
+  if (!isObject(data)) {
+    problems.push('not a task')
+    return undefined
+  }
+  if (typeof data.id !== 'string' || !data.id) problems.push('missing id')
+  if (typeof data.name !== 'string') problems.push('missing name')
+
+  const readString = (key: string) => {
+    if (data[key] === undefined || typeof data[key] === 'string') {
+      return data[key] as string | undefined
+    }
+    problems.push(`invalid ${key}`)
+    return undefined
+  }
+  const readDate = (key: string) => {
+    const value = readString(key)
+    if (value === undefined) return undefined
+    const date = new Date(value)
+    if (isNaN(date.getTime())) problems.push(`invalid ${key}`)
+    return date
+  }
+  const readNumber = (key: string) => {
+    if (data[key] === undefined) return undefined
+    if (typeof data[key] === 'number' && Number.isFinite(data[key])) {
+      return data[key] as number
+    }
+    problems.push(`invalid ${key}`)
+    return undefined
+  }
+  const readIds = (key: string) => {
+    if (data[key] === undefined) return []
+    if (
+      Array.isArray(data[key]) &&
+      data[key].every(id => typeof id === 'string')
+    ) {
+      return data[key] as string[]
+    }
+    problems.push(`invalid ${key}`)
+    return []
+  }
+
+  const status = readString('status')
+  if (status && !Object.values(Status).includes(status as Status)) {
+    problems.push(`unknown status ${status}`)
+  }
+  const rrule = readString('recurrence')
+  const recurrence = rrule ? parseRRule(rrule) : undefined
+  if (rrule && !recurrence) problems.push('invalid recurrence')
+  const addedDate = readDate('addedDate')
+  if (!addedDate) problems.push('missing addedDate')
+
+  const task = new TaskClass({
+    id: data.id as string,
+    name: data.name as string,
+    description: readString('description'),
+    addedDate: addedDate!,
+    startDate: readDate('startDate'),
+    endDate: readDate('endDate'),
+    status: status as Status | undefined,
+    recurrence,
+    estimatedEffort: readNumber('estimatedEffort'),
+    completedDate: readDate('completedDate'),
+    rolloverCount: readNumber('rolloverCount'),
+    tombstoneReason: readString('tombstoneReason'),
+    tombstonedDate: readDate('tombstonedDate'),
+    parentId: readString('parentId'),
+    childIds: readIds('childIds'),
+    dependsOn: readIds('dependsOn'),
+  })
+  return problems.length === 0 ? task : undefined
+}
+
+/**
+ * Copy a task, keeping where it is stored
+ */
+function copyTask(task: TaskClass, id: string = task.id): TaskClass {
+  const copy = new TaskClass({
+    id,
+    name: task.name,
+    description: task.description,
+    addedDate: task.addedDate,
+    startDate: task.startDate,
+    endDate: task.endDate,
+    status: task.status,
+    recurrence: task.recurrence && { ...task.recurrence },
+    estimatedEffort: task.estimatedEffort,
+    completedDate: task.completedDate,
+    rolloverCount: task.rolloverCount,
+    tombstoneReason: task.tombstoneReason,
+    tombstonedDate: task.tombstonedDate,
+    parentId: task.parentId,
+    childIds: task.childIds,
+    dependsOn: task.dependsOn,
+  })
+  copy.fullId = task.fullId
+  return copy
+}
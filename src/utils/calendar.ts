@@ -0,0 +1,158 @@
+import { shallowRef } from 'vue'
+
+/**
+ * Calendar configuration shared by all week helpers
+ *
+ * Decides which days make up a week, on which days the user works and when
+ * their workday ends. Soft deadlines fall at the end of the last working day
+ * of a week. The configuration is kept in a reactive ref, so computed values
+ * using the week helpers update when the user changes it in the settings.
+ */
+
+export interface CalendarConfig {
+  weekStartsOn: number // 0 = Sunday ... 6 = Saturday
+  workingDays: number[] // Same numbering as `weekStartsOn`
+  endOfWorkday: string // "HH:mm", up to "24:00" for the end of the day
+}
+
+export const DEFAULT_CALENDAR: CalendarConfig = {
+  weekStartsOn: 0,
+  workingDays: [1, 2, 3, 4, 5],
+  endOfWorkday: '24:00',
+}
+
+const current = shallowRef<CalendarConfig>(DEFAULT_CALENDAR)
+
+/**
+ * Get the calendar configuration in use
+ */
+export function getCalendar(): CalendarConfig {
+  return current.value
+}
+
+/**
+ * Change the calendar configuration (e.g. from the user's settings)
+ * Invalid values are replaced by their defaults
+ */
+export function setCalendar(config: Partial<CalendarConfig>): void {
+  const isWeekday = (day: unknown) =>
+    Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6
+
+  const workingDays = (config.workingDays ?? []).filter(isWeekday)
+  current.value = {
+    weekStartsOn: isWeekday(config.weekStartsOn)
+      ? config.weekStartsOn!
+      : DEFAULT_CALENDAR.weekStartsOn,
+    workingDays:
+      workingDays.length > 0
+        ? [...new Set(workingDays)].sort((a, b) => a - b)
+        : DEFAULT_CALENDAR.workingDays,
+    endOfWorkday:
+      config.endOfWorkday && parseTimeOfDay(config.endOfWorkday)
+        ? config.endOfWorkday
+        : DEFAULT_CALENDAR.endOfWorkday,
+  }
+}
+
+/**
+ * Parse an "HH:mm" time of day, allowing "24:00"
+ * Returns undefined for malformed values
+ */
+export function parseTimeOfDay(
+  value: string,
+): { hours: number; minutes: number } | undefined {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return undefined
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) {
+    return undefined
+  }
+  return { hours, minutes }
+}
+
+/**
+ * Number of days from the start of the week to a date (0-6)
+ */
+function getDayOfWeekIndex(date: Date, calendar: CalendarConfig): number {
+  return (date.getDay() - calendar.weekStartsOn + 7) % 7
+}
+
+/**
+ * Get the start of the week containing a date (midnight of its first day)
+ */
+export function getStartOfWeek(
+  date: Date,
+  calendar: CalendarConfig = getCalendar(),
+): Date {
+  const start = new Date(date)
+  start.setDate(start.getDate() - getDayOfWeekIndex(start, calendar))
+  start.setHours(0, 0, 0, 0)
+  return start
+}
+
+/**
+ * Get the end of the week containing a date (last millisecond of its last day)
+ */
+export function getEndOfWeek(
+  date: Date,
+  calendar: CalendarConfig = getCalendar(),
+): Date {
+  const end = getStartOfWeek(date, calendar)
+  end.setDate(end.getDate() + 6)
+  end.setHours(23, 59, 59, 999)
+  return end
+}
+
+/**
+ * Get the end of the workday on a date
+ * The workday ends just before `endOfWorkday` (e.g. 23:59:59.999 for "24:00")
+ */
+export function getEndOfWorkday(
+  date: Date,
+  calendar: CalendarConfig = getCalendar(),
+): Date {
+  const { hours, minutes } =
+    parseTimeOfDay(calendar.endOfWorkday) ??
+    parseTimeOfDay(DEFAULT_CALENDAR.endOfWorkday)!
+  const end = new Date(date)
+  end.setHours(hours, minutes, 0, 0)
+  return new Date(end.getTime() - 1)
+}
+
+/**
+ * Check if a date falls on one of the user's working days
+ */
+export function isWorkingDay(
+  date: Date,
+  calendar: CalendarConfig = getCalendar(),
+): boolean {
+  return calendar.workingDays.includes(date.getDay())
+}
+
+/**
+ * Get the end of the last working day of the week containing a date
+ * If that moment has already passed at `date`, the following week's is used.
+ */
+export function getEndOfWorkWeek(
+  date: Date,
+  calendar: CalendarConfig = getCalendar(),
+): Date {
+  const weekEnd = getEndOfWeek(date, calendar)
+  for (let week = 0; week < 2; week++) {
+    // Step back from the last day of the week to its last working day
+    const day = new Date(weekEnd)
+    day.setDate(day.getDate() + week * 7)
+    for (let i = 0; i < 7; i++) {
+      if (isWorkingDay(day, calendar)) {
+        const end = getEndOfWorkday(day, calendar)
+        if (end >= date) return end
+        break
+      }
+      day.setDate(day.getDate() - 1)
+    }
+  }
+  // Only reached without any working days
+  return getEndOfWeek(date, calendar)
+}
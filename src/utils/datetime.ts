@@ -1,4 +1,5 @@
 import { TaskClass } from '@/models/TaskClass'
+import { getEndOfWeek, getStartOfWeek } from './calendar'
 
 export function isToday(dateStr: string) {
   const date = new Date(dateStr)
@@ -13,23 +14,16 @@ export function isToday(dateStr: string) {
 export function isThisWeek(dateStr: string) {
   const date = new Date(dateStr)
   const today = new Date()
-  const startOfWeekBase = new Date(today)
-  const endOfWeekBase = new Date(today)
-
-  const startOfWeek = new Date(
-    startOfWeekBase.setDate(startOfWeekBase.getDate() - startOfWeekBase.getDay()),
-  )
-  const endOfWeek = new Date(
-    endOfWeekBase.setDate(endOfWeekBase.getDate() - endOfWeekBase.getDay() + 7),
-  )
-  return date >= startOfWeek && date <= endOfWeek
+  return date >= getStartOfWeek(today) && date <= getEndOfWeek(today)
 }
 
 export function isOverdue(task: TaskClass) {
   return task.effectiveEndDate < new Date() && !task.completed
 }
 
+/**
+ * Last moment of the (configured) week containing a date
+ */
 export function endOfWeek(date: Date) {
-  const day = new Date(date)
-  return new Date(day.setDate(day.getDate() - day.getDay() + 7))
+  return getEndOfWeek(date)
 }
@@ -0,0 +1,15 @@
+/**
+ * Have the browser download content as a file
+ */
+export function downloadFile(
+  filename: string,
+  content: string,
+  type: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
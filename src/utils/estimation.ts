@@ -0,0 +1,168 @@
+import type { TaskClass } from '@/models/TaskClass'
+import { getEndOfWorkday } from './calendar'
+
+/**
+ * Schedule estimation learned from the history of completed tasks
+ *
+ * For tasks without a deadline (or start date), proposes one based on how long
+ * similar tasks took in the past. Tasks are compared by estimated effort when
+ * available, otherwise by their number of subtasks. Medians are used
+ * throughout, so a few outliers don't skew the estimates.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Minimum number of samples before a statistic is trusted
+ */
+export const MIN_SAMPLES = 3
+
+export type EstimateBasis = 'effort' | 'subtasks' | 'history'
+
+type SubtaskBucket = 'none' | 'few' | 'many'
+
+/**
+ * Statistics learned from completed tasks (all durations in days)
+ */
+export interface ScheduleModel {
+  sampleSize: number // Number of completed tasks learned from
+  durationDays: number // Median time from start to completion
+  leadDays: number // Median time from creation to start
+  daysPerEffort?: number // Median duration per effort unit
+  durationBySubtasks: Partial<Record<SubtaskBucket, number>>
+}
+
+/**
+ * Proposed schedule for a task
+ */
+export interface ScheduleEstimate {
+  startDate: Date
+  deadline: Date
+  basis: EstimateBasis // What the duration was derived from
+  sampleSize: number
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle]
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(new Date(date).getTime() + days * DAY_MS)
+}
+
+function getSubtaskBucket(task: TaskClass): SubtaskBucket {
+  const count = task.childIds.length
+  if (count === 0) return 'none'
+  return count <= 3 ? 'few' : 'many'
+}
+
+/**
+ * Learn a schedule model from completed tasks
+ * Returns null if there are not enough completed tasks to learn from
+ */
+export function buildScheduleModel(tasks: TaskClass[]): ScheduleModel | null {
+  const durations: number[] = []
+  const effortRatios: number[] = []
+  const byBucket: Record<SubtaskBucket, number[]> = {
+    none: [],
+    few: [],
+    many: [],
+  }
+
+  for (const task of tasks) {
+    if (!task.completed || !task.completedDate) continue
+
+    const started = task.startDate ?? task.addedDate
+    const duration = Math.max(0, daysBetween(started, task.completedDate))
+    durations.push(duration)
+    byBucket[getSubtaskBucket(task)].push(duration)
+    if (task.estimatedEffort && task.estimatedEffort > 0) {
+      effortRatios.push(duration / task.estimatedEffort)
+    }
+  }
+
+  if (durations.length < MIN_SAMPLES) {
+    return null
+  }
+
+  // Lead time is learned from every task with a start date, finished or not
+  const leadTimes = tasks
+    .filter(task => task.startDate)
+    .map(task => Math.max(0, daysBetween(task.addedDate, task.startDate!)))
+
+  const durationBySubtasks: ScheduleModel['durationBySubtasks'] = {}
+  for (const bucket of Object.keys(byBucket) as SubtaskBucket[]) {
+    if (byBucket[bucket].length >= MIN_SAMPLES) {
+      durationBySubtasks[bucket] = median(byBucket[bucket])
+    }
+  }
+
+  return {
+    sampleSize: durations.length,
+    durationDays: median(durations),
+    leadDays: leadTimes.length >= MIN_SAMPLES ? median(leadTimes) : 0,
+    daysPerEffort:
+      effortRatios.length >= MIN_SAMPLES ? median(effortRatios) : undefined,
+    durationBySubtasks,
+  }
+}
+
+/**
+ * Estimate how many days a task will take, and what the estimate is based on
+ */
+function estimateDuration(
+  task: TaskClass,
+  model: ScheduleModel,
+): { days: number; basis: EstimateBasis } {
+  if (task.estimatedEffort !== undefined && model.daysPerEffort !== undefined) {
+    return { days: task.estimatedEffort * model.daysPerEffort, basis: 'effort' }
+  }
+
+  const bucketDuration = model.durationBySubtasks[getSubtaskBucket(task)]
+  if (bucketDuration !== undefined) {
+    return { days: bucketDuration, basis: 'subtasks' }
+  }
+
+  return { days: model.durationDays, basis: 'history' }
+}
+
+/**
+ * Propose a start date and soft deadline for an open task
+ * Dates set by the user are kept; returns undefined if the task already has
+ * both dates, is finished or tombstoned, or there is no model
+ */
+export function estimateSchedule(
+  task: TaskClass,
+  model: ScheduleModel | null,
+): ScheduleEstimate | undefined {
+  if (!model || task.completed || task.status === 'Ignored') return undefined
+  if (task.tombstoned || (task.startDate && task.endDate)) return undefined
+
+  const { days, basis } = estimateDuration(task, model)
+
+  let startDate: Date
+  let deadline: Date
+  if (task.endDate) {
+    // Work back from the deadline, but not to before the task existed
+    deadline = new Date(task.endDate)
+    const latestStart = addDays(deadline, -days)
+    startDate =
+      latestStart > task.addedDate ? latestStart : new Date(task.addedDate)
+  } else {
+    startDate = task.startDate
+      ? new Date(task.startDate)
+      : addDays(task.addedDate, model.leadDays)
+    // Soft deadlines are at the end of the workday
+    deadline = getEndOfWorkday(addDays(startDate, days))
+  }
+
+  return { startDate, deadline, basis, sampleSize: model.sampleSize }
+}
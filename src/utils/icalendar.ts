@@ -0,0 +1,335 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Status, TaskClass } from '@/models/TaskClass'
+import {
+  formatICalDateTime,
+  formatRRule,
+  parseICalDateTime,
+  parseRRule,
+} from '@/models/recurrence'
+import { getStartOfWeek } from '@/utils/calendar'
+import { calculateSoftDeadline } from '@/utils/priority'
+
+/**
+ * Tasks as iCalendar to-dos (RFC 5545)
+ *
+ * Each task is a VTODO with its id as UID. Subtasks refer to their parent
+ * with RELATED-TO (and to the tasks they depend on with
+ * RELTYPE=DEPENDS-ON, from RFC 9253). Statuses without a VTODO equivalent
+ * are kept in an X-SOLID-PLANNER-STATUS property, so they survive a round
+ * trip through this app.
+ *
+ * The deadline feed published to the Pod holds the deadlines of the coming
+ * weeks, each both as a VTODO and as a VEVENT: most calendar apps only show
+ * the events of the calendars they subscribe to. Tasks without a deadline
+ * of their own are listed at their soft deadline, marked as such.
+ */
+
+const PRODUCT_ID = '-//Solid Planner//Tasks//EN'
+const STATUS_PROPERTY = 'X-SOLID-PLANNER-STATUS'
+const SOFT_DEADLINE_PROPERTY = 'X-SOLID-PLANNER-SOFT-DEADLINE'
+const FEED_NAME = 'Solid Planner deadlines'
+export const FEED_WEEKS = 4 // This week and the next ones
+
+const VTODO_STATUSES: Record<Status, string> = {
+  [Status.IN_PROGRESS]: 'NEEDS-ACTION',
+  [Status.COMPLETED]: 'COMPLETED',
+  [Status.IGNORED]: 'CANCELLED',
+  [Status.CANCELLED]: 'CANCELLED',
+  [Status.DEPRECATED]: 'CANCELLED',
+}
+
+const TASK_STATUSES: Record<string, Status> = {
+  'NEEDS-ACTION': Status.IN_PROGRESS,
+  'IN-PROCESS': Status.IN_PROGRESS,
+  COMPLETED: Status.COMPLETED,
+  CANCELLED: Status.CANCELLED,
+}
+
+interface ICalProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/**
+ * Format tasks as an iCalendar document of VTODO components
+ */
+export function formatICalendar(
+  tasks: TaskClass[],
+  now: Date = new Date(),
+): string {
+  return formatCalendar(tasks.flatMap(task => formatTodo(task, now)))
+}
+
+/**
+ * Format the deadlines of the open tasks due this week or in the next
+ * `weeks - 1` ones as a calendar feed
+ * Tasks without a deadline are due at their soft deadline (see
+ * `calculateSoftDeadline`).
+ */
+export function formatDeadlineFeed(
+  tasks: TaskClass[],
+  now: Date = new Date(),
+  weeks: number = FEED_WEEKS,
+): string {
+  const from = getStartOfWeek(now)
+  const to = new Date(from)
+  to.setDate(to.getDate() + 7 * weeks)
+
+  const due = tasks
+    .filter(
+      task =>
+        !task.completed && task.status !== Status.IGNORED && !task.tombstoned,
+    )
+    .map(task => ({ task, deadline: calculateSoftDeadline(task) }))
+    .filter(({ deadline }) => deadline >= from && deadline < to)
+    .sort((a, b) => a.deadline.getTime() - b.deadline.getTime())
+  return formatCalendar(
+    due.flatMap(({ task, deadline }) => [
+      ...formatTodo(task, now),
+      ...formatDeadline(task, deadline, now),
+    ]),
+    [`X-WR-CALNAME:${FEED_NAME}`],
+  )
+}
+
+/**
+ * Leave out the time an iCalendar document was generated at (DTSTAMP), to
+ * compare it with another one
+ */
+export function withoutTimestamps(calendar: string): string {
+  return calendar.replace(/^DTSTAMP:.*\r\n/gm, '')
+}
+
+/**
+ * Read the to-dos of an iCalendar document as tasks
+ * UIDs that cannot be used as task ids (in URLs) are replaced, keeping the
+ * relationships between the tasks.
+ * @throws Error if the document is not an iCalendar document
+ */
+export function parseICalendar(text: string): TaskClass[] {
+  const lines = text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new Error('Not an iCalendar file')
+  }
+
+  const todos: ICalProperty[][] = []
+  let current: ICalProperty[] | null = null
+  let depth = 0 // Components nested in the VTODO (e.g. VALARM)
+  for (const line of lines) {
+    const property = parseLine(line)
+    if (!property) continue
+
+    if (property.name === 'BEGIN') {
+      if (current) depth++
+      else if (property.value.toUpperCase() === 'VTODO') current = []
+    } else if (property.name === 'END' && current) {
+      if (depth > 0) {
+        depth--
+      } else {
+        todos.push(current)
+        current = null
+      }
+    } else if (current && depth === 0) {
+      current.push(property)
+    }
+  }
+
+  const idMap = new Map<string, string>()
+  const getId = (uid: string) => {
+    if (!idMap.has(uid)) {
+      idMap.set(uid, /^[\w.~@-]+$/.test(uid) ? uid : uuidv4())
+    }
+    return idMap.get(uid)!
+  }
+
+  const tasks = todos.map(todo => readTodo(todo, getId))
+  // Subtasks only refer to their parent
+  const taskMap = new Map(tasks.map(task => [task.id, task]))
+  for (const task of tasks) {
+    const parent = task.parentId ? taskMap.get(task.parentId) : undefined
+    if (parent) parent.childIds.push(task.id)
+  }
+  return tasks
+}
+
+/**
+ * Wrap components in a VCALENDAR, as folded lines
+ */
+function formatCalendar(components: string[], properties: string[] = []) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    ...properties,
+    ...components,
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Format the deadline of a task as the lines of a VEVENT
+ * The event takes no time, at the deadline, and refers to the task's VTODO.
+ * A soft deadline (the task has no deadline of its own) is marked as such.
+ */
+function formatDeadline(task: TaskClass, deadline: Date, now: Date): string[] {
+  const soft = !task.endDate
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${task.id}-deadline`,
+    `DTSTAMP:${formatICalDateTime(now)}`,
+    `DTSTART:${formatICalDateTime(deadline)}`,
+    `SUMMARY:${escapeText(`${soft ? 'Soft deadline' : 'Due'}: ${task.name}`)}`,
+  ]
+  if (task.description) {
+    lines.push(`DESCRIPTION:${escapeText(task.description)}`)
+  }
+  if (soft) lines.push(`${SOFT_DEADLINE_PROPERTY}:TRUE`)
+  lines.push('TRANSP:TRANSPARENT', `RELATED-TO:${task.id}`, 'END:VEVENT')
+  return lines
+}
+
+/**
+ * Format a task as the lines of a VTODO
+ */
+function formatTodo(task: TaskClass, now: Date): string[] {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${task.id}`,
+    `DTSTAMP:${formatICalDateTime(now)}`,
+    `CREATED:${formatICalDateTime(task.addedDate)}`,
+    `SUMMARY:${escapeText(task.name)}`,
+  ]
+  if (task.description) {
+    lines.push(`DESCRIPTION:${escapeText(task.description)}`)
+  }
+  if (task.startDate) {
+    lines.push(`DTSTART:${formatICalDateTime(task.startDate)}`)
+  }
+  if (task.endDate) lines.push(`DUE:${formatICalDateTime(task.endDate)}`)
+
+  const status = task.status ?? Status.IN_PROGRESS
+  lines.push(`STATUS:${VTODO_STATUSES[status]}`)
+  if (TASK_STATUSES[VTODO_STATUSES[status]] !== status) {
+    lines.push(`${STATUS_PROPERTY}:${status}`)
+  }
+  if (task.completedDate) {
+    lines.push(`COMPLETED:${formatICalDateTime(task.completedDate)}`)
+  }
+  if (task.recurrence) lines.push(`RRULE:${formatRRule(task.recurrence)}`)
+  if (task.parentId) lines.push(`RELATED-TO;RELTYPE=PARENT:${task.parentId}`)
+  for (const dependencyId of task.dependsOn) {
+    lines.push(`RELATED-TO;RELTYPE=DEPENDS-ON:${dependencyId}`)
+  }
+  lines.push('END:VTODO')
+  return lines
+}
+
+/**
+ * Read a VTODO as a task
+ */
+function readTodo(
+  properties: ICalProperty[],
+  getId: (uid: string) => string,
+): TaskClass {
+  const get = (name: string) =>
+    properties.find(property => property.name === name)
+  const getDate = (name: string, startOfDay = false) => {
+    const value = get(name)?.value
+    return value ? parseICalDateTime(value, startOfDay) : undefined
+  }
+
+  const status =
+    (get(STATUS_PROPERTY)?.value as Status | undefined) ??
+    TASK_STATUSES[get('STATUS')?.value.toUpperCase() ?? 'NEEDS-ACTION']
+  const rrule = get('RRULE')?.value
+  const relations = properties.filter(
+    property => property.name === 'RELATED-TO',
+  )
+  const related = (type: string) =>
+    relations
+      .filter(property => (property.params.RELTYPE ?? 'PARENT') === type)
+      .map(property => getId(property.value))
+
+  return new TaskClass({
+    id: getId(get('UID')?.value || uuidv4()),
+    name: unescapeText(get('SUMMARY')?.value ?? '') || 'Untitled task',
+    description: get('DESCRIPTION') && unescapeText(get('DESCRIPTION')!.value),
+    addedDate:
+      getDate('CREATED', true) ?? getDate('DTSTAMP', true) ?? new Date(),
+    startDate: getDate('DTSTART', true),
+    endDate: getDate('DUE'),
+    status: Object.values(Status).includes(status) ? status : undefined,
+    recurrence: rrule ? parseRRule(rrule) : undefined,
+    completedDate: getDate('COMPLETED'),
+    parentId: related('PARENT')[0],
+    dependsOn: related('DEPENDS-ON'),
+  })
+}
+
+/**
+ * Split a content line into its name, parameters and value
+ */
+function parseLine(line: string): ICalProperty | undefined {
+  // The value starts at the first colon outside of quoted parameter values
+  let quoted = false
+  let index = 0
+  for (; index < line.length; index++) {
+    if (line[index] === '"') quoted = !quoted
+    else if (line[index] === ':' && !quoted) break
+  }
+  if (index === line.length) return undefined
+
+  const [name, ...params] = line.slice(0, index).split(';')
+  return {
+    name: name.trim().toUpperCase(),
+    params: Object.fromEntries(
+      params.map(param => {
+        const [key, value = ''] = param.split('=')
+        return [key.toUpperCase(), value.replace(/^"|"$/g, '').toUpperCase()]
+      }),
+    ),
+    value: line.slice(index + 1),
+  }
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === 'n' ? '\n' : char,
+  )
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let part = ''
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    // Continuation lines start with a space, which counts too
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part)
+      part = ''
+      octets = 0
+    }
+    part += char
+    octets += size
+  }
+  parts.push(part)
+  return parts.join('\r\n ')
+}
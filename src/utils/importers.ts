@@ -0,0 +1,553 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Status, TaskClass } from '@/models/TaskClass'
+import { parseICalDateTime } from '@/models/recurrence'
+
+/**
+ * Importers for the exports of other task apps
+ *
+ * An importer reads a file of another app as tasks, mapping its due and
+ * scheduled dates, dependencies, labels and hierarchy onto `TaskClass`.
+ * Labels have no field of their own, so they are listed in the description.
+ * Tasks get ids derived from the other app's ids when it has any, so that
+ * importing a newer export again updates them instead of adding copies.
+ * Importers are looked up from a registry, so new ones only need to call
+ * `registerImporter`.
+ */
+
+export interface TaskImporter {
+  id: string
+  name: string
+  description: string // How to get the file from the other app
+  accept: string // File types, as for a file input
+  detect: (text: string) => boolean
+  parse: (text: string, now: Date) => TaskClass[] // Throws if unreadable
+}
+
+type Json = Record<string, unknown>
+
+const taskwarriorImporter: TaskImporter = {
+  id: 'taskwarrior',
+  name: 'Taskwarrior',
+  description: 'The output of `task export`.',
+  accept: 'application/json,.json',
+  detect: text => {
+    const data = tryParseJson(text)
+    return (
+      Array.isArray(data) &&
+      data.length > 0 &&
+      data.every(item => isObject(item) && 'uuid' in item && 'entry' in item)
+    )
+  },
+  parse: (text, now) => {
+    const data = tryParseJson(text)
+    if (!Array.isArray(data)) throw new Error('Not a Taskwarrior export')
+
+    const projects = new ProjectTree('taskwarrior-project', now)
+    const tasks: TaskClass[] = []
+    for (const item of data.filter(isObject)) {
+      // Recurring tasks are templates for the pending instances exported
+      // along with them
+      if (item.status === 'recurring') continue
+      const uuid = readString(item.uuid)
+      const name = readString(item.description)
+      if (!uuid || !name) continue
+
+      const annotations = Array.isArray(item.annotations)
+        ? item.annotations.flatMap(note =>
+            isObject(note) && readString(note.description)
+              ? [readString(note.description)!]
+              : [],
+          )
+        : []
+      const task = new TaskClass({
+        id: toId(uuid),
+        name,
+        description: describe(annotations.join('\n'), readStrings(item.tags)),
+        addedDate: readTaskwarriorDate(item.entry) ?? now,
+        startDate: readTaskwarriorDate(item.scheduled),
+        endDate: readTaskwarriorDate(item.due),
+        status: Status.IN_PROGRESS,
+        dependsOn: (typeof item.depends === 'string'
+          ? item.depends.split(',')
+          : readStrings(item.depends)
+        ).map(toId),
+      })
+      const end = readTaskwarriorDate(item.end) ?? now
+      if (item.status === 'completed') markCompleted(task, end)
+      if (item.status === 'deleted') {
+        task.tombstone(Status.CANCELLED, 'Deleted in Taskwarrior', end)
+      }
+
+      // Projects are dot-separated paths (e.g. "Home.Garden")
+      const project = readString(item.project)
+      if (project) task.parentId = projects.get(project.split('.')).id
+      tasks.push(task)
+    }
+    return linkChildren([...projects.tasks, ...tasks])
+  },
+}
+
+const todoistImporter: TaskImporter = {
+  id: 'todoist',
+  name: 'Todoist',
+  description:
+    'A project exported as a CSV template, or a JSON backup of your tasks.',
+  accept: 'text/csv,.csv,application/json,.json',
+  detect: text => {
+    if (/^\uFEFF?TYPE,CONTENT,/i.test(text)) return true
+    const data = tryParseJson(text)
+    const items = isObject(data) ? data.items : data
+    return (
+      Array.isArray(items) &&
+      items.length > 0 &&
+      items.every(
+        item =>
+          isObject(item) &&
+          'content' in item &&
+          ('checked' in item || 'is_completed' in item),
+      )
+    )
+  },
+  parse: (text, now) =>
+    /^\uFEFF?TYPE,/i.test(text)
+      ? parseTodoistCsv(text, now)
+      : parseTodoistJson(text, now),
+}
+
+const githubImporter: TaskImporter = {
+  id: 'github',
+  name: 'GitHub issues',
+  description:
+    'Issues saved from the REST API, or with `gh issue list --json number,title,body,state,stateReason,labels,milestone,createdAt,closedAt,url`.',
+  accept: 'application/json,.json',
+  detect: text => {
+    const data = tryParseJson(text)
+    return (
+      Array.isArray(data) &&
+      data.length > 0 &&
+      data.every(
+        item =>
+          isObject(item) &&
+          typeof item.number === 'number' &&
+          'title' in item &&
+          'state' in item,
+      )
+    )
+  },
+  parse: (text, now) => {
+    const data = tryParseJson(text)
+    if (!Array.isArray(data)) throw new Error('Not a list of GitHub issues')
+
+    const issues = data.filter(
+      (item): item is Json =>
+        isObject(item) && typeof item.number === 'number' && !item.pull_request,
+    )
+    // The REST API has the page of an issue as `html_url`, `gh` as `url`
+    const pageOf = (issue: Json) =>
+      [issue.html_url, issue.url].find(
+        (url): url is string =>
+          typeof url === 'string' && url.startsWith('https://github.com/'),
+      )
+    const idOf = (issue: Json, number: unknown = issue.number) => {
+      const match = pageOf(issue)?.match(
+        /^https:\/\/github\.com\/([^/]+)\/([^/]+)\//,
+      )
+      return toId(
+        match ? `github-${match[1]}-${match[2]}-${number}` : `github-${number}`,
+      )
+    }
+
+    const milestones = new Map<string, TaskClass>()
+    const tasks = issues.map(issue => {
+      const closed = readString(issue.state)?.toLowerCase() === 'closed'
+      const closedDate = readDate(issue.closed_at ?? issue.closedAt) ?? now
+      const body = readString(issue.body) ?? ''
+      const labels = Array.isArray(issue.labels)
+        ? issue.labels.flatMap(label =>
+            typeof label === 'string'
+              ? [label]
+              : isObject(label) && readString(label.name)
+                ? [readString(label.name)!]
+                : [],
+          )
+        : []
+      // Dependencies as written in issues (e.g. "Depends on #12")
+      const dependsOn = [
+        ...body.matchAll(/\b(?:depends on|blocked by)\s+#(\d+)/gi),
+      ].map(match => idOf(issue, match[1]))
+
+      const task = new TaskClass({
+        id: idOf(issue),
+        name: readString(issue.title) || 'Untitled issue',
+        description: describe(body, labels, pageOf(issue)),
+        addedDate: readDate(issue.created_at ?? issue.createdAt) ?? now,
+        status: Status.IN_PROGRESS,
+        dependsOn,
+      })
+      const reason = readString(issue.state_reason ?? issue.stateReason)
+      if (closed && reason?.toLowerCase() === 'not_planned') {
+        task.tombstone(Status.CANCELLED, 'Closed as not planned', closedDate)
+      } else if (closed) {
+        markCompleted(task, closedDate)
+      }
+
+      // Sub-issues belong to their parent issue, others to their milestone
+      const milestone = isObject(issue.milestone) ? issue.milestone : undefined
+      if (isObject(issue.parent) && typeof issue.parent.number === 'number') {
+        task.parentId = idOf(issue, issue.parent.number)
+      } else if (milestone && readString(milestone.title)) {
+        const title = readString(milestone.title)!
+        if (!milestones.has(title)) {
+          milestones.set(
+            title,
+            new TaskClass({
+              id: idOf(issue, `milestone-${milestone.number ?? title}`),
+              name: title,
+              description: readString(milestone.description),
+              addedDate: now,
+              endDate: readDate(milestone.due_on ?? milestone.dueOn, true),
+              status: Status.IN_PROGRESS,
+            }),
+          )
+        }
+        task.parentId = milestones.get(title)!.id
+      }
+      return task
+    })
+    return linkChildren([...milestones.values(), ...tasks])
+  },
+}
+
+/**
+ * Read a Todoist CSV template
+ * Sections become tasks holding the tasks under them, and the INDENT column
+ * nests tasks. Notes are added to the description of their task.
+ */
+function parseTodoistCsv(text: string, now: Date): TaskClass[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  const columns = header.map(name => name.trim().toUpperCase())
+  const get = (row: string[], column: string) =>
+    row[columns.indexOf(column)]?.trim() ?? ''
+  if (!columns.includes('CONTENT')) throw new Error('Not a Todoist export')
+
+  const tasks: TaskClass[] = []
+  let section: TaskClass | undefined
+  const parents: TaskClass[] = [] // By indent, from 1
+  for (const row of rows) {
+    const type = get(row, 'TYPE').toLowerCase()
+    const content = get(row, 'CONTENT')
+    if (type === 'note' && content) {
+      const task = tasks[tasks.length - 1]
+      if (task) task.description = describe(task.description ?? '', [], content)
+      continue
+    }
+    if (!content || (type !== 'task' && type !== 'section')) continue
+
+    // Labels are part of the content, e.g. "Water the plants @home"
+    const labels = [...content.matchAll(/(?:^|\s)@(\S+)/g)].map(m => m[1])
+    const name = content.replace(/(?:^|\s)@\S+/g, '').trim() || content
+    const due = get(row, 'DATE')
+    const dueDate = readDate(due, true)
+    const deadline = readDate(get(row, 'DEADLINE'), true)
+    const task = new TaskClass({
+      id: uuidv4(),
+      name,
+      description: describe(
+        get(row, 'DESCRIPTION'),
+        labels,
+        due && !dueDate ? `Due: ${due}` : undefined, // e.g. "every monday"
+      ),
+      addedDate: now,
+      startDate: deadline && dueDate,
+      endDate: deadline ?? dueDate,
+      status: Status.IN_PROGRESS,
+    })
+    tasks.push(task)
+
+    if (type === 'section') {
+      section = task
+      parents.length = 0
+      continue
+    }
+    const indent = Math.max(1, Number(get(row, 'INDENT')) || 1)
+    parents.length = indent - 1
+    task.parentId = (parents[indent - 2] ?? section)?.id
+    parents[indent - 1] = task
+  }
+  return linkChildren(tasks)
+}
+
+/**
+ * Read a JSON backup of Todoist tasks
+ * Either the tasks alone (REST API), or with their projects and sections
+ * (Sync API), which then become tasks holding the tasks in them.
+ */
+function parseTodoistJson(text: string, now: Date): TaskClass[] {
+  const data = tryParseJson(text)
+  const items = isObject(data) ? data.items : data
+  if (!Array.isArray(items)) throw new Error('Not a Todoist export')
+
+  const listOf = (key: string) =>
+    isObject(data) && Array.isArray(data[key])
+      ? data[key].filter(isObject).filter(item => !item.is_deleted)
+      : []
+  const tasks: TaskClass[] = []
+  const containers = new Map<string, TaskClass>() // By Todoist kind and id
+  for (const project of listOf('projects')) {
+    // Tasks in the inbox are not in any project
+    if (project.inbox_project || project.is_inbox_project) continue
+    const task = new TaskClass({
+      id: toId(`todoist-project-${project.id}`),
+      name: readString(project.name) || 'Untitled project',
+      addedDate: now,
+      status: Status.IN_PROGRESS,
+    })
+    task.parentId = project.parent_id
+      ? toId(`todoist-project-${project.parent_id}`)
+      : undefined
+    containers.set(`project-${project.id}`, task)
+  }
+  for (const section of listOf('sections')) {
+    const task = new TaskClass({
+      id: toId(`todoist-section-${section.id}`),
+      name: readString(section.name) || 'Untitled section',
+      addedDate: now,
+      status: Status.IN_PROGRESS,
+    })
+    task.parentId = containers.get(`project-${section.project_id}`)?.id
+    containers.set(`section-${section.id}`, task)
+  }
+
+  for (const item of items.filter(isObject)) {
+    if (item.is_deleted) continue
+    const due = isObject(item.due) ? item.due : undefined
+    const dueDate = readDate(due?.datetime ?? due?.date, true)
+    const deadline = isObject(item.deadline)
+      ? readDate(item.deadline.date, true)
+      : undefined
+    const task = new TaskClass({
+      id: toId(`todoist-${item.id}`),
+      name: readString(item.content) || 'Untitled task',
+      description: describe(
+        readString(item.description) ?? '',
+        readStrings(item.labels),
+        due?.is_recurring && readString(due.string)
+          ? `Repeats: ${readString(due.string)}`
+          : undefined,
+      ),
+      addedDate: readDate(item.added_at ?? item.created_at) ?? now,
+      startDate: deadline && dueDate,
+      endDate: deadline ?? dueDate,
+      status: Status.IN_PROGRESS,
+    })
+    if (item.checked || item.is_completed) {
+      markCompleted(task, readDate(item.completed_at) ?? now)
+    }
+    task.parentId = item.parent_id
+      ? toId(`todoist-${item.parent_id}`)
+      : (
+          containers.get(`section-${item.section_id}`) ??
+          containers.get(`project-${item.project_id}`)
+        )?.id
+    tasks.push(task)
+  }
+  return linkChildren([...containers.values(), ...tasks])
+}
+
+/**
+ * Tasks standing for the projects of a task list, created as needed
+ */
+class ProjectTree {
+  private projects = new Map<string, TaskClass>()
+
+  constructor(
+    private idPrefix: string,
+    private now: Date,
+  ) {}
+
+  get tasks(): TaskClass[] {
+    return Array.from(this.projects.values())
+  }
+
+  /**
+   * Get the task of a project, given its path from the top-level project
+   */
+  get(path: string[]): TaskClass {
+    const key = path.join('.')
+    if (!this.projects.has(key)) {
+      const task = new TaskClass({
+        id: toId(`${this.idPrefix}-${key}`),
+        name: path[path.length - 1],
+        addedDate: this.now,
+        status: Status.IN_PROGRESS,
+      })
+      if (path.length > 1) task.parentId = this.get(path.slice(0, -1)).id
+      this.projects.set(key, task)
+    }
+    return this.projects.get(key)!
+  }
+}
+
+const importers = new Map<string, TaskImporter>()
+
+/**
+ * Make an importer available (replaces one with the same id)
+ */
+export function registerImporter(importer: TaskImporter): void {
+  importers.set(importer.id, importer)
+}
+
+/**
+ * Get all registered importers, in registration order
+ */
+export function getImporters(): TaskImporter[] {
+  return Array.from(importers.values())
+}
+
+/**
+ * Get an importer by id
+ */
+export function getImporter(id: string): TaskImporter | undefined {
+  return importers.get(id)
+}
+
+/**
+ * Find the importer that can read a file, if any
+ */
+export function detectImporter(text: string): TaskImporter | undefined {
+  return getImporters().find(importer => importer.detect(text))
+}
+
+function markCompleted(task: TaskClass, date: Date) {
+  task.status = Status.COMPLETED
+  task.updateCompletedDate(date)
+}
+
+/**
+ * Fill in the subtasks of each task from the parents of the others
+ * Parents and dependencies that are not in the list are dropped.
+ */
+function linkChildren(tasks: TaskClass[]): TaskClass[] {
+  const taskMap = new Map(tasks.map(task => [task.id, task]))
+  for (const task of tasks) {
+    const parent = task.parentId ? taskMap.get(task.parentId) : undefined
+    if (parent) parent.childIds.push(task.id)
+    else task.parentId = undefined
+    task.dependsOn = task.dependsOn.filter(id => taskMap.has(id))
+  }
+  return tasks
+}
+
+/**
+ * Put the text of a task together with its labels and other details
+ */
+function describe(
+  text: string,
+  labels: string[],
+  ...details: (string | undefined)[]
+): string | undefined {
+  const parts = [
+    text.trim(),
+    labels.length > 0 ? `Labels: ${labels.join(', ')}` : '',
+    ...details.map(detail => detail?.trim() ?? ''),
+  ]
+  return parts.filter(Boolean).join('\n\n') || undefined
+}
+
+/**
+ * Make an id usable in task URLs
+ */
+function toId(value: string): string {
+  return value.trim().replace(/[^\w.~-]/g, '-')
+}
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function readStrings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : []
+}
+
+/**
+ * Read an ISO date (e.g. "2026-01-10T17:00:00Z")
+ * Dates without a time are at the start of the day, or the end of it for
+ * deadlines, in local time.
+ */
+function readDate(value: unknown, endOfDay = false): Date | undefined {
+  if (typeof value !== 'string') return undefined
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  const date = dateOnly
+    ? endOfDay
+      ? new Date(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3], 23, 59, 59)
+      : new Date(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3])
+    : /^\d{4}-\d{2}-\d{2}T/.test(value)
+      ? new Date(value)
+      : undefined
+  return date && !isNaN(date.getTime()) ? date : undefined
+}
+
+/**
+ * Read a date as Taskwarrior exports it (e.g. "20260105T090000Z")
+ */
+function readTaskwarriorDate(value: unknown): Date | undefined {
+  return typeof value === 'string' && /^\d{8}T\d{6}Z$/.test(value)
+    ? parseICalDateTime(value)
+    : undefined
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field])
+  return rows.filter(fields => fields.some(Boolean))
+}
+
+registerImporter(taskwarriorImporter)
+registerImporter(todoistImporter)
+registerImporter(githubImporter)
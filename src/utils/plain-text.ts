@@ -0,0 +1,260 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Status, TaskClass } from '@/models/TaskClass'
+
+/**
+ * Tasks as plain-text lists: todo.txt and Markdown checklists
+ *
+ * Both formats list tasks in the order of the task tree, leaving out the
+ * tasks in the trash. In todo.txt (http://todotxt.org), a subtask refers to
+ * its parent as a +project, named after the parent's name; deadlines and
+ * start dates are `due:` and `t:` (threshold) keys. In Markdown, subtasks are
+ * indented under their parent.
+ *
+ * Neither format has ids, so imported tasks are always new ones.
+ */
+
+export type PlainTextFormat = 'todotxt' | 'markdown'
+
+const INDENT = '  ' // Per level of a Markdown checklist
+const TAB_WIDTH = 4
+
+/**
+ * Format tasks as todo.txt lines
+ * Priorities are computed by the planner rather than set on tasks, so the
+ * ones to write (e.g. 'A') are given by task id.
+ */
+export function formatTodoTxt(
+  tasks: TaskClass[],
+  priorities: Map<string, string> = new Map(),
+): string {
+  const ordered = walkTree(tasks).map(({ task }) => task)
+  const tags = getProjectTags(ordered)
+
+  const lines = ordered.map(task => {
+    const words: string[] = []
+    if (task.completed) {
+      words.push('x', formatDate(task.completedDate ?? task.addedDate))
+    } else if (priorities.has(task.id)) {
+      words.push(`(${priorities.get(task.id)})`)
+    }
+    words.push(formatDate(task.addedDate), toSingleLine(task.name))
+
+    const parentTag = task.parentId && tags.get(task.parentId)
+    if (parentTag) words.push(`+${parentTag}`)
+    if (task.endDate) words.push(`due:${formatDate(task.endDate)}`)
+    if (task.startDate) words.push(`t:${formatDate(task.startDate)}`)
+    return words.join(' ')
+  })
+  return lines.map(line => `${line}\n`).join('')
+}
+
+/**
+ * Read todo.txt lines as tasks
+ * The first +project of a task makes it a subtask of the task of that name
+ * (added if there is none), other projects and @contexts stay in its name.
+ * Priorities are left out, as the planner works them out itself.
+ */
+export function parseTodoTxt(
+  text: string,
+  now: Date = new Date(),
+): TaskClass[] {
+  const tasks: TaskClass[] = []
+  const projects = new Map<TaskClass, string>()
+
+  for (const line of text.split(/\r?\n/)) {
+    const words = line.trim().split(/\s+/).filter(Boolean)
+    if (words.length === 0) continue
+
+    const completed = words[0] === 'x'
+    if (completed) words.shift()
+    else if (/^\([A-Z]\)$/.test(words[0])) words.shift()
+    // Completed tasks start with their completion date, then creation date
+    const completedDate =
+      completed && isDate(words[0]) ? parseDate(words.shift()!) : undefined
+    const addedDate = isDate(words[0])
+      ? parseDate(words.shift()!)
+      : (completedDate ?? now)
+
+    let project: string | undefined
+    let endDate: Date | undefined
+    let startDate: Date | undefined
+    const nameWords = words.filter(word => {
+      const [key, value] = word.split(/:(.*)/)
+      if (key === 'due' && isDate(value)) {
+        endDate = parseDate(value, true)
+      } else if (key === 't' && isDate(value)) {
+        startDate = parseDate(value)
+      } else if (/^\+\S/.test(word) && project === undefined) {
+        project = word.slice(1)
+      } else {
+        return true
+      }
+      return false
+    })
+
+    const task = new TaskClass({
+      id: uuidv4(),
+      name: nameWords.join(' ') || 'Untitled task',
+      addedDate,
+      startDate,
+      endDate,
+      status: completed ? Status.COMPLETED : Status.IN_PROGRESS,
+      completedDate: completed ? (completedDate ?? addedDate) : undefined,
+    })
+    tasks.push(task)
+    if (project) projects.set(task, project)
+  }
+
+  const taskMap = new Map(tasks.map(task => [task.id, task]))
+  const projectTasks = new Map(
+    [...getProjectTags(tasks)].map(([id, tag]) => [tag, taskMap.get(id)!]),
+  )
+  for (const [task, project] of projects) {
+    let parent = projectTasks.get(project)
+    if (!parent) {
+      parent = new TaskClass({
+        id: uuidv4(),
+        name: project,
+        addedDate: now,
+        status: Status.IN_PROGRESS,
+      })
+      tasks.push(parent)
+      projectTasks.set(project, parent)
+    }
+    setParent(task, parent, tasks)
+  }
+  return tasks
+}
+
+/**
+ * Format tasks as a nested Markdown checklist
+ */
+export function formatMarkdownChecklist(tasks: TaskClass[]): string {
+  return walkTree(tasks)
+    .map(
+      ({ task, depth }) =>
+        `${INDENT.repeat(depth)}- [${task.completed ? 'x' : ' '}] ${toSingleLine(task.name)}\n`,
+    )
+    .join('')
+}
+
+/**
+ * Read the items of a Markdown list as tasks
+ * Items indented under another one are its subtasks, and checked items are
+ * completed. Lines that are not list items (e.g. headings) are skipped.
+ */
+export function parseMarkdownChecklist(
+  text: string,
+  now: Date = new Date(),
+): TaskClass[] {
+  const tasks: TaskClass[] = []
+  const parents: { indent: number; task: TaskClass }[] = []
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(
+      /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s*)?(.*)$/,
+    )
+    if (!match || !match[3].trim()) continue
+
+    const indent = match[1].replace(/\t/g, ' '.repeat(TAB_WIDTH)).length
+    const completed = match[2]?.toLowerCase() === 'x'
+    const task = new TaskClass({
+      id: uuidv4(),
+      name: match[3].trim(),
+      addedDate: now,
+      status: completed ? Status.COMPLETED : Status.IN_PROGRESS,
+      completedDate: completed ? now : undefined,
+    })
+
+    while (parents.length > 0 && parents[parents.length - 1].indent >= indent) {
+      parents.pop()
+    }
+    const parent = parents[parents.length - 1]?.task
+    if (parent) setParent(task, parent, tasks)
+    parents.push({ indent, task })
+    tasks.push(task)
+  }
+  return tasks
+}
+
+/**
+ * List the tasks not in the trash, each followed by its subtasks
+ * Tasks whose parent is left out are listed as top-level tasks.
+ */
+function walkTree(tasks: TaskClass[]): { task: TaskClass; depth: number }[] {
+  const taskMap = new Map(
+    tasks.filter(task => !task.tombstoned).map(task => [task.id, task]),
+  )
+  const result: { task: TaskClass; depth: number }[] = []
+  const visit = (task: TaskClass, depth: number) => {
+    result.push({ task, depth })
+    for (const childId of task.childIds) {
+      const child = taskMap.get(childId)
+      if (child?.parentId === task.id) visit(child, depth + 1)
+    }
+  }
+  for (const task of taskMap.values()) {
+    if (!task.parentId || !taskMap.has(task.parentId)) visit(task, 0)
+  }
+  return result
+}
+
+/**
+ * Make a task the subtask of another, unless that makes a cycle
+ */
+function setParent(task: TaskClass, parent: TaskClass, tasks: TaskClass[]) {
+  const taskMap = new Map(tasks.map(t => [t.id, t]))
+  for (
+    let ancestor: TaskClass | undefined = parent;
+    ancestor;
+    ancestor = ancestor.parentId ? taskMap.get(ancestor.parentId) : undefined
+  ) {
+    if (ancestor === task) return
+  }
+  task.parentId = parent.id
+  parent.childIds.push(task.id)
+}
+
+/**
+ * Name a todo.txt project after each task (projects cannot have spaces)
+ * Tasks with the same name get numbered tags, in the order of the list, so
+ * that reading the lines back finds the same tasks.
+ */
+function getProjectTags(tasks: TaskClass[]): Map<string, string> {
+  const tags = new Map<string, string>()
+  const used = new Set<string>()
+  for (const task of tasks) {
+    const base = task.name.trim().replace(/\s+/g, '-')
+    let tag = base
+    for (let n = 2; used.has(tag); n++) tag = `${base}-${n}`
+    tags.set(task.id, tag)
+    used.add(tag)
+  }
+  return tags
+}
+
+function toSingleLine(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, ' ')
+}
+
+function isDate(value: string | undefined): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value)
+}
+
+/**
+ * Format a date as YYYY-MM-DD, in local time
+ */
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Parse a YYYY-MM-DD date, at the start (or end) of the day in local time
+ */
+function parseDate(value: string, endOfDay = false): Date {
+  const [year, month, day] = value.split('-').map(Number)
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59)
+    : new Date(year, month - 1, day)
+}
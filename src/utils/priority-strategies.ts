@@ -0,0 +1,283 @@
+import type { TaskClass } from '@/models/TaskClass'
+import {
+  DEFAULT_PRIORITY_WEIGHTS,
+  getClosedTaskBreakdown,
+  getDaysUntilDeadline,
+  getDeadlineFactors,
+  getPriorityBreakdown,
+  isOverdue,
+  sumPoints,
+  type DefaultPriorityWeights,
+  type GraphLike,
+  type PriorityBreakdown,
+  type PriorityFactor,
+  type PriorityScorer,
+} from './priority'
+
+/**
+ * Pluggable priority strategies
+ *
+ * A strategy turns a task into a priority breakdown, using a set of weights
+ * the user can tune in the settings. Strategies are looked up by id from a
+ * registry, so new ones only need to call `registerPriorityStrategy`.
+ */
+
+export type PriorityWeights = Record<string, number>
+
+/**
+ * A weight of a strategy that can be tuned in the settings
+ */
+export interface PriorityWeightOption {
+  key: string
+  label: string
+  defaultValue: number
+}
+
+export interface PriorityStrategy {
+  id: string
+  name: string
+  description: string
+  weights: PriorityWeightOption[] // Must include `focusThreshold`
+  explain: (
+    task: TaskClass,
+    graph: GraphLike,
+    allTasks: Map<string, TaskClass>,
+    weights: PriorityWeights,
+  ) => PriorityBreakdown
+}
+
+export const DEFAULT_STRATEGY_ID = 'default'
+
+const FOCUS_THRESHOLD_OPTION_LABEL = 'Focus Now threshold'
+
+/**
+ * Option for a weight of the default algorithm, defaulting to its usual points
+ */
+function defaultWeightOption(
+  key: keyof DefaultPriorityWeights,
+  label: string,
+): PriorityWeightOption {
+  return { key, label, defaultValue: DEFAULT_PRIORITY_WEIGHTS[key] }
+}
+
+/**
+ * Points for the default algorithm from a strategy's resolved weights
+ * The ones the strategy does not let the user tune keep their usual points.
+ */
+function toDefaultWeights(weights: PriorityWeights): DefaultPriorityWeights {
+  const result = { ...DEFAULT_PRIORITY_WEIGHTS }
+  for (const key of Object.keys(result) as (keyof DefaultPriorityWeights)[]) {
+    if (key in weights) result[key] = weights[key]
+  }
+  return result
+}
+
+const DEADLINE_WEIGHT_OPTIONS = [
+  defaultWeightOption('overdue', 'Overdue'),
+  defaultWeightOption('perOverdueDay', 'Per day overdue'),
+  defaultWeightOption('dueThisWeek', 'Due today'),
+  defaultWeightOption('dueThisMonth', 'Due in a week'),
+]
+
+/**
+ * The original algorithm: deadlines, subtasks and start dates
+ */
+const defaultStrategy: PriorityStrategy = {
+  id: DEFAULT_STRATEGY_ID,
+  name: 'Balanced',
+  description:
+    'Deadlines first, then tasks with open subtasks and tasks that should have started. Blockers inherit the urgency of the tasks they hold up.',
+  weights: [
+    ...DEADLINE_WEIGHT_OPTIONS,
+    defaultWeightOption('activeChildren', 'Unfinished subtasks'),
+    defaultWeightOption('momentum', 'All subtasks done'),
+    defaultWeightOption('startReached', 'Start date reached'),
+    defaultWeightOption('startSoon', 'Starting within 3 days'),
+    defaultWeightOption('perRollover', 'Per rollover'),
+    defaultWeightOption('focusThreshold', FOCUS_THRESHOLD_OPTION_LABEL),
+  ],
+  explain: (task, graph, allTasks, weights) =>
+    getPriorityBreakdown(task, graph, allTasks, toDefaultWeights(weights)),
+}
+
+/**
+ * Only the task's own deadline counts
+ */
+const deadlineOnlyStrategy: PriorityStrategy = {
+  id: 'deadline-only',
+  name: 'Deadline only',
+  description:
+    'Tasks are ranked by their (soft) deadline alone. Subtasks, start dates and blocked work are not taken into account.',
+  weights: [
+    ...DEADLINE_WEIGHT_OPTIONS,
+    {
+      key: 'focusThreshold',
+      label: FOCUS_THRESHOLD_OPTION_LABEL,
+      defaultValue: 300,
+    },
+  ],
+  explain: (task, _graph, _allTasks, weights) => {
+    const closed = getClosedTaskBreakdown(task)
+    if (closed) return closed
+
+    const factors = getDeadlineFactors(task, toDefaultWeights(weights))
+    return { total: sumPoints(factors), factors }
+  },
+}
+
+/**
+ * Get why a task is important, if it is
+ * Important tasks hold up other work (open dependents or subtasks) or have a
+ * deadline set by the user
+ */
+function getImportanceReason(
+  task: TaskClass,
+  graph: GraphLike,
+  allTasks: Map<string, TaskClass>,
+): string | undefined {
+  const isOpenTask = (id: string) => {
+    const other = allTasks.get(id)
+    return (
+      !!other &&
+      !other.completed &&
+      other.status !== 'Ignored' &&
+      !other.tombstoned
+    )
+  }
+
+  const blocked = graph.getDependentIds(task.id).filter(isOpenTask).length
+  if (blocked > 0) {
+    return blocked === 1 ? 'Blocks 1 task' : `Blocks ${blocked} tasks`
+  }
+  if (graph.getChildrenIds(task.id).some(isOpenTask)) {
+    return 'Has unfinished subtasks'
+  }
+  if (task.endDate) {
+    return 'Has a deadline'
+  }
+  return undefined
+}
+
+/**
+ * Urgent/important matrix: "do first" tasks are both, followed by important,
+ * then urgent, then neither. Within a quadrant, earlier deadlines come first.
+ */
+const eisenhowerStrategy: PriorityStrategy = {
+  id: 'eisenhower',
+  name: 'Eisenhower',
+  description:
+    'Urgent tasks are due within a few days. Important tasks block other tasks, have unfinished subtasks or have a deadline. Tasks that are both come first.',
+  weights: [
+    { key: 'urgentDays', label: 'Urgent within (days)', defaultValue: 2 },
+    { key: 'urgent', label: 'Urgent', defaultValue: 300 },
+    { key: 'important', label: 'Important', defaultValue: 500 },
+    { key: 'perDayCloser', label: 'Per day closer', defaultValue: 5 },
+    {
+      key: 'focusThreshold',
+      label: FOCUS_THRESHOLD_OPTION_LABEL,
+      defaultValue: 800,
+    },
+  ],
+  explain: (task, graph, allTasks, weights) => {
+    const closed = getClosedTaskBreakdown(task)
+    if (closed) return closed
+
+    const factors: PriorityFactor[] = []
+    const daysUntil = getDaysUntilDeadline(task)
+
+    if (isOverdue(task) || daysUntil <= weights.urgentDays) {
+      factors.push({
+        key: 'urgent',
+        label: 'Urgent',
+        points: weights.urgent,
+        detail: isOverdue(task)
+          ? 'Overdue'
+          : daysUntil === 0
+            ? 'Due today'
+            : `Due in ${daysUntil === 1 ? '1 day' : `${daysUntil} days`}`,
+      })
+    }
+
+    const importance = getImportanceReason(task, graph, allTasks)
+    if (importance) {
+      factors.push({
+        key: 'important',
+        label: 'Important',
+        points: weights.important,
+        detail: importance,
+      })
+    }
+
+    // Tie-breaker within a quadrant, over the next month
+    const closeness = Math.max(0, 30 - daysUntil)
+    if (closeness > 0 && weights.perDayCloser > 0) {
+      factors.push({
+        key: 'deadline',
+        label: 'Deadline proximity',
+        points: closeness * weights.perDayCloser,
+      })
+    }
+
+    return { total: sumPoints(factors), factors }
+  },
+}
+
+const strategies = new Map<string, PriorityStrategy>()
+
+/**
+ * Make a strategy available in the settings (replaces one with the same id)
+ */
+export function registerPriorityStrategy(strategy: PriorityStrategy): void {
+  strategies.set(strategy.id, strategy)
+}
+
+/**
+ * Get all registered strategies, in registration order
+ */
+export function getPriorityStrategies(): PriorityStrategy[] {
+  return Array.from(strategies.values())
+}
+
+/**
+ * Get a strategy by id, falling back to the default strategy for unknown ids
+ * (e.g. a saved setting for a strategy that no longer exists)
+ */
+export function getPriorityStrategy(id: string): PriorityStrategy {
+  return strategies.get(id) ?? strategies.get(DEFAULT_STRATEGY_ID)!
+}
+
+/**
+ * Get a strategy's weights, with the user's overrides applied
+ * Overrides for unknown keys are dropped
+ */
+export function resolvePriorityWeights(
+  strategy: PriorityStrategy,
+  overrides: PriorityWeights = {},
+): PriorityWeights {
+  const weights: PriorityWeights = {}
+  for (const option of strategy.weights) {
+    const value = overrides[option.key]
+    weights[option.key] = Number.isFinite(value) ? value : option.defaultValue
+  }
+  return weights
+}
+
+/**
+ * Create a scorer for the weekly planner from a strategy and the user's weights
+ */
+export function createPriorityScorer(
+  strategyId: string,
+  overrides: PriorityWeights = {},
+): PriorityScorer {
+  const strategy = getPriorityStrategy(strategyId)
+  const weights = resolvePriorityWeights(strategy, overrides)
+  return {
+    explain: (task, graph, allTasks) =>
+      strategy.explain(task, graph, allTasks, weights),
+    focusThreshold: weights.focusThreshold,
+  }
+}
+
+registerPriorityStrategy(defaultStrategy)
+registerPriorityStrategy(eisenhowerStrategy)
+registerPriorityStrategy(deadlineOnlyStrategy)
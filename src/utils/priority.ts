@@ -1,4 +1,12 @@
 import type { TaskClass } from '@/models/TaskClass'
+import {
+  getCalendar,
+  getEndOfWeek,
+  getEndOfWorkWeek,
+  getStartOfWeek,
+} from './calendar'
+
+export { getEndOfWeek, getStartOfWeek }
 
 /**
  * Interface for graph operations needed by priority calculations
@@ -7,36 +15,64 @@ import type { TaskClass } from '@/models/TaskClass'
 export interface GraphLike {
   getChildrenIds: (taskId: string) => string[]
   getParentId: (taskId: string) => string | undefined
+  getDependencyIds: (taskId: string) => string[]
+  getDependentIds: (taskId: string) => string[]
+}
+
+/**
+ * A deadline a task inherits from one of its ancestors
+ */
+export interface InheritedDeadline {
+  deadline: Date
+  fromId: string // The ancestor the deadline comes from
+}
+
+/**
+ * Get the earliest deadline among a task's unfinished ancestors
+ * Subtasks have to be done before their parents, so a subtask without a
+ * deadline of its own is due by then at the latest.
+ * Returns undefined if the task has a deadline or no ancestor has one.
+ */
+export function getInheritedDeadline(
+  task: TaskClass,
+  graph: GraphLike,
+  allTasks: Map<string, TaskClass>,
+): InheritedDeadline | undefined {
+  if (task.endDate) return undefined
+
+  let inherited: InheritedDeadline | undefined
+  for (const ancestorId of getParentChainIds(task.id, graph)) {
+    const ancestor = allTasks.get(ancestorId)
+    if (!ancestor?.endDate || !isOpen(ancestor)) continue
+    if (!inherited || ancestor.endDate < inherited.deadline) {
+      inherited = { deadline: ancestor.endDate, fromId: ancestor.id }
+    }
+  }
+  return inherited
 }
 
 /**
- * Calculate the soft deadline for a task (end of Friday of the week when task was created)
+ * Calculate the soft deadline for a task
+ * Uses, in order: the deadline inherited from an ancestor (see
+ * `getInheritedDeadline`), the deadline estimated from completed tasks (see
+ * `estimateSchedule`), or the end of the last working day of the week when the
+ * task was created (see `getEndOfWorkWeek`)
  */
 export function calculateSoftDeadline(task: TaskClass): Date {
   if (task.endDate) {
     return task.endDate
   }
 
-  // Calculate end of Friday (day 5) of the week when task was created
-  const createdDate = new Date(task.addedDate)
-  const dayOfWeek = createdDate.getDay() // 0 = Sunday, 5 = Friday, 6 = Saturday
-
-  let daysUntilFriday = 5 - dayOfWeek
-
-  // If the task is added on Saturday (6) or Sunday (0), move to next Friday
-  if (dayOfWeek === 6) {
-    daysUntilFriday = 6 // Saturday to next Friday
-  } else if (dayOfWeek === 0) {
-    daysUntilFriday = 5 // Sunday to next Friday
+  if (task.inheritedDeadline) {
+    return task.inheritedDeadline.deadline
   }
 
-  const fridayDate = new Date(createdDate)
-  fridayDate.setDate(createdDate.getDate() + daysUntilFriday)
-
-  // Set to end of day (23:59:59)
-  fridayDate.setHours(23, 59, 59, 999)
+  if (task.scheduleEstimate) {
+    return task.scheduleEstimate.deadline
+  }
 
-  return fridayDate
+  // End of the last working day of the week when the task was created
+  return getEndOfWorkWeek(new Date(task.addedDate))
 }
 
 /**
@@ -60,56 +96,354 @@ export function isOverdue(task: TaskClass): boolean {
 }
 
 /**
- * Calculate priority score for a task
- * Higher score = higher priority
- *
- * Factors:
- * - Overdue: +1000 points
- * - Days until deadline: score decreases as deadline approaches
- * - Blocking other tasks: +200 points (has children that depend on it)
- * - Subtask completion: small boost based on progress
+ * Check if a task still needs work (neither completed, ignored nor tombstoned)
  */
-export function calculatePriorityScore(
+function isOpen(task: TaskClass): boolean {
+  return !task.completed && task.status !== 'Ignored' && !task.tombstoned
+}
+
+/**
+ * Get the unfinished tasks a task depends on (its open blockers)
+ */
+export function getOpenBlockers(
   task: TaskClass,
   graph: GraphLike,
   allTasks: Map<string, TaskClass>,
-): number {
-  // Skip completed or ignored tasks
-  if (task.completed || task.status === 'Ignored') {
-    return -1000
-  }
+): TaskClass[] {
+  return graph
+    .getDependencyIds(task.id)
+    .map(id => allTasks.get(id))
+    .filter((t): t is TaskClass => !!t && isOpen(t))
+}
+
+/**
+ * Check if a task is blocked by at least one unfinished dependency
+ */
+export function isBlocked(
+  task: TaskClass,
+  graph: GraphLike,
+  allTasks: Map<string, TaskClass>,
+): boolean {
+  return getOpenBlockers(task, graph, allTasks).length > 0
+}
+
+export type PriorityFactorKey =
+  | 'overdue'
+  | 'deadline'
+  | 'blocking'
+  | 'urgentSubtask'
+  | 'activeChildren'
+  | 'momentum'
+  | 'startDate'
+  | 'rollover'
+  | 'urgent'
+  | 'important'
+  | 'closed'
+
+/**
+ * One contribution to a task's priority score
+ */
+export interface PriorityFactor {
+  key: PriorityFactorKey
+  label: string
+  points: number
+  detail?: string // Why the factor applies (e.g. "3 days overdue")
+}
+
+/**
+ * A priority score together with the factors it is made of
+ */
+export interface PriorityBreakdown {
+  total: number
+  factors: PriorityFactor[]
+}
+
+/**
+ * Points given by the default priority algorithm (see `getPriorityBreakdown`)
+ */
+export interface DefaultPriorityWeights {
+  overdue: number // Any overdue task
+  perOverdueDay: number // Each day past the deadline
+  dueThisWeek: number // Due today, shrinking to 0 at 7 days
+  dueThisMonth: number // Due in 7 days, shrinking to 0 at 32 days
+  activeChildren: number // Has unfinished subtasks
+  momentum: number // All subtasks done, proportionally less for fewer
+  startReached: number // Start date reached
+  startSoon: number // Starts within 3 days
+  perRollover: number // Each time the task was carried over to another week
+  focusThreshold: number // Minimum score for "Focus Now"
+}
+
+export const DEFAULT_PRIORITY_WEIGHTS: DefaultPriorityWeights = {
+  overdue: 1000,
+  perOverdueDay: 50,
+  dueThisWeek: 350,
+  dueThisMonth: 50,
+  activeChildren: 200,
+  momentum: 50,
+  startReached: 100,
+  startSoon: 50,
+  perRollover: 100,
+  focusThreshold: 500,
+}
+
+/**
+ * Ranks tasks for the weekly planner (see `createPriorityScorer` for the
+ * configurable strategies)
+ */
+export interface PriorityScorer {
+  explain: (
+    task: TaskClass,
+    graph: GraphLike,
+    allTasks: Map<string, TaskClass>,
+  ) => PriorityBreakdown
+  focusThreshold: number // Minimum score for "Focus Now"
+}
+
+/**
+ * Add up the points of priority factors
+ */
+export function sumPoints(factors: PriorityFactor[]): number {
+  return factors.reduce((sum, factor) => sum + factor.points, 0)
+}
 
-  let score = 0
+function pluralizeDays(days: number): string {
+  return days === 1 ? '1 day' : `${days} days`
+}
 
-  // 1. Overdue tasks get massive priority boost
+/**
+ * Breakdown for completed, ignored or tombstoned tasks, which always rank last
+ * Returns undefined for tasks that still need work
+ */
+export function getClosedTaskBreakdown(
+  task: TaskClass,
+): PriorityBreakdown | undefined {
+  if (isOpen(task)) return undefined
+  const factors: PriorityFactor[] = [
+    {
+      key: 'closed',
+      label: String(task.status), // Completed, Ignored, Cancelled or Deprecated
+      points: -1000,
+    },
+  ]
+  return { total: -1000, factors }
+}
+
+/**
+ * Get the deadline-driven factors of a task's priority
+ *
+ * - Overdue: +1000 points, plus 50 per day overdue
+ * - Days until deadline: score increases as deadline approaches
+ */
+export function getDeadlineFactors(
+  task: TaskClass,
+  weights: Pick<
+    DefaultPriorityWeights,
+    'overdue' | 'perOverdueDay' | 'dueThisWeek' | 'dueThisMonth'
+  > = DEFAULT_PRIORITY_WEIGHTS,
+): PriorityFactor[] {
+  const factors: PriorityFactor[] = []
+
+  // Overdue tasks get massive priority boost
   if (isOverdue(task)) {
-    score += 1000
     // Additional points for how overdue it is
     const daysOverdue = Math.abs(getDaysUntilDeadline(task))
-    score += daysOverdue * 50
+    factors.push({
+      key: 'overdue',
+      label: 'Overdue',
+      points: weights.overdue + daysOverdue * weights.perOverdueDay,
+      detail: `${pluralizeDays(daysOverdue)} overdue`,
+    })
   }
 
-  // 2. Urgency based on days until deadline
+  // Urgency based on days until deadline
   const daysUntil = getDaysUntilDeadline(task)
   if (daysUntil >= 0) {
     // Score decreases as deadline approaches (0-7 days = 350-0, 7-30 days = 350-50, etc.)
+    let points = 0
     if (daysUntil <= 7) {
-      score += 350 - daysUntil * 50
+      points = weights.dueThisWeek - (daysUntil * weights.dueThisWeek) / 7
     } else if (daysUntil <= 30) {
-      score += 50 - (daysUntil - 7) * 2
+      points =
+        weights.dueThisMonth - ((daysUntil - 7) * weights.dueThisMonth) / 25
+    }
+    if (points > 0) {
+      factors.push({
+        key: 'deadline',
+        label: 'Deadline proximity',
+        points,
+        detail:
+          daysUntil === 0 ? 'Due today' : `Due in ${pluralizeDays(daysUntil)}`,
+      })
+    }
+  }
+
+  return factors
+}
+
+/**
+ * Calculate the deadline-driven part of a task's priority
+ * (see `getDeadlineFactors`)
+ */
+export function calculateDeadlineUrgency(
+  task: TaskClass,
+  weights: DefaultPriorityWeights = DEFAULT_PRIORITY_WEIGHTS,
+): number {
+  return sumPoints(getDeadlineFactors(task, weights))
+}
+
+/**
+ * Find the most urgent unfinished task that depends on this task, directly or
+ * transitively
+ */
+function findMostUrgentDependent(
+  task: TaskClass,
+  graph: GraphLike,
+  allTasks: Map<string, TaskClass>,
+  weights: DefaultPriorityWeights,
+): { task: TaskClass; urgency: number } | undefined {
+  let mostUrgent: { task: TaskClass; urgency: number } | undefined
+  const visited = new Set<string>([task.id])
+  const queue = [...graph.getDependentIds(task.id)]
+
+  while (queue.length > 0) {
+    const dependentId = queue.shift()!
+    if (visited.has(dependentId)) continue
+    visited.add(dependentId)
+
+    const dependent = allTasks.get(dependentId)
+    if (!dependent || !isOpen(dependent)) continue
+
+    const urgency = calculateDeadlineUrgency(dependent, weights)
+    if (!mostUrgent || urgency > mostUrgent.urgency) {
+      mostUrgent = { task: dependent, urgency }
+    }
+    queue.push(...graph.getDependentIds(dependentId))
+  }
+
+  return mostUrgent
+}
+
+/**
+ * Find the most urgent unfinished subtask of a task, at any depth
+ */
+function findMostUrgentDescendant(
+  task: TaskClass,
+  graph: GraphLike,
+  allTasks: Map<string, TaskClass>,
+  weights: DefaultPriorityWeights,
+): { task: TaskClass; urgency: number } | undefined {
+  let mostUrgent: { task: TaskClass; urgency: number } | undefined
+  const visited = new Set<string>([task.id])
+  const queue = [...graph.getChildrenIds(task.id)]
+
+  while (queue.length > 0) {
+    const childId = queue.shift()!
+    if (visited.has(childId)) continue
+    visited.add(childId)
+
+    const child = allTasks.get(childId)
+    if (!child || !isOpen(child)) continue
+
+    const urgency = calculateDeadlineUrgency(child, weights)
+    if (!mostUrgent || urgency > mostUrgent.urgency) {
+      mostUrgent = { task: child, urgency }
+    }
+    queue.push(...graph.getChildrenIds(childId))
+  }
+
+  return mostUrgent
+}
+
+/**
+ * Get the highest deadline urgency among the unfinished tasks that depend on
+ * this task, directly or transitively. A blocker inherits this urgency so it
+ * surfaces before the work it holds up.
+ */
+export function getInheritedUrgency(
+  task: TaskClass,
+  graph: GraphLike,
+  allTasks: Map<string, TaskClass>,
+  weights: DefaultPriorityWeights = DEFAULT_PRIORITY_WEIGHTS,
+): number {
+  return Math.max(
+    0,
+    findMostUrgentDependent(task, graph, allTasks, weights)?.urgency ?? 0,
+  )
+}
+
+/**
+ * Explain a task's priority score factor by factor
+ * The factors add up to `total`, which is the task's priority score.
+ *
+ * Factors (default points, see `DefaultPriorityWeights`):
+ * - Deadline urgency (see `getDeadlineFactors`); a task that blocks more
+ *   urgent work, or has a more urgent subtask, inherits that urgency instead
+ * - Unfinished subtasks: +200 points
+ * - Subtask completion: small boost based on progress
+ * - Start date: boost for tasks that should have started or start soon
+ * - Rollovers: +100 points each time the task was carried over in the
+ *   weekly review, so repeatedly postponed tasks surface
+ */
+export function getPriorityBreakdown(
+  task: TaskClass,
+  graph: GraphLike,
+  allTasks: Map<string, TaskClass>,
+  weights: DefaultPriorityWeights = DEFAULT_PRIORITY_WEIGHTS,
+): PriorityBreakdown {
+  // Skip completed or ignored tasks
+  const closed = getClosedTaskBreakdown(task)
+  if (closed) {
+    return closed
+  }
+
+  const factors: PriorityFactor[] = []
+
+  // 1-2. Deadline urgency, own or inherited from the tasks this one blocks
+  // or from its subtasks, whichever is the most urgent
+  const deadlineFactors = getDeadlineFactors(task, weights)
+  let urgency = sumPoints(deadlineFactors)
+  let inheritedFactor: PriorityFactor | undefined
+  const dependent = findMostUrgentDependent(task, graph, allTasks, weights)
+  if (dependent && dependent.urgency > urgency) {
+    urgency = dependent.urgency
+    inheritedFactor = {
+      key: 'blocking',
+      label: 'Blocks urgent work',
+      points: dependent.urgency,
+      detail: `Urgency of "${dependent.task.name}"`,
     }
   }
+  const descendant = findMostUrgentDescendant(task, graph, allTasks, weights)
+  if (descendant && descendant.urgency > urgency) {
+    inheritedFactor = {
+      key: 'urgentSubtask',
+      label: 'Urgent subtask',
+      points: descendant.urgency,
+      detail: `Urgency of "${descendant.task.name}"`,
+    }
+  }
+  if (inheritedFactor) {
+    factors.push(inheritedFactor)
+  } else {
+    factors.push(...deadlineFactors)
+  }
 
-  // 3. Blocking tasks (tasks with children) get priority boost
+  // 3. Tasks with unfinished subtasks get priority boost
   const children = graph.getChildrenIds(task.id)
   if (children && children.length > 0) {
     // Check if any children are not completed
-    const hasActiveChildren = children.some((childId: string) => {
+    const activeChildren = children.filter((childId: string) => {
       const child = allTasks.get(childId)
-      return child && !child.completed && child.status !== 'Ignored'
-    })
-    if (hasActiveChildren) {
-      score += 200
+      return child && isOpen(child)
+    }).length
+    if (activeChildren > 0) {
+      factors.push({
+        key: 'activeChildren',
+        label: 'Unfinished subtasks',
+        points: weights.activeChildren,
+        detail: `${activeChildren} of ${children.length} open`,
+      })
     }
   }
 
@@ -120,7 +454,14 @@ export function calculatePriorityScore(
       return child && child.completed
     }).length
     const completionRatio = completedChildren / children.length
-    score += completionRatio * 50
+    if (completedChildren > 0) {
+      factors.push({
+        key: 'momentum',
+        label: 'Completion momentum',
+        points: completionRatio * weights.momentum,
+        detail: `${completedChildren} of ${children.length} subtasks done`,
+      })
+    }
   }
 
   // 5. Tasks that should start soon
@@ -131,30 +472,81 @@ export function calculatePriorityScore(
     )
     if (daysUntilStart <= 0) {
       // Already should have started
-      score += 100
+      factors.push({
+        key: 'startDate',
+        label: 'Start date reached',
+        points: weights.startReached,
+        detail:
+          daysUntilStart === 0
+            ? 'Starts today'
+            : `Started ${pluralizeDays(-daysUntilStart)} ago`,
+      })
     } else if (daysUntilStart <= 3) {
       // Should start soon
-      score += 50
+      factors.push({
+        key: 'startDate',
+        label: 'Starting soon',
+        points: weights.startSoon,
+        detail: `Starts in ${pluralizeDays(daysUntilStart)}`,
+      })
     }
   }
 
-  return score
+  // 6. Tasks that keep being postponed
+  if (task.rolloverCount && task.rolloverCount > 0) {
+    factors.push({
+      key: 'rollover',
+      label: 'Rolled over',
+      points: task.rolloverCount * weights.perRollover,
+      detail:
+        task.rolloverCount === 1
+          ? 'Carried over once'
+          : `Carried over ${task.rolloverCount} times`,
+    })
+  }
+
+  return { total: sumPoints(factors), factors }
+}
+
+/**
+ * Calculate priority score for a task
+ * Higher score = higher priority
+ *
+ * See `getPriorityBreakdown` for the factors that make up the score
+ */
+export function calculatePriorityScore(
+  task: TaskClass,
+  graph: GraphLike,
+  allTasks: Map<string, TaskClass>,
+): number {
+  return getPriorityBreakdown(task, graph, allTasks).total
+}
+
+/**
+ * Scorer for the default priority algorithm with its default weights
+ */
+export const defaultPriorityScorer: PriorityScorer = {
+  explain: (task, graph, allTasks) =>
+    getPriorityBreakdown(task, graph, allTasks),
+  focusThreshold: DEFAULT_PRIORITY_WEIGHTS.focusThreshold,
 }
 
 /**
  * Get tasks relevant to the current week
- * Includes: overdue tasks, tasks starting this week, tasks ending this week
+ * Includes: overdue tasks, tasks starting this week, tasks ending this week,
+ * and (when a graph is given) the unfinished tasks blocking any of those
  */
 export function getWeeklyRelevantTasks(
   tasks: TaskClass[],
   referenceDate: Date = new Date(),
+  graph?: GraphLike,
 ): TaskClass[] {
   const startOfWeek = getStartOfWeek(referenceDate)
   const endOfWeek = getEndOfWeek(referenceDate)
 
-  return tasks.filter(task => {
-    // Skip ignored tasks
-    if (task.status === 'Ignored') {
+  const relevant = tasks.filter(task => {
+    // Skip ignored and tombstoned tasks
+    if (task.status === 'Ignored' || task.tombstoned) {
       return false
     }
 
@@ -184,30 +576,27 @@ export function getWeeklyRelevantTasks(
 
     return false
   })
-}
 
-/**
- * Get start of week (Sunday)
- */
-export function getStartOfWeek(date: Date): Date {
-  const d = new Date(date)
-  const day = d.getDay()
-  const diff = d.getDate() - day
-  const startOfWeek = new Date(d.setDate(diff))
-  startOfWeek.setHours(0, 0, 0, 0)
-  return startOfWeek
-}
+  if (!graph) {
+    return relevant
+  }
 
-/**
- * Get end of week (Saturday)
- */
-export function getEndOfWeek(date: Date): Date {
-  const d = new Date(date)
-  const day = d.getDay()
-  const diff = d.getDate() - day + 6
-  const endOfWeek = new Date(d.setDate(diff))
-  endOfWeek.setHours(23, 59, 59, 999)
-  return endOfWeek
+  // Pull in the blockers of relevant tasks, as they have to be done first
+  const taskMap = new Map(tasks.map(task => [task.id, task]))
+  const included = new Set(relevant.map(task => task.id))
+  const queue = [...relevant]
+  while (queue.length > 0) {
+    const task = queue.shift()!
+    for (const blocker of getOpenBlockers(task, graph, taskMap)) {
+      if (!included.has(blocker.id)) {
+        included.add(blocker.id)
+        relevant.push(blocker)
+        queue.push(blocker)
+      }
+    }
+  }
+
+  return relevant
 }
 
 /**
@@ -218,6 +607,8 @@ export interface TasksByFocus {
   thisWeek: TaskClass[] // Other tasks for the week
 }
 
+export const DEFAULT_MAX_FOCUS_TASKS = 5 // Don't overwhelm the user
+
 /**
  * Group parent and child tasks together when both are prioritized
  * Returns task IDs to hide (because they'll be shown as part of parent group)
@@ -240,35 +631,94 @@ export function getTasksToHideInGroup(
   return tasksToHide
 }
 
+/**
+ * Move urgent subtasks before their parents in a list sorted by priority
+ * A parent inherits the urgency of its most urgent subtask, and gets a boost
+ * for unfinished subtasks, so it would otherwise be listed first. Subtasks
+ * whose deadline is at least as urgent as the parent's own go first, since
+ * the parent can only be finished through them, and take on the parent's
+ * score so they end up in the same focus group.
+ */
+export function orderUrgentSubtasksFirst<
+  T extends { task: TaskClass; score: number },
+>(sorted: T[], graph: GraphLike): T[] {
+  const positions = new Map(
+    sorted.map((entry, index) => [entry.task.id, index]),
+  )
+  // Compare deadlines alone, whatever the strategy the scores come from
+  const urgencies = new Map(
+    sorted.map(({ task }) => [task.id, calculateDeadlineUrgency(task)]),
+  )
+
+  // The subtasks in the list that have to be placed before each task
+  const mustFollow = new Map<string, string[]>()
+  for (const { task } of sorted) {
+    for (const ancestorId of getParentChainIds(task.id, graph)) {
+      if (!positions.has(ancestorId)) continue
+      if (urgencies.get(task.id)! >= urgencies.get(ancestorId)!) {
+        mustFollow.set(ancestorId, [
+          ...(mustFollow.get(ancestorId) ?? []),
+          task.id,
+        ])
+      }
+    }
+  }
+
+  const result: T[] = []
+  const placed = new Set<string>()
+  const place = (entry: T, score: number) => {
+    if (placed.has(entry.task.id)) return
+    placed.add(entry.task.id)
+    // Subtasks keep their relative (priority) order
+    const subtasks = (mustFollow.get(entry.task.id) ?? []).sort(
+      (a, b) => positions.get(a)! - positions.get(b)!,
+    )
+    for (const id of subtasks) {
+      const subtask = sorted[positions.get(id)!]
+      place(subtask, Math.max(score, subtask.score))
+    }
+    result.push({ ...entry, score })
+  }
+  for (const entry of sorted) {
+    place(entry, entry.score)
+  }
+
+  return result
+}
+
 export function categorizeTasksByFocus(
   tasks: TaskClass[],
   graph: GraphLike,
   allTasks: Map<string, TaskClass>,
+  scorer: PriorityScorer = defaultPriorityScorer,
+  maxFocusTasks: number = DEFAULT_MAX_FOCUS_TASKS,
 ): TasksByFocus {
   // Calculate priority scores
   const tasksWithScores = tasks.map(task => ({
     task,
-    score: calculatePriorityScore(task, graph, allTasks),
+    score: scorer.explain(task, graph, allTasks).total,
   }))
 
-  // Sort by priority score (descending)
+  // Sort by priority score (descending), with urgent subtasks before their parents
   tasksWithScores.sort((a, b) => b.score - a.score)
+  const ordered = orderUrgentSubtasksFirst(tasksWithScores, graph)
 
   // Separate into focus groups
   const focusNow: TaskClass[] = []
   const thisWeek: TaskClass[] = []
 
   // Focus Now: Top priority tasks and all overdue tasks
-  // Use a threshold: tasks with score > 500 or overdue
-  const FOCUS_THRESHOLD = 500
-  const MAX_FOCUS_TASKS = 5 // Don't overwhelm the user
+  // Use a threshold: tasks scoring at least `scorer.focusThreshold` or overdue
+  // Blocked tasks stay out of Focus Now until their blockers are done
 
-  for (const { task, score } of tasksWithScores) {
+  for (const { task, score } of ordered) {
     if (score < 0) continue // Skip completed/ignored
 
-    if (
+    if (isBlocked(task, graph, allTasks)) {
+      thisWeek.push(task)
+    } else if (
       isOverdue(task) ||
-      (score >= FOCUS_THRESHOLD && focusNow.length < MAX_FOCUS_TASKS)
+      (score >= scorer.focusThreshold && focusNow.length < maxFocusTasks)
     ) {
       focusNow.push(task)
     } else {
@@ -279,14 +729,110 @@ export function categorizeTasksByFocus(
   return { focusNow, thisWeek }
 }
 
+/**
+ * Result of filling a week up to the user's capacity
+ */
+export interface CapacityPlan {
+  planned: TaskClass[] // Tasks that fit into this week, by priority
+  overflow: TaskClass[] // Tasks that do not fit, to be done next week
+  plannedEffort: number
+  totalEffort: number // Effort of all the week's tasks
+  overcommitment: number // Effort beyond capacity (0 if the week fits)
+  unestimated: number // Number of tasks without an effort estimate
+}
+
+/**
+ * Fill the week by priority score until the capacity is used
+ * Tasks are taken strictly in priority order (with urgent subtasks before
+ * their parents, see `orderUrgentSubtasksFirst`): once a task does not fit, it and
+ * every lower-priority task overflow, even if a smaller one would still fit.
+ * Tasks without an estimate count as no effort.
+ */
+export function planWeekByCapacity(
+  tasks: TaskClass[],
+  graph: GraphLike,
+  allTasks: Map<string, TaskClass>,
+  capacity: number,
+  scorer: PriorityScorer = defaultPriorityScorer,
+): CapacityPlan {
+  const scored = tasks
+    .map(task => ({
+      task,
+      score: scorer.explain(task, graph, allTasks).total,
+    }))
+    .filter(({ score }) => score >= 0) // Skip completed/ignored
+    .sort((a, b) => b.score - a.score)
+  const sorted = orderUrgentSubtasksFirst(scored, graph).map(({ task }) => task)
+
+  const planned: TaskClass[] = []
+  const overflow: TaskClass[] = []
+  let plannedEffort = 0
+  let totalEffort = 0
+  let unestimated = 0
+
+  for (const task of sorted) {
+    const effort = task.estimatedEffort ?? 0
+    if (task.estimatedEffort === undefined) {
+      unestimated++
+    }
+    totalEffort += effort
+
+    if (overflow.length === 0 && plannedEffort + effort <= capacity) {
+      planned.push(task)
+      plannedEffort += effort
+    } else {
+      overflow.push(task)
+    }
+  }
+
+  return {
+    planned,
+    overflow,
+    plannedEffort,
+    totalEffort,
+    overcommitment: Math.max(0, totalEffort - capacity),
+    unestimated,
+  }
+}
+
+/**
+ * Number of tasks to focus on now when planning by capacity
+ * These are the tasks that fit into a working day's share of the weekly
+ * capacity (at least one). Without any estimate to go by, `maxFocusTasks`.
+ */
+export function getFocusLimitByCapacity(
+  tasks: TaskClass[],
+  graph: GraphLike,
+  allTasks: Map<string, TaskClass>,
+  weeklyCapacity: number,
+  scorer: PriorityScorer = defaultPriorityScorer,
+  maxFocusTasks: number = DEFAULT_MAX_FOCUS_TASKS,
+): number {
+  const workingDays = Math.max(1, getCalendar().workingDays.length)
+  const plan = planWeekByCapacity(
+    tasks,
+    graph,
+    allTasks,
+    weeklyCapacity / workingDays,
+    scorer,
+  )
+  if (plan.unestimated === plan.planned.length + plan.overflow.length) {
+    return maxFocusTasks
+  }
+  return Math.max(1, plan.planned.length)
+}
+
 /**
  * Get upcoming tasks for specified number of weeks ahead
  * Excludes current week and ignored/completed tasks
+ * Tasks in `carryOver` (e.g. the overflow of this week's capacity plan) are
+ * added to next week's bucket
  */
 export function getUpcomingTasksByWeek(
   tasks: TaskClass[],
   weeksAhead: number = 4,
   referenceDate: Date = new Date(),
+  carryOver: TaskClass[] = [],
 ): { week: number; tasks: TaskClass[] }[] {
   const result: { week: number; tasks: TaskClass[] }[] = []
 
@@ -300,8 +846,13 @@ export function getUpcomingTasksByWeek(
     weekEnd.setHours(23, 59, 59, 999)
 
     const weekTasks = tasks.filter(task => {
-      // Skip ignored and completed tasks
-      if (task.status === 'Ignored' || task.completed) {
+      // Skip ignored, tombstoned and completed tasks
+      if (task.status === 'Ignored' || task.tombstoned || task.completed) {
+        return false
+      }
+
+      // Carried-over tasks only go to next week
+      if (carryOver.includes(task)) {
         return false
       }
 
@@ -322,6 +873,10 @@ export function getUpcomingTasksByWeek(
       return false
     })
 
+    if (weekNum === 1) {
+      weekTasks.unshift(...carryOver)
+    }
+
     if (weekTasks.length > 0) {
       result.push({
         week: weekNum,
@@ -370,7 +925,8 @@ export function getParentChainIds(taskId: string, graph: GraphLike): string[] {
 
   while (currentId) {
     const parent: string | undefined = graph.getParentId(currentId)
-    if (parent) {
+    // Stop on self-references or cycles in malformed data
+    if (parent && parent !== taskId && !chain.includes(parent)) {
       chain.push(parent)
       currentId = parent
     } else {
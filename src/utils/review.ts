@@ -0,0 +1,74 @@
+import { Status, type TaskClass } from '@/models/TaskClass'
+import { getEndOfWorkWeek, getStartOfWeek } from './calendar'
+import { calculateSoftDeadline } from './priority'
+
+/**
+ * Weekly review of leftover tasks
+ *
+ * At the start of a week, the open tasks that were due before it are reviewed
+ * one by one: rescheduled to this week, deferred to a later week, ignored or
+ * split into subtasks. Carrying a task over to another week counts as a
+ * rollover, which the priority algorithm uses to surface tasks that keep
+ * being postponed.
+ */
+
+/**
+ * Get the open tasks whose (soft) deadline fell before the current week
+ * Oldest first; a task comes before the subtasks that inherit its deadline.
+ */
+export function getLeftoverTasks(
+  tasks: TaskClass[],
+  referenceDate: Date = new Date(),
+): TaskClass[] {
+  const weekStart = getStartOfWeek(referenceDate)
+
+  return tasks
+    .filter(
+      task =>
+        !task.completed &&
+        task.status !== Status.IGNORED &&
+        !task.tombstoned &&
+        calculateSoftDeadline(task) < weekStart,
+    )
+    .map(task => ({ task, deadline: calculateSoftDeadline(task).getTime() }))
+    .sort(
+      (a, b) =>
+        a.deadline - b.deadline ||
+        Number(!!a.task.inheritedDeadline) - Number(!!b.task.inheritedDeadline),
+    )
+    .map(({ task }) => task)
+}
+
+/**
+ * Carry a task over to this week (`weeksAhead` 0) or a later week
+ * The task becomes due at the end of that week's last working day, and a
+ * deferred task doesn't start before its week. Counts as one rollover.
+ */
+export function rollOverTask(
+  task: TaskClass,
+  weeksAhead = 0,
+  referenceDate: Date = new Date(),
+): void {
+  if (weeksAhead > 0) {
+    const weekStart = getStartOfWeek(referenceDate)
+    weekStart.setDate(weekStart.getDate() + weeksAhead * 7)
+    task.startDate = weekStart
+    task.endDate = getEndOfWorkWeek(weekStart)
+  } else {
+    task.endDate = getEndOfWorkWeek(referenceDate)
+    if (task.startDate && task.startDate > task.endDate) {
+      task.startDate = undefined
+    }
+  }
+  task.rolloverCount = (task.rolloverCount ?? 0) + 1
+}
+
+/**
+ * Parse the subtasks a task is split into, one name per line
+ */
+export function parseSubtaskNames(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*]|\d+[.)])\s+/, '').trim())
+    .filter(name => name.length > 0)
+}
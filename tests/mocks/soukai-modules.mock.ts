@@ -11,4 +11,7 @@ vi.mock('soukai-solid', () => ({
       void authFetch
     }
   },
+  Tombstone: {
+    from: vi.fn(() => ({ all: vi.fn().mockResolvedValue([]) })),
+  },
 }))
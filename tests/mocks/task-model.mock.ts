@@ -10,6 +10,13 @@ export type TaskData = {
   status?: string
   subTaskUrls?: string[]
   parentTaskUrl?: string
+  dependsOnUrls?: string[]
+  recurrenceRule?: string
+  estimatedEffort?: number
+  completedDate?: Date
+  rolloverCount?: number
+  tombstoneReason?: string
+  tombstonedDate?: Date
 }
 
 export class MockTask {
@@ -22,6 +29,13 @@ export class MockTask {
   status?: string
   subTaskUrls?: string[]
   parentTaskUrl?: string
+  dependsOnUrls?: string[]
+  recurrenceRule?: string
+  estimatedEffort?: number
+  completedDate?: Date
+  rolloverCount?: number
+  tombstoneReason?: string
+  tombstonedDate?: Date
 
   static records = new Map<string, TaskData>()
   static allResponse: MockTask[] | null = null
@@ -73,6 +73,7 @@ describe('useIndexedDBStorage', () => {
       status: Status.IN_PROGRESS,
       subTaskUrls: [],
       parentTaskUrl: undefined,
+      dependsOnUrls: [],
     })
   })
 
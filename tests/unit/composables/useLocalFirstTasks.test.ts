@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { nextTick } from 'vue'
+import { effectScope, nextTick } from 'vue'
 import '../../mocks/solid-session.mock'
 import { setupPinia } from '../../helpers/pinia'
 import { useLocalFirstTasks } from '@/composables/useLocalFirstTasks'
@@ -8,6 +8,7 @@ import { useIndexedDBStorage } from '@/composables/useIndexedDBStorage'
 import { useTaskStore } from '@/stores/tasks'
 import { TaskGraph } from '@/models/TaskGraph'
 import { TaskClass, Status } from '@/models/TaskClass'
+import { RecurrenceFrequency } from '@/models/recurrence'
 import { createMockTasks } from '../../mocks/task.mock'
 import { createSolidTaskService } from '@/storage/soukai/soukai-storage'
 import { findStorage } from '@renyuneyun/solid-helper'
@@ -15,11 +16,20 @@ import { sessionState } from '../../mocks/solid-session.mock'
 
 const createSyncServiceMock = () => ({
   loadLocal: vi.fn().mockResolvedValue([]),
+  loadLocalTasks: vi.fn().mockResolvedValue([]),
   saveLocal: vi.fn(),
   sync: vi.fn().mockResolvedValue(undefined),
   deleteTask: vi.fn(),
   onStatusChange: vi.fn().mockImplementation(() => () => {}),
+  onPendingOperationsChange: vi.fn().mockImplementation(() => () => {}),
+  onTaskUrlsChange: vi.fn().mockImplementation(() => () => {}),
+  onRemoteChange: vi.fn().mockImplementation(() => () => {}),
   setRemoteService: vi.fn(),
+  setConflictResolution: vi.fn(),
+  setFeedBuilder: vi.fn(),
+  getConflicts: vi.fn().mockResolvedValue([]),
+  resolveConflict: vi.fn(),
+  resolveDeletion: vi.fn(),
   startAutoSync: vi.fn(),
   stopAutoSync: vi.fn(),
 })
@@ -37,11 +47,29 @@ const taskStoreMock = {
     taskStoreMock.taskMap.set(task.id, task)
   }),
   removeTaskClass: vi.fn((taskId: string) => {
+    const dependents = taskStoreMock.graph
+      .getDependentIds(taskId)
+      .map(id => taskStoreMock.taskMap.get(id)!)
+    for (const dependent of dependents) dependent.dependsOn = []
     taskStoreMock.taskMap.delete(taskId)
+    return dependents
   }),
   updateTaskClass: vi.fn((task: TaskClass) => {
     taskStoreMock.taskMap.set(task.id, task)
   }),
+  replaceTaskClasses: vi.fn((tasks: TaskClass[], removedIds: string[]) => {
+    for (const id of removedIds) taskStoreMock.taskMap.delete(id)
+    for (const task of tasks) taskStoreMock.taskMap.set(task.id, task)
+  }),
+  addSubTask: vi.fn((parentId: string, task: TaskClass) => {
+    taskStoreMock.taskMap.set(task.id, task)
+    taskStoreMock.taskMap.get(parentId)?.childIds.push(task.id)
+  }),
+  tombstoneTask: vi.fn((taskId: string) => {
+    const task = taskStoreMock.taskMap.get(taskId)
+    task?.tombstone()
+    return task ? [task] : []
+  }),
   convertTasksToGraph: vi.fn((tasks: TaskClass[]) => {
     const graph = TaskGraph.fromTasks(tasks)
     return { taskClasses: tasks, graph }
@@ -161,6 +189,62 @@ describe('useLocalFirstTasks', () => {
     expect(syncServiceMock.sync).toHaveBeenCalled()
   })
 
+  it('keeps new tasks in place when they are created remotely', async () => {
+    const localFirst = useLocalFirstTasks()
+    await nextTick()
+    await flushPromises()
+
+    const newTask = new TaskClass({
+      id: 'task-1',
+      name: 'Task 1',
+      addedDate: new Date('2024-01-01'),
+    })
+    await localFirst.addTask(newTask)
+
+    const [onTaskUrlsChange] = syncServiceMock.onTaskUrlsChange.mock.calls[0]
+    onTaskUrlsChange(
+      new Map([['temp:task-1', 'https://storage.example/tasks/task-1']]),
+    )
+
+    const store = useTaskStore()
+    expect(store.taskMap.get('task-1')).toBe(newTask)
+    expect(newTask.fullId).toBe('https://storage.example/tasks/task-1')
+  })
+
+  it('reloads only the tasks another tab changed', async () => {
+    const [kept, edited, deleted] = ['kept', 'edited', 'deleted'].map(
+      id => new TaskClass({ id, name: id, addedDate: new Date('2024-01-01') }),
+    )
+    for (const task of [kept, edited, deleted]) {
+      task.fullId = `https://storage.example/tasks/${task.id}`
+    }
+    syncServiceMock.loadLocal.mockResolvedValue([kept, edited, deleted])
+    useLocalFirstTasks()
+    await nextTick()
+    await flushPromises()
+    syncServiceMock.loadLocal.mockClear()
+
+    const reloaded = new TaskClass({
+      id: 'edited',
+      name: 'Edited elsewhere',
+      addedDate: new Date('2024-01-01'),
+    })
+    syncServiceMock.loadLocalTasks.mockResolvedValue([reloaded])
+    const [onRemoteChange] = syncServiceMock.onRemoteChange.mock.calls[0]
+    onRemoteChange([edited.fullId, deleted.fullId])
+    await flushPromises()
+
+    expect(syncServiceMock.loadLocalTasks).toHaveBeenCalledWith([
+      edited.fullId,
+      deleted.fullId,
+    ])
+    expect(syncServiceMock.loadLocal).not.toHaveBeenCalled()
+    const store = useTaskStore()
+    expect([...store.taskMap.keys()]).toEqual(['kept', 'edited'])
+    expect(store.taskMap.get('kept')).toBe(kept)
+    expect(store.taskMap.get('edited')).toBe(reloaded)
+  })
+
   it('removes a task and deletes it from the service', async () => {
     authenticateSession()
 
@@ -193,6 +277,287 @@ describe('useLocalFirstTasks', () => {
     expect(syncServiceMock.deleteTask).toHaveBeenCalledWith(task.fullId)
   })
 
+  it('deletes the subtasks of a removed task from the service', async () => {
+    syncServiceMock.loadLocal.mockResolvedValue([])
+
+    const localFirst = useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    const parent = new TaskClass({
+      id: 'parent',
+      name: 'Parent',
+      addedDate: new Date('2024-01-02'),
+      childIds: ['child'],
+    })
+    parent.fullId = 'https://storage.example/planner/tasks/parent'
+    const child = new TaskClass({
+      id: 'child',
+      name: 'Child',
+      addedDate: new Date('2024-01-02'),
+      parentId: 'parent',
+    })
+    child.fullId = 'https://storage.example/planner/tasks/child'
+    taskStoreMock.taskMap = new Map([
+      ['parent', parent],
+      ['child', child],
+    ])
+    taskStoreMock.graph = TaskGraph.fromTasks([parent, child])
+
+    await localFirst.removeTask(parent)
+
+    expect(syncServiceMock.deleteTask).toHaveBeenCalledWith(parent.fullId)
+    expect(syncServiceMock.deleteTask).toHaveBeenCalledWith(child.fullId)
+  })
+
+  it('saves the tasks that depended on a removed task', async () => {
+    syncServiceMock.loadLocal.mockResolvedValue([])
+
+    const localFirst = useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    const blocker = new TaskClass({
+      id: 'blocker',
+      name: 'Blocker',
+      addedDate: new Date('2024-01-02'),
+    })
+    blocker.fullId = 'https://storage.example/planner/tasks/blocker'
+    const blocked = new TaskClass({
+      id: 'blocked',
+      name: 'Blocked',
+      addedDate: new Date('2024-01-02'),
+      dependsOn: ['blocker'],
+    })
+    taskStoreMock.taskMap = new Map([
+      ['blocker', blocker],
+      ['blocked', blocked],
+    ])
+    taskStoreMock.graph = TaskGraph.fromTasks([blocker, blocked])
+
+    await localFirst.removeTask(blocker)
+
+    expect(syncServiceMock.deleteTask).toHaveBeenCalledWith(blocker.fullId)
+    expect(syncServiceMock.saveLocal).toHaveBeenCalledWith(blocked)
+    expect(blocked.dependsOn).toEqual([])
+  })
+
+  it('moves a task to the trash instead of deleting it', async () => {
+    syncServiceMock.loadLocal.mockResolvedValue([])
+
+    const localFirst = useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    const task = new TaskClass({
+      id: 'task-3',
+      name: 'Task 3',
+      addedDate: new Date('2024-01-02'),
+    })
+    taskStoreMock.taskMap.set(task.id, task)
+
+    await localFirst.tombstoneTask(task, Status.DEPRECATED, 'Outdated')
+
+    expect(taskStoreMock.tombstoneTask).toHaveBeenCalledWith(
+      'task-3',
+      Status.DEPRECATED,
+      'Outdated',
+    )
+    expect(syncServiceMock.saveLocal).toHaveBeenCalledWith(task)
+    expect(syncServiceMock.deleteTask).not.toHaveBeenCalled()
+    expect(taskStoreMock.taskMap.has('task-3')).toBe(true)
+  })
+
+  it('resolves a sync conflict and reloads the tasks', async () => {
+    const conflict = {
+      url: 'https://storage.example/planner/tasks/task-1',
+      local: { title: 'Local title' },
+      remote: { title: 'Remote title' },
+      fields: ['title'],
+    }
+    syncServiceMock.getConflicts.mockResolvedValue([conflict])
+
+    const localFirst = useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    expect(localFirst.conflicts.value).toEqual([conflict])
+
+    const resolved = new TaskClass({
+      id: 'task-1',
+      name: 'Combined title',
+      addedDate: new Date('2024-01-02'),
+    })
+    syncServiceMock.loadLocal.mockResolvedValue([resolved])
+    syncServiceMock.getConflicts.mockResolvedValue([])
+
+    await localFirst.resolveConflict(conflict.url, { title: 'Combined title' })
+
+    expect(syncServiceMock.resolveConflict).toHaveBeenCalledWith(conflict.url, {
+      title: 'Combined title',
+    })
+    expect(taskStoreMock.taskMap.get('task-1')?.name).toBe('Combined title')
+    expect(localFirst.conflicts.value).toEqual([])
+  })
+
+  it('restores a task deleted remotely and reloads the tasks', async () => {
+    const conflict = {
+      url: 'https://storage.example/planner/tasks/task-1',
+      local: { title: 'Edited title' },
+      remote: { title: 'Title' },
+      fields: ['title'],
+      deleted: true,
+    }
+    syncServiceMock.getConflicts.mockResolvedValue([conflict])
+
+    const localFirst = useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    const restored = new TaskClass({
+      id: 'task-1',
+      name: 'Edited title',
+      addedDate: new Date('2024-01-02'),
+    })
+    syncServiceMock.loadLocal.mockResolvedValue([restored])
+    syncServiceMock.getConflicts.mockResolvedValue([])
+
+    await localFirst.resolveDeletion(conflict.url, true)
+
+    expect(syncServiceMock.resolveDeletion).toHaveBeenCalledWith(
+      conflict.url,
+      true,
+    )
+    expect(taskStoreMock.taskMap.get('task-1')).toBe(restored)
+    expect(localFirst.conflicts.value).toEqual([])
+  })
+
+  it('imports a backup through the local-first path', async () => {
+    const existing = new TaskClass({
+      id: 'task-1',
+      name: 'Old name',
+      addedDate: new Date('2024-01-02'),
+    })
+    existing.fullId = 'https://storage.example/planner/tasks/task-1'
+    syncServiceMock.loadLocal.mockResolvedValue([existing])
+
+    const localFirst = useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    const plan = await localFirst.importBackup(
+      {
+        format: 'solid-planner-tasks',
+        version: 1,
+        exportedAt: '2024-02-01T00:00:00.000Z',
+        tasks: [
+          { id: 'task-1', name: 'New name', addedDate: '2024-01-02' },
+          { id: 'task-2', name: 'Added', addedDate: '2024-01-03' },
+        ],
+      },
+      'merge',
+    )
+
+    expect(plan).toEqual(expect.objectContaining({ added: 1, updated: 1 }))
+    expect(syncServiceMock.saveLocal).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'task-1',
+        name: 'New name',
+        fullId: existing.fullId,
+      }),
+    )
+    expect(syncServiceMock.saveLocal).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'task-2', fullId: undefined }),
+    )
+    expect(syncServiceMock.loadLocal).toHaveBeenCalledTimes(2)
+  })
+
+  it('previews an import before saving it', async () => {
+    syncServiceMock.loadLocal.mockResolvedValue([])
+
+    const localFirst = useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    const plan = localFirst.previewImport(
+      [
+        new TaskClass({
+          id: 'github-acme-app-1',
+          name: 'Imported',
+          addedDate: new Date('2024-01-02'),
+        }),
+      ],
+      'merge',
+    )
+
+    expect(plan).toEqual(
+      expect.objectContaining({ added: 1, importedIds: ['github-acme-app-1'] }),
+    )
+    expect(syncServiceMock.saveLocal).not.toHaveBeenCalled()
+
+    await localFirst.applyImport(plan)
+
+    expect(syncServiceMock.saveLocal).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'github-acme-app-1', name: 'Imported' }),
+    )
+  })
+
+  it('stops listening to the sync service once its scope is disposed', async () => {
+    const unsubscribes = [
+      syncServiceMock.onStatusChange,
+      syncServiceMock.onPendingOperationsChange,
+      syncServiceMock.onRemoteChange,
+      syncServiceMock.onTaskUrlsChange,
+    ].map(subscribe => {
+      const unsubscribe = vi.fn()
+      subscribe.mockReturnValue(unsubscribe)
+      return unsubscribe
+    })
+    const scope = effectScope()
+
+    scope.run(() => useLocalFirstTasks())
+    await nextTick()
+    await flushPromises()
+    scope.stop()
+
+    for (const unsubscribe of unsubscribes) {
+      expect(unsubscribe).toHaveBeenCalledTimes(1)
+    }
+  })
+
+  it('exports the tasks to focus on first in todo.txt', async () => {
+    syncServiceMock.loadLocal.mockResolvedValue([
+      new TaskClass({
+        id: 'overdue',
+        name: 'Overdue',
+        addedDate: new Date('2024-01-02'),
+        endDate: new Date('2024-01-05'),
+      }),
+      new TaskClass({
+        id: 'someday',
+        name: 'Someday',
+        addedDate: new Date('2024-01-02'),
+        endDate: new Date('2100-01-01'),
+      }),
+    ])
+
+    const localFirst = useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    const lines = localFirst.exportPlainText('todotxt').split('\n')
+    expect(lines[0]).toMatch(/^\(A\) 2024-01-02 Overdue due:2024-01-05/)
+    expect(lines[1]).toMatch(/^2024-01-02 Someday due:/)
+  })
+
   it('loads tasks on initialization without authentication', async () => {
     const tasks = createMockTasks(1)
 
@@ -207,4 +572,103 @@ describe('useLocalFirstTasks', () => {
     expect(store.tasks).toHaveLength(1)
     expect(syncServiceMock.loadLocal).toHaveBeenCalled()
   })
+
+  it('breaks parent-child cycles on load and saves the repaired tasks', async () => {
+    const [a, b] = createMockTasks(2)
+    a.parentId = b.id
+    a.childIds = [b.id]
+    b.parentId = a.id
+    b.childIds = [a.id]
+
+    syncServiceMock.loadLocal.mockResolvedValue([a, b])
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    const store = useTaskStore()
+    expect(store.tasks).toHaveLength(2)
+    expect(store.graph.isAncestor(a.id, a.id)).toBe(false)
+    expect(store.graph.isAncestor(b.id, b.id)).toBe(false)
+    expect(syncServiceMock.saveLocal).toHaveBeenCalledWith(a)
+    expect(syncServiceMock.saveLocal).toHaveBeenCalledWith(b)
+
+    warnSpy.mockRestore()
+  })
+
+  it('creates the next occurrence when a recurring task is completed', async () => {
+    syncServiceMock.loadLocal.mockResolvedValue([])
+
+    const localFirst = useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    const task = new TaskClass({
+      id: 'report',
+      name: 'Weekly Report',
+      addedDate: new Date('2026-01-01'),
+      startDate: new Date('2026-01-05T09:00:00'),
+      status: Status.IN_PROGRESS,
+      recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 1 },
+    })
+    await localFirst.addTask(task)
+
+    task.completed = true
+    await localFirst.updateTask(task)
+
+    const store = useTaskStore()
+    const next = store.tasks.find(t => t.id !== 'report')
+    expect(store.tasks).toHaveLength(2)
+    expect(next?.name).toBe('Weekly Report')
+    expect(next?.completed).toBe(false)
+    expect(next?.startDate).toEqual(new Date('2026-01-12T09:00:00'))
+    expect(next?.recurrence).toEqual({
+      frequency: RecurrenceFrequency.WEEKLY,
+      interval: 1,
+    })
+    expect(task.recurrence).toBeUndefined()
+    expect(syncServiceMock.saveLocal).toHaveBeenCalledWith(next)
+
+    // Saving the completed task again does not create another occurrence
+    await localFirst.updateTask(task)
+    expect(store.tasks).toHaveLength(2)
+  })
+
+  it('keeps the next occurrence under the same parent', async () => {
+    syncServiceMock.loadLocal.mockResolvedValue([])
+
+    const localFirst = useLocalFirstTasks()
+
+    await nextTick()
+    await flushPromises()
+
+    const parent = new TaskClass({
+      id: 'project',
+      name: 'Project',
+      addedDate: new Date('2026-01-01'),
+      childIds: ['review'],
+    })
+    const task = new TaskClass({
+      id: 'review',
+      name: 'Sprint Review',
+      addedDate: new Date('2026-01-01'),
+      endDate: new Date('2026-01-09'),
+      parentId: 'project',
+      status: Status.COMPLETED,
+      recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 2 },
+    })
+    taskStoreMock.taskMap.set(parent.id, parent)
+    taskStoreMock.taskMap.set(task.id, task)
+
+    await localFirst.updateTask(task)
+
+    const next = taskStoreMock.addSubTask.mock.calls[0][1] as TaskClass
+    expect(taskStoreMock.addSubTask).toHaveBeenCalledWith('project', next)
+    expect(next.endDate).toEqual(new Date('2026-01-23'))
+    expect(parent.childIds).toContain(next.id)
+    expect(syncServiceMock.saveLocal).toHaveBeenCalledWith(parent)
+  })
 })
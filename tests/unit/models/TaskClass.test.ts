@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, afterEach, vi } from 'vitest'
 import { TaskClass, Status } from '@/models/TaskClass'
+import { DEFAULT_CALENDAR, setCalendar } from '@/utils/calendar'
 import { createMockTask } from '../../mocks/task.mock'
 
 describe('TaskClass', () => {
@@ -75,9 +76,35 @@ describe('TaskClass', () => {
       task.completed = false
       expect(task.status).toBe(Status.IN_PROGRESS)
     })
+
+    it('should record when the task was completed', () => {
+      const task = createMockTask({ status: Status.IN_PROGRESS })
+
+      task.completed = true
+      expect(task.completedDate).toBeInstanceOf(Date)
+
+      task.completed = false
+      expect(task.completedDate).toBeUndefined()
+    })
+
+    it('should keep the first completion date when status is set directly', () => {
+      const completedDate = new Date('2024-01-10')
+      const task = createMockTask({ status: Status.COMPLETED, completedDate })
+
+      task.updateCompletedDate(new Date('2024-02-01'))
+      expect(task.completedDate).toBe(completedDate)
+
+      task.status = Status.IGNORED
+      task.updateCompletedDate()
+      expect(task.completedDate).toBeUndefined()
+    })
   })
 
   describe('effective dates', () => {
+    afterEach(() => {
+      setCalendar(DEFAULT_CALENDAR)
+    })
+
     it('should use startDate as effectiveStartDate when provided', () => {
       const addedDate = new Date('2024-01-01')
       const startDate = new Date('2024-01-05')
@@ -100,19 +127,26 @@ describe('TaskClass', () => {
       expect(task.effectiveEndDate).toBe(endDate)
     })
 
-    it('should calculate effectiveEndDate as end of week when endDate is not provided', () => {
+    it('should calculate effectiveEndDate as end of work week when endDate is not provided', () => {
       const addedDate = new Date('2024-01-01') // Monday
       const task = createMockTask({ addedDate, endDate: undefined })
 
-      const expected = new Date('2024-01-07') // Sunday
-      expected.setHours(
-        addedDate.getHours(),
-        addedDate.getMinutes(),
-        addedDate.getSeconds(),
-        addedDate.getMilliseconds(),
-      )
+      const expected = new Date(2024, 0, 5, 23, 59, 59, 999) // Friday
+
+      expect(task.effectiveEndDate).toEqual(expected)
+    })
+
+    it('should use the configured working days for effectiveEndDate', () => {
+      setCalendar({ workingDays: [0, 1, 2, 3, 4], endOfWorkday: '17:00' })
+      const task = createMockTask({
+        addedDate: new Date(2024, 0, 1, 9), // Monday
+        endDate: undefined,
+      })
 
-      expect(task.effectiveEndDate.toDateString()).toBe(expected.toDateString())
+      // Thursday, just before the end of the workday
+      expect(task.effectiveEndDate).toEqual(
+        new Date(2024, 0, 4, 16, 59, 59, 999),
+      )
     })
   })
 
@@ -224,6 +258,99 @@ describe('TaskClass', () => {
     })
   })
 
+  describe('dependencies', () => {
+    it('should default to no dependencies', () => {
+      const task = createMockTask()
+
+      expect(task.dependsOn).toEqual([])
+      expect(task.getDependencyIds()).toEqual([])
+    })
+
+    it('should add dependency IDs without duplicates', () => {
+      const task = createMockTask({ dependsOn: ['dep-1'] })
+      task.addDependencyId('dep-1')
+      task.addDependencyId('dep-2')
+
+      expect(task.getDependencyIds()).toEqual(['dep-1', 'dep-2'])
+    })
+
+    it('should not depend on itself', () => {
+      const task = createMockTask({ id: 'self' })
+      task.addDependencyId('self')
+
+      expect(task.dependsOn).toEqual([])
+    })
+
+    it('should remove dependency ID', () => {
+      const task = createMockTask({ dependsOn: ['dep-1', 'dep-2'] })
+      task.removeDependencyId('dep-1')
+
+      expect(task.dependsOn).toEqual(['dep-2'])
+    })
+
+    it('should update graph when adding and removing dependencies', () => {
+      const mockGraph = {
+        addDependency: vi.fn(),
+        removeDependency: vi.fn(),
+      }
+      const task = createMockTask()
+      task.setGraph(mockGraph)
+
+      task.addDependencyId('dep-1')
+      task.removeDependencyId('dep-1')
+
+      expect(mockGraph.addDependency).toHaveBeenCalledWith(task.id, 'dep-1')
+      expect(mockGraph.removeDependency).toHaveBeenCalledWith(task.id, 'dep-1')
+    })
+  })
+
+  describe('tombstone / restore', () => {
+    it('should cancel a task with a reason and timestamp', () => {
+      const task = createMockTask()
+      const now = new Date('2024-03-01T10:00:00')
+
+      task.tombstone(Status.CANCELLED, '  Plans changed ', now)
+
+      expect(task.status).toBe(Status.CANCELLED)
+      expect(task.tombstoned).toBe(true)
+      expect(task.tombstoneReason).toBe('Plans changed')
+      expect(task.tombstonedDate).toEqual(now)
+    })
+
+    it('should not store a blank reason', () => {
+      const task = createMockTask()
+
+      task.tombstone(Status.DEPRECATED, '   ')
+
+      expect(task.status).toBe(Status.DEPRECATED)
+      expect(task.tombstoneReason).toBeUndefined()
+    })
+
+    it('should restore an open task to in progress', () => {
+      const task = createMockTask()
+      task.tombstone(Status.CANCELLED, 'Duplicate')
+
+      task.restore()
+
+      expect(task.status).toBe(Status.IN_PROGRESS)
+      expect(task.tombstoned).toBe(false)
+      expect(task.tombstoneReason).toBeUndefined()
+      expect(task.tombstonedDate).toBeUndefined()
+    })
+
+    it('should keep the completion date of a tombstoned task', () => {
+      const completedDate = new Date('2024-02-01')
+      const task = createMockTask({ status: Status.COMPLETED, completedDate })
+      task.tombstone()
+
+      task.updateCompletedDate()
+      task.restore()
+
+      expect(task.status).toBe(Status.COMPLETED)
+      expect(task.completedDate).toEqual(completedDate)
+    })
+  })
+
   describe('fullId property', () => {
     it('should store and retrieve fullId', () => {
       const task = createMockTask()
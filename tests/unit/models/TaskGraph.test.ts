@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { TaskGraph } from '@/models/TaskGraph'
+import { TaskGraph, TaskCycleError } from '@/models/TaskGraph'
 import { createMockTask, createMockTaskHierarchy } from '../../mocks/task.mock'
 
 describe('TaskGraph', () => {
@@ -260,6 +260,186 @@ describe('TaskGraph', () => {
     })
   })
 
+  describe('cycle prevention', () => {
+    beforeEach(() => {
+      graph.setParent('child', 'parent')
+      graph.setParent('grandchild', 'child')
+    })
+
+    it('should detect moves that would create a cycle', () => {
+      expect(graph.wouldCreateCycle('parent', 'grandchild')).toBe(true)
+      expect(graph.wouldCreateCycle('parent', 'parent')).toBe(true)
+      expect(graph.wouldCreateCycle('grandchild', 'parent')).toBe(false)
+      expect(graph.wouldCreateCycle('parent', undefined)).toBe(false)
+    })
+
+    it('should throw TaskCycleError when setting a descendant as parent', () => {
+      expect(() => graph.setParent('parent', 'grandchild')).toThrow(
+        TaskCycleError,
+      )
+      expect(graph.getParentId('parent')).toBeUndefined()
+      expect(graph.getChildrenIds('grandchild')).toEqual([])
+    })
+
+    it('should throw TaskCycleError when adding an ancestor as child', () => {
+      expect(() => graph.addChild('grandchild', 'parent')).toThrow(
+        TaskCycleError,
+      )
+      expect(() => graph.addChild('parent', 'parent')).toThrow(TaskCycleError)
+      expect(graph.getParentId('parent')).toBeUndefined()
+    })
+
+    it('should report the offending task and parent on the error', () => {
+      try {
+        graph.setParent('parent', 'child')
+        expect.unreachable()
+      } catch (err) {
+        expect(err).toBeInstanceOf(TaskCycleError)
+        expect((err as TaskCycleError).taskId).toBe('parent')
+        expect((err as TaskCycleError).parentId).toBe('child')
+      }
+    })
+
+    it('should terminate traversals on cyclic data', () => {
+      const a = createMockTask({ id: 'a', parentId: 'b', childIds: ['b'] })
+      const b = createMockTask({ id: 'b', parentId: 'a', childIds: ['a'] })
+      const cyclic = TaskGraph.fromTasks([a, b])
+
+      expect(cyclic.getAllDescendantIds('a').sort()).toEqual(['a', 'b'])
+      expect(cyclic.isAncestor('c', 'a')).toBe(false)
+    })
+  })
+
+  describe('repairCycles', () => {
+    it('should break cycles along childIds', () => {
+      const a = createMockTask({ id: 'a', childIds: ['b'] })
+      const b = createMockTask({ id: 'b', parentId: 'a', childIds: ['c'] })
+      const c = createMockTask({ id: 'c', parentId: 'b', childIds: ['a'] })
+      a.parentId = 'c'
+
+      const repaired = TaskGraph.repairCycles([a, b, c])
+
+      expect(repaired).toContain(a)
+      expect(repaired).toContain(c)
+      expect(c.childIds).toEqual([])
+      expect(a.parentId).toBeUndefined()
+      expect(b.parentId).toBe('a')
+      expect(c.parentId).toBe('b')
+    })
+
+    it('should break cycles along parentId chains', () => {
+      const a = createMockTask({ id: 'a', parentId: 'b' })
+      const b = createMockTask({ id: 'b', parentId: 'a' })
+
+      const repaired = TaskGraph.repairCycles([a, b])
+
+      expect(repaired.length).toBeGreaterThan(0)
+      expect(a.parentId === undefined || b.parentId === undefined).toBe(true)
+
+      const graph = TaskGraph.fromTasks([a, b])
+      expect(graph.getRootIds().length).toBeGreaterThan(0)
+    })
+
+    it('should break self-references', () => {
+      const a = createMockTask({ id: 'a', parentId: 'a', childIds: ['a'] })
+
+      TaskGraph.repairCycles([a])
+
+      expect(a.parentId).toBeUndefined()
+      expect(a.childIds).toEqual([])
+    })
+
+    it('should leave acyclic data untouched', () => {
+      const { parent, child1, child2, grandchild } = createMockTaskHierarchy()
+
+      const repaired = TaskGraph.repairCycles([
+        parent,
+        child1,
+        child2,
+        grandchild,
+      ])
+
+      expect(repaired).toEqual([])
+      expect(parent.childIds).toEqual(['child-1', 'child-2'])
+      expect(grandchild.parentId).toBe('child-1')
+    })
+  })
+
+  describe('dependencies', () => {
+    it('should index dependencies from tasks in both directions', () => {
+      const blocker = createMockTask({ id: 'blocker' })
+      const blocked = createMockTask({ id: 'blocked', dependsOn: ['blocker'] })
+
+      const graph = TaskGraph.fromTasks([blocker, blocked])
+
+      expect(graph.getDependencyIds('blocked')).toEqual(['blocker'])
+      expect(graph.getDependentIds('blocker')).toEqual(['blocked'])
+    })
+
+    it('should add and remove dependencies', () => {
+      graph.addDependency('a', 'b')
+      graph.addDependency('a', 'b')
+
+      expect(graph.getDependencyIds('a')).toEqual(['b'])
+      expect(graph.getDependentIds('b')).toEqual(['a'])
+
+      graph.removeDependency('a', 'b')
+
+      expect(graph.getDependencyIds('a')).toEqual([])
+      expect(graph.getDependentIds('b')).toEqual([])
+    })
+
+    it('should ignore self-dependencies', () => {
+      graph.addDependency('a', 'a')
+
+      expect(graph.getDependencyIds('a')).toEqual([])
+    })
+
+    it('should get transitive dependents', () => {
+      graph.addDependency('b', 'a')
+      graph.addDependency('c', 'b')
+      graph.addDependency('d', 'b')
+
+      expect(graph.getAllDependentIds('a').sort()).toEqual(['b', 'c', 'd'])
+    })
+
+    it('should not loop on dependency cycles', () => {
+      graph.addDependency('b', 'a')
+      graph.addDependency('a', 'b')
+
+      expect(graph.getAllDependentIds('a')).toEqual(['b'])
+    })
+
+    it('should detect dependencies that would create a cycle', () => {
+      graph.addDependency('b', 'a')
+      graph.addDependency('c', 'b')
+
+      expect(graph.wouldCreateDependencyCycle('a', 'a')).toBe(true)
+      expect(graph.wouldCreateDependencyCycle('a', 'b')).toBe(true)
+      expect(graph.wouldCreateDependencyCycle('a', 'c')).toBe(true)
+      expect(graph.wouldCreateDependencyCycle('c', 'a')).toBe(false)
+      expect(graph.wouldCreateDependencyCycle('a', 'd')).toBe(false)
+    })
+
+    it('should drop dependency edges when removing a task', () => {
+      graph.setParent('a', undefined)
+      graph.setParent('b', undefined)
+      graph.addDependency('b', 'a')
+
+      graph.removeTaskAndDescendants('a')
+
+      expect(graph.getDependencyIds('b')).toEqual([])
+      expect(graph.getDependentIds('a')).toEqual([])
+    })
+
+    it('should be separate from parent-child relationships', () => {
+      graph.addDependency('b', 'a')
+
+      expect(graph.getChildrenIds('a')).toEqual([])
+      expect(graph.getParentId('b')).toBeUndefined()
+    })
+  })
+
   describe('clear', () => {
     it('should clear all relationships', () => {
       graph.setParent('child', 'parent')
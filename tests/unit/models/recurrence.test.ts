@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest'
+import {
+  RecurrenceFrequency,
+  createNextOccurrence,
+  formatRRule,
+  getNextOccurrence,
+  parseRRule,
+} from '@/models/recurrence'
+import { Status } from '@/models/TaskClass'
+import { createMockTask } from '../../mocks/task.mock'
+
+// 2026-01-05 is a Monday
+const monday = new Date(2026, 0, 5, 9, 0)
+
+describe('recurrence', () => {
+  describe('parseRRule and formatRRule', () => {
+    it('should parse a full rule', () => {
+      const rule = parseRRule(
+        'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20260301T000000Z;COUNT=4',
+      )
+
+      expect(rule).toEqual({
+        frequency: RecurrenceFrequency.WEEKLY,
+        interval: 2,
+        byWeekday: [1, 5],
+        until: new Date('2026-03-01T00:00:00.000Z'),
+        count: 4,
+      })
+    })
+
+    it('should default the interval to 1', () => {
+      expect(parseRRule('FREQ=DAILY')).toEqual({
+        frequency: RecurrenceFrequency.DAILY,
+        interval: 1,
+      })
+    })
+
+    it('should reject rules without a supported frequency', () => {
+      expect(parseRRule('INTERVAL=2')).toBeUndefined()
+      expect(parseRRule('FREQ=HOURLY')).toBeUndefined()
+    })
+
+    it('should round-trip through formatRRule', () => {
+      const value = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20260301T000000Z'
+
+      expect(formatRRule(parseRRule(value)!)).toBe(value)
+    })
+
+    it('should only write BYDAY for weekly rules', () => {
+      expect(
+        formatRRule({
+          frequency: RecurrenceFrequency.MONTHLY,
+          interval: 1,
+          byWeekday: [1],
+        }),
+      ).toBe('FREQ=MONTHLY')
+    })
+  })
+
+  describe('getNextOccurrence', () => {
+    it('should add days, weeks, months and years', () => {
+      expect(
+        getNextOccurrence(
+          { frequency: RecurrenceFrequency.DAILY, interval: 3 },
+          monday,
+        ),
+      ).toEqual(new Date(2026, 0, 8, 9, 0))
+      expect(
+        getNextOccurrence(
+          { frequency: RecurrenceFrequency.WEEKLY, interval: 1 },
+          monday,
+        ),
+      ).toEqual(new Date(2026, 0, 12, 9, 0))
+      expect(
+        getNextOccurrence(
+          { frequency: RecurrenceFrequency.MONTHLY, interval: 1 },
+          monday,
+        ),
+      ).toEqual(new Date(2026, 1, 5, 9, 0))
+      expect(
+        getNextOccurrence(
+          { frequency: RecurrenceFrequency.YEARLY, interval: 1 },
+          monday,
+        ),
+      ).toEqual(new Date(2027, 0, 5, 9, 0))
+    })
+
+    it('should clamp monthly rules to the end of shorter months', () => {
+      const next = getNextOccurrence(
+        { frequency: RecurrenceFrequency.MONTHLY, interval: 1 },
+        new Date(2026, 0, 31),
+      )
+
+      expect(next).toEqual(new Date(2026, 1, 28))
+    })
+
+    it('should move to the next listed weekday', () => {
+      const rule = {
+        frequency: RecurrenceFrequency.WEEKLY,
+        interval: 1,
+        byWeekday: [1, 3],
+      }
+
+      expect(getNextOccurrence(rule, monday)).toEqual(
+        new Date(2026, 0, 7, 9, 0),
+      )
+      expect(getNextOccurrence(rule, new Date(2026, 0, 7, 9, 0))).toEqual(
+        new Date(2026, 0, 12, 9, 0),
+      )
+    })
+
+    it('should skip weeks that are not on the interval', () => {
+      const rule = {
+        frequency: RecurrenceFrequency.WEEKLY,
+        interval: 2,
+        byWeekday: [1, 3],
+      }
+
+      // Wednesday of the same week, then Monday two weeks later
+      expect(getNextOccurrence(rule, monday)).toEqual(
+        new Date(2026, 0, 7, 9, 0),
+      )
+      expect(getNextOccurrence(rule, new Date(2026, 0, 7, 9, 0))).toEqual(
+        new Date(2026, 0, 19, 9, 0),
+      )
+    })
+
+    it('should stop at the until date', () => {
+      const rule = {
+        frequency: RecurrenceFrequency.WEEKLY,
+        interval: 1,
+        until: new Date(2026, 0, 10),
+      }
+
+      expect(getNextOccurrence(rule, monday)).toBeUndefined()
+    })
+
+    it('should stop when the count is used up', () => {
+      const rule = {
+        frequency: RecurrenceFrequency.DAILY,
+        interval: 1,
+        count: 1,
+      }
+
+      expect(getNextOccurrence(rule, monday)).toBeUndefined()
+    })
+  })
+
+  describe('createNextOccurrence', () => {
+    it('should shift start and due dates to the next occurrence', () => {
+      const task = createMockTask({
+        id: 'report',
+        name: 'Weekly Report',
+        startDate: monday,
+        endDate: new Date(2026, 0, 9, 17, 0),
+        status: Status.COMPLETED,
+        recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 1 },
+      })
+
+      const next = createNextOccurrence(task, 'report-2')!
+
+      expect(next.id).toBe('report-2')
+      expect(next.name).toBe('Weekly Report')
+      expect(next.status).toBe(Status.IN_PROGRESS)
+      expect(next.startDate).toEqual(new Date(2026, 0, 12, 9, 0))
+      expect(next.endDate).toEqual(new Date(2026, 0, 16, 17, 0))
+      expect(next.recurrence).toEqual(task.recurrence)
+      expect(next.recurrence).not.toBe(task.recurrence)
+    })
+
+    it('should anchor on the due date if there is no start date', () => {
+      const task = createMockTask({
+        endDate: monday,
+        recurrence: { frequency: RecurrenceFrequency.MONTHLY, interval: 1 },
+      })
+
+      const next = createNextOccurrence(task, 'next')!
+
+      expect(next.startDate).toBeUndefined()
+      expect(next.endDate).toEqual(new Date(2026, 1, 5, 9, 0))
+    })
+
+    it('should give undated tasks the occurrence as start date', () => {
+      const task = createMockTask({
+        addedDate: monday,
+        recurrence: { frequency: RecurrenceFrequency.DAILY, interval: 1 },
+      })
+
+      const next = createNextOccurrence(task, 'next')!
+
+      expect(next.startDate).toEqual(new Date(2026, 0, 6, 9, 0))
+      expect(next.endDate).toBeUndefined()
+    })
+
+    it('should count down the remaining occurrences', () => {
+      const task = createMockTask({
+        startDate: monday,
+        recurrence: {
+          frequency: RecurrenceFrequency.DAILY,
+          interval: 1,
+          count: 2,
+        },
+      })
+
+      const next = createNextOccurrence(task, 'next')!
+
+      expect(next.recurrence?.count).toBe(1)
+      expect(createNextOccurrence(next, 'after-next')).toBeUndefined()
+    })
+
+    it('should keep the parent task', () => {
+      const task = createMockTask({
+        parentId: 'project',
+        startDate: monday,
+        recurrence: { frequency: RecurrenceFrequency.DAILY, interval: 1 },
+      })
+
+      expect(createNextOccurrence(task, 'next')?.parentId).toBe('project')
+    })
+
+    it('should return undefined for non-recurring tasks', () => {
+      expect(createNextOccurrence(createMockTask(), 'next')).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  createConditionalFetch,
+  isPreconditionFailed,
+  PreconditionFailedError,
+  type CachedResource,
+} from '@/storage/soukai/conditional-fetch'
+
+const url = 'https://pod.example/planner/tasks/task-1'
+
+function createCache(resources: CachedResource[] = []) {
+  const stored = new Map(resources.map(resource => [resource.url, resource]))
+  return {
+    stored,
+    getResource: vi.fn(async (key: string) => stored.get(key)),
+    saveResource: vi.fn(async (resource: CachedResource) => {
+      stored.set(resource.url, resource)
+    }),
+    deleteResource: vi.fn(async (key: string) => {
+      stored.delete(key)
+    }),
+  }
+}
+
+const sentHeaders = (fetchFn: ReturnType<typeof vi.fn>) =>
+  new Headers((fetchFn.mock.calls[0][1] as RequestInit).headers)
+
+describe('createConditionalFetch', () => {
+  const cached: CachedResource = {
+    url,
+    etag: '"v1"',
+    body: '<#it> a <Task> .',
+    contentType: 'text/turtle',
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should cache a resource read with its ETag', async () => {
+    const cache = createCache()
+    const fetchFn = vi.fn(
+      async () =>
+        new Response('<#it> a <Task> .', {
+          headers: { ETag: '"v1"', 'Content-Type': 'text/turtle' },
+        }),
+    )
+    const conditionalFetch = createConditionalFetch(fetchFn, cache)
+
+    const response = await conditionalFetch(url)
+
+    expect(await response.text()).toBe('<#it> a <Task> .')
+    expect(cache.stored.get(url)).toEqual(cached)
+  })
+
+  it('should serve an unchanged resource from the cache', async () => {
+    const cache = createCache([cached])
+    const fetchFn = vi.fn(async () => new Response(null, { status: 304 }))
+    const conditionalFetch = createConditionalFetch(fetchFn, cache)
+
+    const response = await conditionalFetch(url)
+
+    expect(sentHeaders(fetchFn).get('If-None-Match')).toBe('"v1"')
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('text/turtle')
+    expect(await response.text()).toBe(cached.body)
+  })
+
+  it('should fall back to the Last-Modified date without an ETag', async () => {
+    const lastModified = 'Mon, 19 Oct 2026 10:00:00 GMT'
+    const cache = createCache([{ url, lastModified, body: '' }])
+    const fetchFn = vi.fn(async () => new Response(null, { status: 304 }))
+    const conditionalFetch = createConditionalFetch(fetchFn, cache)
+
+    await conditionalFetch(url)
+
+    expect(sentHeaders(fetchFn).get('If-Modified-Since')).toBe(lastModified)
+  })
+
+  it('should make writes conditional on the cached version', async () => {
+    const cache = createCache([cached])
+    const fetchFn = vi.fn(async () => new Response(null, { status: 205 }))
+    const conditionalFetch = createConditionalFetch(fetchFn, cache)
+
+    await conditionalFetch(url, { method: 'PATCH', body: '' })
+
+    expect(sentHeaders(fetchFn).get('If-Match')).toBe('"v1"')
+    // Without a new version to check the next write against
+    expect(cache.stored.has(url)).toBe(false)
+  })
+
+  it('should make the next write conditional on the version written', async () => {
+    const cache = createCache([cached])
+    const fetchFn = vi.fn(
+      async (_input: RequestInfo | URL, init?: RequestInit) =>
+        new Response(null, {
+          status: 205,
+          headers: {
+            ETag:
+              new Headers(init?.headers).get('If-Match') === '"v1"'
+                ? '"v2"'
+                : '"v3"',
+          },
+        }),
+    )
+    const conditionalFetch = createConditionalFetch(fetchFn, cache)
+
+    await conditionalFetch(url, { method: 'PATCH', body: '' })
+    await conditionalFetch(url, { method: 'PATCH', body: '' })
+
+    const ifMatch = fetchFn.mock.calls.map(([, init]) =>
+      new Headers(init?.headers).get('If-Match'),
+    )
+    expect(ifMatch).toEqual(['"v1"', '"v2"'])
+    expect(cache.stored.get(url)).toEqual(
+      expect.objectContaining({ etag: '"v3"', body: undefined }),
+    )
+  })
+
+  it('should read a resource again after patching it', async () => {
+    const cache = createCache([{ url, etag: '"v2"' }])
+    const fetchFn = vi.fn(async () => new Response('<#it> a <Task> .'))
+    const conditionalFetch = createConditionalFetch(fetchFn, cache)
+
+    const response = await conditionalFetch(url)
+
+    expect(sentHeaders(fetchFn).has('If-None-Match')).toBe(false)
+    expect(await response.text()).toBe('<#it> a <Task> .')
+  })
+
+  it('should serve a resource from the body it was replaced with', async () => {
+    const cache = createCache()
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(null, { status: 201, headers: { ETag: '"v1"' } }),
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }))
+    const conditionalFetch = createConditionalFetch(fetchFn, cache)
+
+    await conditionalFetch(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'text/turtle' },
+      body: cached.body,
+    })
+    const response = await conditionalFetch(url)
+
+    expect(await response.text()).toBe(cached.body)
+  })
+
+  it('should not make creates conditional on a cached version', async () => {
+    const cache = createCache([cached])
+    const fetchFn = vi.fn(async () => new Response(null, { status: 412 }))
+    const conditionalFetch = createConditionalFetch(fetchFn, cache)
+
+    await expect(
+      conditionalFetch(url, {
+        method: 'PATCH',
+        headers: { 'If-None-Match': '*' },
+        body: '',
+      }),
+    ).rejects.toBeInstanceOf(PreconditionFailedError)
+    expect(sentHeaders(fetchFn).get('If-None-Match')).toBe('*')
+    expect(sentHeaders(fetchFn).has('If-Match')).toBe(false)
+  })
+
+  it('should reject a write to a resource changed remotely', async () => {
+    const cache = createCache([cached])
+    const fetchFn = vi.fn(async () => new Response(null, { status: 412 }))
+    const conditionalFetch = createConditionalFetch(fetchFn, cache)
+
+    await expect(
+      conditionalFetch(url, { method: 'PUT', body: '' }),
+    ).rejects.toBeInstanceOf(PreconditionFailedError)
+    expect(cache.stored.get(url)).toEqual(cached)
+  })
+
+  it('should make writes unconditional for resources not read', async () => {
+    const cache = createCache()
+    const fetchFn = vi.fn(async () => new Response(null, { status: 201 }))
+    const conditionalFetch = createConditionalFetch(fetchFn, cache)
+
+    await conditionalFetch(url, { method: 'PUT', body: '' })
+
+    expect(sentHeaders(fetchFn).has('If-Match')).toBe(false)
+  })
+})
+
+describe('isPreconditionFailed', () => {
+  it('should find a refused write among the causes of an error', () => {
+    const error = new Error('Request failed')
+    Object.assign(error, { cause: new PreconditionFailedError(url) })
+
+    expect(isPreconditionFailed(error)).toBe(true)
+    expect(isPreconditionFailed(new Error('Request failed'))).toBe(false)
+  })
+})
@@ -8,6 +8,7 @@ describe('IndexedDBTaskStorage', () => {
     get: ReturnType<typeof vi.fn>
     getAll: ReturnType<typeof vi.fn>
     delete: ReturnType<typeof vi.fn>
+    add: ReturnType<typeof vi.fn>
   }
   let mockDb: MockDb
 
@@ -21,6 +22,7 @@ describe('IndexedDBTaskStorage', () => {
       get: vi.fn(),
       getAll: vi.fn(),
       delete: vi.fn(),
+      add: vi.fn(),
     }
 
     // Initialize with mock db
@@ -181,6 +183,95 @@ describe('IndexedDBTaskStorage', () => {
     })
   })
 
+  describe('saveTask change tracking', () => {
+    it('should record when each changed field was modified', async () => {
+      mockDb.get = vi.fn().mockResolvedValue({
+        url: 'https://example.com/task1',
+        title: 'Old title',
+        status: 'In Progress',
+        lastModified: '2026-01-01T00:00:00.000Z',
+        syncStatus: 'synced',
+        base: { title: 'Old title', status: 'In Progress' },
+        fieldModified: { status: '2026-01-01T00:00:00.000Z' },
+      })
+
+      await storage.saveTask({
+        url: 'https://example.com/task1',
+        title: 'New title',
+        status: 'In Progress',
+      })
+
+      const saved = mockDb.put.mock.calls[0][1]
+      expect(saved.fieldModified.title).toBe(saved.lastModified)
+      expect(saved.fieldModified.status).toBe('2026-01-01T00:00:00.000Z')
+      expect(saved.base).toEqual({ title: 'Old title', status: 'In Progress' })
+    })
+  })
+
+  describe('conflicts', () => {
+    const conflictedTask = {
+      url: 'https://example.com/task1',
+      title: 'Local title',
+      lastModified: '2026-01-16T09:00:00.000Z',
+      syncStatus: 'conflict' as const,
+      base: { title: 'Old title' },
+      conflict: { remote: { title: 'Remote title' }, fields: ['title'] },
+    }
+
+    it('should keep an open conflict when the task is saved', async () => {
+      mockDb.get = vi.fn().mockResolvedValue(conflictedTask)
+
+      await storage.saveTask({
+        url: 'https://example.com/task1',
+        title: 'Local title',
+        status: 'Completed',
+      })
+
+      expect(mockDb.put).toHaveBeenCalledWith(
+        'tasks',
+        expect.objectContaining({
+          syncStatus: 'conflict',
+          conflict: conflictedTask.conflict,
+        }),
+      )
+    })
+
+    it('should store the remote version of a conflict', async () => {
+      mockDb.get = vi.fn().mockResolvedValue({
+        ...conflictedTask,
+        syncStatus: 'pending',
+        conflict: undefined,
+      })
+
+      await storage.markAsConflict(
+        'https://example.com/task1',
+        conflictedTask.conflict as never,
+      )
+
+      expect(mockDb.put).toHaveBeenCalledWith(
+        'tasks',
+        expect.objectContaining({
+          syncStatus: 'conflict',
+          conflict: conflictedTask.conflict,
+        }),
+      )
+    })
+
+    it('should resolve against the remote version', async () => {
+      mockDb.get = vi.fn().mockResolvedValue(conflictedTask)
+
+      await storage.resolveConflict('https://example.com/task1', {
+        title: 'Combined title',
+      })
+
+      const saved = mockDb.put.mock.calls[0][1]
+      expect(saved.title).toBe('Combined title')
+      expect(saved.syncStatus).toBe('pending')
+      expect(saved.base).toEqual({ title: 'Remote title' })
+      expect(saved.conflict).toBeUndefined()
+    })
+  })
+
   describe('markAsSynced', () => {
     it('should update syncStatus to synced', async () => {
       const existingTask = {
@@ -203,6 +294,25 @@ describe('IndexedDBTaskStorage', () => {
       )
     })
 
+    it('should keep the synced fields as the base for merging', async () => {
+      mockDb.get = vi.fn().mockResolvedValue({
+        url: 'https://example.com/task1',
+        title: 'Task',
+        status: 'Completed',
+        lastModified: new Date().toISOString(),
+        syncStatus: 'pending' as const,
+        fieldModified: { status: '2026-01-01T00:00:00.000Z' },
+      })
+
+      await storage.markAsSynced('https://example.com/task1')
+
+      const saved = mockDb.put.mock.calls[0][1]
+      expect(saved.base).toEqual(
+        expect.objectContaining({ title: 'Task', status: 'Completed' }),
+      )
+      expect(saved.fieldModified).toEqual({})
+    })
+
     it('should do nothing if task does not exist', async () => {
       mockDb.get = vi.fn().mockResolvedValue(undefined)
 
@@ -212,6 +322,55 @@ describe('IndexedDBTaskStorage', () => {
     })
   })
 
+  describe('operations', () => {
+    const operation = {
+      id: 'op-1',
+      type: 'update' as const,
+      url: 'https://example.com/task1',
+      createdAt: '2026-01-15T10:00:00.000Z',
+      attempts: 0,
+    }
+
+    it('should append operations to the outbox', async () => {
+      await storage.addOperation(operation)
+
+      expect(mockDb.add).toHaveBeenCalledWith('operations', operation)
+    })
+
+    it('should remove a done operation by its log position', async () => {
+      await storage.deleteOperation(3)
+
+      expect(mockDb.delete).toHaveBeenCalledWith('operations', 3)
+    })
+  })
+
+  describe('resources', () => {
+    const resource = {
+      url: 'https://example.com/tasks/task1',
+      etag: '"v1"',
+      body: '<#it> a <Task> .',
+    }
+
+    it('should cache resources by URL', async () => {
+      await storage.saveResource(resource)
+
+      expect(mockDb.put).toHaveBeenCalledWith('resources', resource)
+    })
+
+    it('should return a cached resource', async () => {
+      mockDb.get = vi.fn().mockResolvedValue(resource)
+
+      expect(await storage.getResource(resource.url)).toEqual(resource)
+      expect(mockDb.get).toHaveBeenCalledWith('resources', resource.url)
+    })
+
+    it('should drop a cached resource', async () => {
+      await storage.deleteResource(resource.url)
+
+      expect(mockDb.delete).toHaveBeenCalledWith('resources', resource.url)
+    })
+  })
+
   describe('getAllTasks', () => {
     it('should return all tasks from database', async () => {
       const tasks = [
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  getChangedFields,
+  isSameFieldValue,
+  mergeTaskFields,
+  type TaskFields,
+} from '@/storage/sync/merge'
+
+describe('merge', () => {
+  const base: TaskFields = {
+    title: 'Write report',
+    status: 'In Progress',
+    endDate: '2026-01-20T17:00:00.000Z',
+  }
+
+  describe('isSameFieldValue', () => {
+    it('should treat missing values and empty lists as the same', () => {
+      expect(isSameFieldValue(undefined, [])).toBe(true)
+      expect(isSameFieldValue(null, undefined)).toBe(true)
+      expect(isSameFieldValue(undefined, 'a')).toBe(false)
+    })
+
+    it('should compare lists item by item', () => {
+      expect(isSameFieldValue(['a', 'b'], ['a', 'b'])).toBe(true)
+      expect(isSameFieldValue(['a', 'b'], ['b', 'a'])).toBe(false)
+    })
+  })
+
+  describe('getChangedFields', () => {
+    it('should list the fields with different values', () => {
+      expect(
+        getChangedFields(base, { ...base, title: 'Write the report' }),
+      ).toEqual(['title'])
+    })
+  })
+
+  describe('mergeTaskFields', () => {
+    it('should keep edits to different fields from both sides', () => {
+      const local = { ...base, title: 'Write the report' }
+      const remote = { ...base, status: 'Completed' }
+      const resolve = vi.fn()
+
+      const { merged, conflicts } = mergeTaskFields(
+        base,
+        local,
+        remote,
+        resolve,
+      )
+
+      expect(merged).toEqual(
+        expect.objectContaining({
+          title: 'Write the report',
+          status: 'Completed',
+          endDate: base.endDate,
+        }),
+      )
+      expect(conflicts).toEqual([])
+      expect(resolve).not.toHaveBeenCalled()
+    })
+
+    it('should not treat the same change on both sides as a conflict', () => {
+      const changed = { ...base, status: 'Completed' }
+
+      const { merged, conflicts } = mergeTaskFields(
+        base,
+        changed,
+        { ...changed },
+        vi.fn(),
+      )
+
+      expect(merged.status).toBe('Completed')
+      expect(conflicts).toEqual([])
+    })
+
+    it('should resolve fields changed on both sides', () => {
+      const local = { ...base, title: 'Local title', status: 'Completed' }
+      const remote = { ...base, title: 'Remote title', status: 'Ignored' }
+      const resolve = vi.fn((field: string) =>
+        field === 'title' ? 'local' : 'remote',
+      )
+
+      const { merged, conflicts } = mergeTaskFields(
+        base,
+        local,
+        remote,
+        resolve,
+      )
+
+      expect(conflicts).toEqual(['title', 'status'])
+      expect(merged.title).toBe('Local title')
+      expect(merged.status).toBe('Ignored')
+    })
+
+    it('should treat every difference as a conflict without a base', () => {
+      const local = { ...base, title: 'Local title' }
+      const remote = { ...base, status: 'Completed' }
+
+      const { merged, conflicts } = mergeTaskFields(
+        undefined,
+        local,
+        remote,
+        () => 'remote',
+      )
+
+      expect(conflicts).toEqual(['title', 'status'])
+      expect(merged).toEqual(expect.objectContaining(remote))
+    })
+  })
+})
@@ -0,0 +1,181 @@
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { openDB } from 'idb'
+import { IndexedDBTaskStorage } from '@/storage/local/indexeddb-storage'
+import {
+  DB_VERSION,
+  MIGRATIONS,
+  type Migration,
+} from '@/storage/local/migrations'
+
+const syncedTask = {
+  url: 'https://pod.example/tasks/report',
+  title: 'Write report',
+  status: 'In Progress',
+  lastModified: '2026-01-15T10:00:00.000Z',
+  syncStatus: 'synced',
+}
+const pendingTask = {
+  url: 'temp:draft',
+  title: 'Draft',
+  lastModified: '2026-01-16T10:00:00.000Z',
+  syncStatus: 'pending',
+}
+const conflictTask = {
+  url: 'https://pod.example/tasks/budget',
+  title: 'Budget',
+  lastModified: '2026-01-16T11:00:00.000Z',
+  syncStatus: 'conflict',
+}
+const operation = {
+  seq: 1,
+  id: 'op-1',
+  type: 'create',
+  url: 'temp:draft',
+  createdAt: '2026-01-16T10:00:00.000Z',
+  attempts: 0,
+}
+const resource = {
+  url: 'https://pod.example/tasks/report',
+  etag: '"v1"',
+  body: '<#it> a <Task> .',
+}
+
+/**
+ * Create the database as a released version stored it
+ */
+async function createFixture(version: number) {
+  const db = await openDB('solid-planner', version, {
+    upgrade(db, _oldVersion, _newVersion, transaction) {
+      for (const migration of MIGRATIONS) {
+        if (migration.version <= version) {
+          migration.upgrade?.(db as never, transaction as never)
+        }
+      }
+    },
+  })
+
+  for (const task of [syncedTask, pendingTask, conflictTask]) {
+    // In the form that version stored it
+    await db.put(
+      'tasks',
+      MIGRATIONS.filter(migration => migration.version <= version).reduce(
+        (stored, migration) =>
+          migration.migrateTask?.(stored as never) ?? stored,
+        task,
+      ),
+    )
+  }
+  await db.put('metadata', {
+    key: 'lastSyncTime',
+    value: '2026-01-15T10:00:00.000Z',
+  })
+  await db.put('metadata', { key: 'settings.weeklyCapacity', value: 32 })
+  if (version >= 2) await db.put('operations', operation)
+  if (version >= 3) await db.put('resources', resource)
+  db.close()
+}
+
+describe('IndexedDB migrations', () => {
+  let storage: IndexedDBTaskStorage
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    storage = new IndexedDBTaskStorage()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should create the database at the current version', async () => {
+    await storage.init()
+
+    const db = await openDB('solid-planner')
+    expect(db.version).toBe(DB_VERSION)
+    expect([...db.objectStoreNames].sort()).toEqual([
+      'appliedOperations',
+      'metadata',
+      'operations',
+      'resources',
+      'tasks',
+    ])
+    db.close()
+  })
+
+  describe.each(MIGRATIONS.slice(0, -1).map(migration => migration.version))(
+    'from version %i',
+    version => {
+      beforeEach(async () => {
+        await createFixture(version)
+      })
+
+      it('should keep the stored data', async () => {
+        expect(await storage.getAllTasks()).toHaveLength(3)
+        expect(await storage.getLastSyncTime()).toEqual(
+          new Date('2026-01-15T10:00:00.000Z'),
+        )
+        expect(await storage.getOperations()).toEqual(
+          version >= 2 ? [operation] : [],
+        )
+        expect(await storage.getResource(resource.url)).toEqual(
+          version >= 3 ? resource : undefined,
+        )
+      })
+
+      it('should use synced tasks as the base for merging', async () => {
+        const task = await storage.getTask(syncedTask.url)
+
+        expect(task?.base).toEqual(
+          expect.objectContaining({
+            title: 'Write report',
+            status: 'In Progress',
+          }),
+        )
+        expect(task?.syncStatus).toBe('synced')
+      })
+
+      it('should push conflicts that cannot be resolved again', async () => {
+        expect((await storage.getTask(conflictTask.url))?.syncStatus).toBe(
+          'pending',
+        )
+        expect(await storage.getTask(pendingTask.url)).toEqual(pendingTask)
+      })
+    },
+  )
+
+  it('should recover what it can when an upgrade fails', async () => {
+    await createFixture(2)
+    // The latest migration transforming tasks
+    const latest = MIGRATIONS.filter(
+      migration => migration.migrateTask,
+    ).pop() as Required<Migration>
+    const migrate = latest.migrateTask
+    vi.spyOn(latest, 'migrateTask').mockImplementation(task => {
+      if (task.url === conflictTask.url) throw new Error('Invalid task')
+      return migrate(task)
+    })
+
+    const tasks = await storage.getAllTasks()
+
+    expect(tasks.map(task => task.url).sort()).toEqual([
+      syncedTask.url,
+      pendingTask.url,
+    ])
+    expect(tasks.find(task => task.url === syncedTask.url)?.base).toBeDefined()
+    expect(await storage.getOperations()).toEqual([operation])
+    expect(await storage.getLastSyncTime()).toEqual(
+      new Date('2026-01-15T10:00:00.000Z'),
+    )
+    expect(await storage.getMetadata('settings.weeklyCapacity')).toBe(32)
+
+    const db = await openDB('solid-planner')
+    expect(db.version).toBe(DB_VERSION)
+    expect(db.objectStoreNames.contains('resources')).toBe(true)
+    db.close()
+  })
+})
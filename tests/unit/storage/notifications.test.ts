@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { subscribeToResource } from '@/storage/soukai/notifications'
+
+class MockWebSocket extends EventTarget {
+  static instances: MockWebSocket[] = []
+  send = vi.fn()
+  closed = false
+  url: string
+  protocol?: string
+
+  constructor(url: string, protocol?: string) {
+    super()
+    this.url = url
+    this.protocol = protocol
+    MockWebSocket.instances.push(this)
+    setTimeout(() => this.dispatchEvent(new Event('open')))
+  }
+
+  close() {
+    this.closed = true
+    this.dispatchEvent(new Event('close'))
+  }
+
+  receive(data: string) {
+    this.dispatchEvent(new MessageEvent('message', { data }))
+  }
+}
+
+const topic = 'https://pod.example/planner/tasks/'
+
+const response = (
+  body: unknown = {},
+  headers: Record<string, string> = {},
+  status = 200,
+) => ({
+  ok: status < 400,
+  status,
+  headers: new Headers(headers),
+  json: async () => body,
+})
+
+describe('subscribeToResource', () => {
+  const handlers = { onChange: vi.fn(), onClose: vi.fn() }
+
+  beforeEach(() => {
+    MockWebSocket.instances = []
+    vi.clearAllMocks()
+    vi.stubGlobal('WebSocket', MockWebSocket)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  // A Pod with a WebSocketChannel2023 subscription service
+  const channelFetch = () => {
+    let channels = 0
+    return vi.fn(async (url: string, init?: RequestInit) => {
+      if (init?.method === 'HEAD') {
+        return response(
+          {},
+          {
+            Link: '</.well-known/solid>; rel="http://www.w3.org/ns/solid/terms#storageDescription"',
+          },
+        )
+      }
+      if (url === 'https://pod.example/.well-known/solid') {
+        return response({
+          '@context': ['https://www.w3.org/ns/solid/notification/v1'],
+          id: 'https://pod.example/.well-known/solid',
+          subscription: [
+            {
+              id: 'https://pod.example/.notifications/WebSocketChannel2023/',
+              channelType: 'notify:WebSocketChannel2023',
+            },
+          ],
+        })
+      }
+      return response({
+        receiveFrom: `wss://pod.example/.notifications/${++channels}`,
+      })
+    })
+  }
+
+  it('should subscribe with WebSocketChannel2023', async () => {
+    const fetchFn = channelFetch()
+
+    const subscription = await subscribeToResource(
+      topic,
+      fetchFn as unknown as typeof fetch,
+      handlers,
+    )
+
+    expect(subscription).not.toBeNull()
+    expect(fetchFn).toHaveBeenCalledWith(
+      'https://pod.example/.notifications/WebSocketChannel2023/',
+      expect.objectContaining({
+        method: 'POST',
+        body: expect.stringContaining(`"topic":"${topic}"`),
+      }),
+    )
+    const [socket] = MockWebSocket.instances
+    expect(socket.url).toBe('wss://pod.example/.notifications/1')
+
+    socket.receive(
+      JSON.stringify({
+        type: 'Add',
+        object: `${topic}task-1`,
+        target: topic,
+      }),
+    )
+    expect(handlers.onChange).toHaveBeenCalledWith(`${topic}task-1`)
+  })
+
+  it('should fall back to the solid-0.1 WebSocket API', async () => {
+    const fetchFn = vi.fn(async () =>
+      response({}, { 'Updates-Via': 'wss://pod.example/' }),
+    )
+
+    const subscription = await subscribeToResource(
+      topic,
+      fetchFn as unknown as typeof fetch,
+      handlers,
+    )
+
+    expect(subscription).not.toBeNull()
+    const [socket] = MockWebSocket.instances
+    expect(socket.protocol).toBe('solid-0.1')
+    expect(socket.send).toHaveBeenCalledWith(`sub ${topic}`)
+
+    socket.receive(`ack ${topic}`)
+    socket.receive(`pub ${topic}task-1`)
+    expect(handlers.onChange).toHaveBeenCalledTimes(1)
+    expect(handlers.onChange).toHaveBeenCalledWith(`${topic}task-1`)
+  })
+
+  it('should follow a limited number of resources with WebSocketChannel2023', async () => {
+    const fetchFn = channelFetch()
+    const subscription = await subscribeToResource(
+      topic,
+      fetchFn as unknown as typeof fetch,
+      handlers,
+    )
+    const urls = Array.from({ length: 25 }, (_, i) => `${topic}task-${i}`)
+
+    expect(await subscription!.follow(urls)).toEqual(urls.slice(0, 20))
+    // The subscription service is only looked up once
+    const methods = fetchFn.mock.calls.map(([, init]) => init?.method ?? 'GET')
+    expect(methods.filter(method => method !== 'POST')).toEqual(['HEAD', 'GET'])
+    expect(MockWebSocket.instances).toHaveLength(21)
+
+    MockWebSocket.instances[5].receive(
+      JSON.stringify({ type: 'Update', object: `${topic}task-4` }),
+    )
+    expect(handlers.onChange).toHaveBeenCalledWith(`${topic}task-4`)
+
+    // The channels of the resources no longer followed are closed
+    await subscription!.follow(urls.slice(0, 1))
+    expect(
+      MockWebSocket.instances.filter(socket => socket.closed),
+    ).toHaveLength(19)
+    expect(handlers.onClose).not.toHaveBeenCalled()
+  })
+
+  it('should follow resources over the solid-0.1 WebSocket', async () => {
+    const fetchFn = vi.fn(async () =>
+      response({}, { 'Updates-Via': 'wss://pod.example/' }),
+    )
+    const subscription = await subscribeToResource(
+      topic,
+      fetchFn as unknown as typeof fetch,
+      handlers,
+    )
+    const urls = [`${topic}task-1`, `${topic}task-2`]
+
+    expect(await subscription!.follow(urls)).toEqual(urls)
+    await subscription!.follow(urls)
+
+    expect(MockWebSocket.instances).toHaveLength(1)
+    expect(MockWebSocket.instances[0].send.mock.calls).toEqual([
+      [`sub ${topic}`],
+      [`sub ${topic}task-1`],
+      [`sub ${topic}task-2`],
+    ])
+    expect(fetchFn).toHaveBeenCalledTimes(2) // HEAD for each protocol
+  })
+
+  it('should resolve to null without notifications', async () => {
+    const fetchFn = vi.fn(async () => response())
+
+    const subscription = await subscribeToResource(
+      topic,
+      fetchFn as unknown as typeof fetch,
+      handlers,
+    )
+
+    expect(subscription).toBeNull()
+    expect(MockWebSocket.instances).toEqual([])
+  })
+
+  it('should report a connection closing on its own only', async () => {
+    const fetchFn = vi.fn(async () =>
+      response({}, { 'Updates-Via': 'wss://pod.example/' }),
+    )
+    const subscription = await subscribeToResource(
+      topic,
+      fetchFn as unknown as typeof fetch,
+      handlers,
+    )
+
+    subscription!.close()
+    expect(handlers.onClose).not.toHaveBeenCalled()
+
+    await subscribeToResource(
+      topic,
+      fetchFn as unknown as typeof fetch,
+      handlers,
+    )
+    MockWebSocket.instances[1].close()
+    expect(handlers.onClose).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOperation,
+  getRetryDelay,
+  isDue,
+  recordFailure,
+} from '@/storage/sync/outbox'
+
+describe('outbox', () => {
+  const now = new Date('2026-01-15T10:00:00.000Z')
+
+  describe('createOperation', () => {
+    it('should create a fresh operation with an idempotency key', () => {
+      const first = createOperation('update', 'https://pod.example/t1', now)
+      const second = createOperation('update', 'https://pod.example/t1', now)
+
+      expect(first).toEqual({
+        id: expect.any(String),
+        type: 'update',
+        url: 'https://pod.example/t1',
+        createdAt: '2026-01-15T10:00:00.000Z',
+        attempts: 0,
+      })
+      expect(first.id).not.toBe(second.id)
+    })
+  })
+
+  describe('getRetryDelay', () => {
+    it('should double the delay with every attempt', () => {
+      expect(getRetryDelay(1)).toBe(5000)
+      expect(getRetryDelay(2)).toBe(10000)
+      expect(getRetryDelay(3)).toBe(20000)
+    })
+
+    it('should not wait longer than 15 minutes', () => {
+      expect(getRetryDelay(20)).toBe(15 * 60 * 1000)
+    })
+  })
+
+  describe('recordFailure', () => {
+    it('should count the attempt and schedule the next one', () => {
+      const operation = createOperation('delete', 'https://pod.example/t1')
+
+      const failed = recordFailure(operation, new Error('Network down'), now)
+
+      expect(failed.attempts).toBe(1)
+      expect(failed.lastError).toBe('Network down')
+      expect(failed.nextAttemptAt).toBe('2026-01-15T10:00:05.000Z')
+      expect(isDue(failed, now)).toBe(false)
+      expect(isDue(failed, new Date('2026-01-15T10:00:05.000Z'))).toBe(true)
+    })
+  })
+
+  describe('isDue', () => {
+    it('should be due right away before any attempt', () => {
+      expect(isDue(createOperation('create', 'temp:1'), now)).toBe(true)
+    })
+  })
+})
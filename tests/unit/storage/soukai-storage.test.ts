@@ -3,7 +3,9 @@ import '../../mocks/soukai-modules.mock'
 import { MockTask } from '../../mocks/task-model.mock'
 import { SolidTaskService } from '@/storage/soukai/soukai-storage'
 import Task from '@/storage/soukai/Task.model'
+import { Tombstone } from 'soukai-solid'
 import { Status, TaskClass } from '@/models/TaskClass'
+import { RecurrenceFrequency } from '@/models/recurrence'
 
 describe('SolidTaskService', () => {
   const authFetch = vi.fn()
@@ -26,6 +28,68 @@ describe('SolidTaskService', () => {
     expect(service.getTaskContainerUrl()).toBe(containerUrl)
   })
 
+  it('should publish the calendar feed next to the tasks', async () => {
+    const service = new SolidTaskService(podRoot, authFetch)
+    authFetch.mockResolvedValue(new Response(null, { status: 201 }))
+
+    await service.publishCalendarFeed('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n')
+
+    expect(service.getCalendarFeedUrl()).toBe(
+      'https://mock.pod/planner/deadlines.ics',
+    )
+    expect(authFetch).toHaveBeenCalledWith(
+      'https://mock.pod/planner/deadlines.ics',
+      expect.objectContaining({
+        method: 'PUT',
+        headers: { 'Content-Type': 'text/calendar' },
+      }),
+    )
+
+    authFetch.mockResolvedValue(new Response(null, { status: 403 }))
+    await expect(service.publishCalendarFeed('')).rejects.toThrow('403')
+  })
+
+  it('should make the calendar feed public with an ACL of its own', async () => {
+    const service = new SolidTaskService(podRoot, authFetch)
+    const aclUrl = 'https://mock.pod/planner/deadlines.ics.acl'
+    authFetch.mockImplementation(async (_url: string, init?: RequestInit) =>
+      init?.method === 'HEAD'
+        ? new Response(null, {
+            headers: {
+              Link: '<deadlines.ics.acl>; rel="acl"',
+              'WAC-Allow': 'user="read write control",public="read"',
+            },
+          })
+        : new Response(null, { status: 201 }),
+    )
+
+    await service.setCalendarFeedPublic(true, 'https://me.example/#me')
+
+    const [url, init] = authFetch.mock.calls[1]
+    expect(url).toBe(aclUrl)
+    expect(init).toEqual(expect.objectContaining({ method: 'PUT' }))
+    expect(init.body).toContain('acl:agentClass foaf:Agent')
+    expect(init.body).toContain('acl:agent <https://me.example/#me>')
+    expect(init.body).toContain(
+      `acl:accessTo <${service.getCalendarFeedUrl()}>`,
+    )
+    expect(await service.isCalendarFeedPublic()).toBe(true)
+
+    await service.setCalendarFeedPublic(false, 'https://me.example/#me')
+
+    expect(authFetch).toHaveBeenLastCalledWith(aclUrl, { method: 'DELETE' })
+  })
+
+  it('should not make a feed not published yet public', async () => {
+    const service = new SolidTaskService(podRoot, authFetch)
+    authFetch.mockResolvedValue(new Response(null, { status: 404 }))
+
+    await expect(
+      service.setCalendarFeedPublic(true, 'https://me.example/#me'),
+    ).rejects.toThrow('after the next sync')
+    expect(await service.isCalendarFeedPublic()).toBe(false)
+  })
+
   it('should fetch tasks from container', async () => {
     const service = new SolidTaskService(podRoot, authFetch)
     const taskA = new MockTask({
@@ -62,6 +126,23 @@ describe('SolidTaskService', () => {
     errorSpy.mockRestore()
   })
 
+  it('should fetch deleted tasks from their tombstones', async () => {
+    const service = new SolidTaskService(podRoot, authFetch)
+    const deletedAt = new Date('2024-01-05')
+    vi.mocked(Tombstone.from).mockReturnValueOnce({
+      all: vi
+        .fn()
+        .mockResolvedValue([
+          { resourceUrl: `${containerUrl}task-a`, deletedAt },
+        ]),
+    } as unknown as ReturnType<typeof Tombstone.from>)
+
+    const deletions = await service.fetchDeletions()
+
+    expect(Tombstone.from).toHaveBeenCalledWith(containerUrl)
+    expect(deletions).toEqual([{ url: `${containerUrl}task-a`, deletedAt }])
+  })
+
   it('should convert Soukai tasks into TaskClass instances with graph', () => {
     const service = new SolidTaskService(podRoot, authFetch)
 
@@ -106,6 +187,30 @@ describe('SolidTaskService', () => {
     expect(graph.getChildrenIds('parent-1')).toEqual(['child-1', 'child-2'])
   })
 
+  it('should convert dependencies into TaskClass.dependsOn', () => {
+    const service = new SolidTaskService(podRoot, authFetch)
+
+    const blocker = new MockTask({
+      url: `${containerUrl}blocker-1`,
+      title: 'Blocker',
+    })
+    const blocked = new MockTask({
+      url: `${containerUrl}blocked-1`,
+      title: 'Blocked',
+      dependsOnUrls: ['blocker-1'],
+    })
+
+    const { taskClasses, graph } = service.convertToTaskClasses([
+      blocker as unknown as Task,
+      blocked as unknown as Task,
+    ])
+
+    const blockedClass = taskClasses.find(t => t.id === 'blocked-1')
+    expect(blockedClass?.dependsOn).toEqual(['blocker-1'])
+    expect(blockedClass?.parentId).toBeUndefined()
+    expect(graph.getDependentIds('blocker-1')).toEqual(['blocked-1'])
+  })
+
   it('should save a new TaskClass and set fullId', async () => {
     const service = new SolidTaskService(podRoot, authFetch)
 
@@ -150,6 +255,56 @@ describe('SolidTaskService', () => {
     expect(stored.status).toBe(Status.COMPLETED)
   })
 
+  it('should persist dependencies when saving', async () => {
+    const service = new SolidTaskService(podRoot, authFetch)
+
+    const taskClass = new TaskClass({
+      id: 'blocked-1',
+      name: 'Blocked',
+      addedDate: new Date('2024-02-01'),
+      dependsOn: ['blocker-1'],
+    })
+
+    await service.saveTaskClass(taskClass)
+
+    const stored = MockTaskModel.records.get(taskClass.fullId!) as Record<
+      string,
+      unknown
+    >
+    expect(stored.dependsOnUrls).toEqual(['blocker-1'])
+  })
+
+  it('should persist and read back the recurrence rule', async () => {
+    const service = new SolidTaskService(podRoot, authFetch)
+
+    const taskClass = new TaskClass({
+      id: 'review-1',
+      name: 'Sprint Review',
+      addedDate: new Date('2024-02-01'),
+      recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 2 },
+    })
+
+    await service.saveTaskClass(taskClass)
+
+    const stored = MockTaskModel.records.get(taskClass.fullId!) as Record<
+      string,
+      unknown
+    >
+    expect(stored.recurrenceRule).toBe('FREQ=WEEKLY;INTERVAL=2')
+
+    const { taskClasses } = service.convertToTaskClasses([
+      new MockTask({
+        url: `${containerUrl}review-1`,
+        title: 'Sprint Review',
+        recurrenceRule: 'FREQ=WEEKLY;INTERVAL=2',
+      }) as unknown as Task,
+    ])
+    expect(taskClasses[0].recurrence).toEqual({
+      frequency: RecurrenceFrequency.WEEKLY,
+      interval: 2,
+    })
+  })
+
   it('should delete a task and its descendants', async () => {
     const service = new SolidTaskService(podRoot, authFetch)
 
@@ -1,8 +1,12 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { SyncService } from '@/storage/sync/sync-service'
+import { createOperation, type SyncOperation } from '@/storage/sync/outbox'
 import type { IndexedDBTaskStorage } from '@/storage/local/indexeddb-storage'
 import Task from '@/storage/soukai/Task.model'
 import { TaskClass, Status } from '@/models/TaskClass'
+import { RecurrenceFrequency } from '@/models/recurrence'
+import { PreconditionFailedError } from '@/storage/soukai/conditional-fetch'
+import type { TabCoordinator, TabMessage } from '@/storage/sync/tabs'
 
 // Mock IndexedDB storage
 vi.mock('@/storage/local/indexeddb-storage', () => ({
@@ -11,6 +15,9 @@ vi.mock('@/storage/local/indexeddb-storage', () => ({
     getAllTasks: vi.fn().mockResolvedValue([]),
     deleteTask: vi.fn(),
     markAsSynced: vi.fn(),
+    markAsConflict: vi.fn(),
+    getConflictedTasks: vi.fn().mockResolvedValue([]),
+    resolveConflict: vi.fn(),
     setLastSyncTime: vi.fn(),
   })),
 }))
@@ -40,26 +47,86 @@ describe('SyncService', () => {
     getAllTasks: ReturnType<typeof vi.fn>
     deleteTask: ReturnType<typeof vi.fn>
     markAsSynced: ReturnType<typeof vi.fn>
+    markAsConflict: ReturnType<typeof vi.fn>
+    getConflictedTasks: ReturnType<typeof vi.fn>
+    resolveConflict: ReturnType<typeof vi.fn>
     setLastSyncTime: ReturnType<typeof vi.fn>
+    getTask: ReturnType<typeof vi.fn>
+    getPendingTasks: ReturnType<typeof vi.fn>
+    addOperation: ReturnType<typeof vi.fn>
+    getOperations: ReturnType<typeof vi.fn>
+    getOperationsForUrl: ReturnType<typeof vi.fn>
+    countOperations: ReturnType<typeof vi.fn>
+    updateOperation: ReturnType<typeof vi.fn>
+    deleteOperation: ReturnType<typeof vi.fn>
+    markOperationApplied: ReturnType<typeof vi.fn>
+    getAppliedOperationIds: ReturnType<typeof vi.fn>
+    completeOperation: ReturnType<typeof vi.fn>
   }
 
   type MockRemoteService = {
     getTaskContainerUrl: ReturnType<typeof vi.fn>
     fetchTasks: ReturnType<typeof vi.fn>
+    fetchTask: ReturnType<typeof vi.fn>
+    fetchDeletions: ReturnType<typeof vi.fn>
     deleteTask: ReturnType<typeof vi.fn>
+    subscribeToChanges: ReturnType<typeof vi.fn>
   }
 
   let syncService: SyncService
   let mockLocalStore: MockLocalStore
   let mockRemoteService: MockRemoteService
+  let operations: SyncOperation[]
 
   beforeEach(() => {
+    // In-memory outbox
+    operations = []
+    let nextSeq = 1
+    const appliedIds = new Set<string>()
+
     mockLocalStore = {
       saveTask: vi.fn(),
       getAllTasks: vi.fn().mockResolvedValue([]),
       deleteTask: vi.fn(),
       markAsSynced: vi.fn(),
+      markAsConflict: vi.fn(),
+      getConflictedTasks: vi.fn().mockResolvedValue([]),
+      resolveConflict: vi.fn(),
       setLastSyncTime: vi.fn(),
+      getTask: vi.fn(async (url: string) =>
+        (await mockLocalStore.getAllTasks()).find(
+          (task: { url: string }) => task.url === url,
+        ),
+      ),
+      getPendingTasks: vi.fn(async () =>
+        (await mockLocalStore.getAllTasks()).filter(
+          (task: { syncStatus: string }) => task.syncStatus === 'pending',
+        ),
+      ),
+      addOperation: vi.fn(async (operation: SyncOperation) => {
+        operations.push({ ...operation, seq: nextSeq++ })
+      }),
+      getOperations: vi.fn(async () => [...operations]),
+      getOperationsForUrl: vi.fn(async (url: string) =>
+        operations.filter(operation => operation.url === url),
+      ),
+      countOperations: vi.fn(async () => operations.length),
+      updateOperation: vi.fn(async (operation: SyncOperation) => {
+        operations = operations.map(op =>
+          op.seq === operation.seq ? operation : op,
+        )
+      }),
+      deleteOperation: vi.fn(async (seq: number) => {
+        operations = operations.filter(operation => operation.seq !== seq)
+      }),
+      markOperationApplied: vi.fn(async (id: string) => {
+        appliedIds.add(id)
+      }),
+      getAppliedOperationIds: vi.fn(async () => [...appliedIds]),
+      completeOperation: vi.fn(async (operation: SyncOperation) => {
+        operations = operations.filter(op => op.seq !== operation.seq)
+        appliedIds.delete(operation.id)
+      }),
     }
 
     mockRemoteService = {
@@ -67,7 +134,10 @@ describe('SyncService', () => {
         .fn()
         .mockReturnValue('https://pod.example/tasks/'),
       fetchTasks: vi.fn().mockResolvedValue([]),
+      fetchTask: vi.fn().mockResolvedValue(null),
+      fetchDeletions: vi.fn().mockResolvedValue([]),
       deleteTask: vi.fn(),
+      subscribeToChanges: vi.fn().mockResolvedValue(null),
     }
 
     syncService = new SyncService(
@@ -162,6 +232,78 @@ describe('SyncService', () => {
       )
     })
 
+    it('should include dependsOnUrls if set', async () => {
+      const task = new TaskClass({
+        id: 'blocked-1',
+        name: 'Blocked Task',
+        addedDate: new Date('2026-01-15T10:00:00.000Z'),
+        dependsOn: ['https://example.com/blocker'],
+      })
+      task.fullId = 'https://example.com/blocked'
+
+      await syncService.saveLocal(task)
+
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          dependsOnUrls: ['https://example.com/blocker'],
+        }),
+      )
+    })
+
+    it('should include the recurrence as an RRULE if set', async () => {
+      const task = new TaskClass({
+        id: 'weekly-1',
+        name: 'Weekly Report',
+        addedDate: new Date('2026-01-15T10:00:00.000Z'),
+        recurrence: {
+          frequency: RecurrenceFrequency.WEEKLY,
+          interval: 1,
+          byWeekday: [5],
+        },
+      })
+
+      await syncService.saveLocal(task)
+
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recurrenceRule: 'FREQ=WEEKLY;BYDAY=FR',
+        }),
+      )
+    })
+
+    it('should include the estimated effort', async () => {
+      const task = new TaskClass({
+        id: 'sized-1',
+        name: 'Sized Task',
+        addedDate: new Date('2026-01-15T10:00:00.000Z'),
+        estimatedEffort: 2.5,
+      })
+
+      await syncService.saveLocal(task)
+
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({ estimatedEffort: 2.5 }),
+      )
+    })
+
+    it('should include the completion date', async () => {
+      const task = new TaskClass({
+        id: 'done-1',
+        name: 'Done Task',
+        addedDate: new Date('2026-01-15T10:00:00.000Z'),
+        status: Status.COMPLETED,
+        completedDate: new Date('2026-01-18T16:30:00.000Z'),
+      })
+
+      await syncService.saveLocal(task)
+
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          completedDate: new Date('2026-01-18T16:30:00.000Z'),
+        }),
+      )
+    })
+
     it('should include parentTaskUrl if set', async () => {
       const task = new TaskClass({
         id: 'child-1',
@@ -201,24 +343,22 @@ describe('SyncService', () => {
 
       // Mock remote task creation
       const mockRemoteTask = new Task()
-      mockRemoteTask.url = 'https://pod.example/tasks/real-id-123'
-      mockRemoteTask.title = 'New Task'
-      mockRemoteTask.save = vi.fn().mockImplementation(() => {
-        mockRemoteTask.url = 'https://pod.example/tasks/real-id-123'
-        return Promise.resolve()
-      })
+      mockRemoteTask.save = vi.fn().mockResolvedValue(undefined)
 
       vi.mocked(Task).mockReturnValue(mockRemoteTask)
 
       await syncService.sync()
 
+      // Should create the task at the URL derived from its id
+      expect(mockRemoteTask.url).toBe('https://pod.example/tasks/123')
+
       // Should delete old temp: URL
       expect(mockLocalStore.deleteTask).toHaveBeenCalledWith('temp:123')
 
       // Should save with new URL, spreading the task data (ISO strings should work)
       expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
         expect.objectContaining({
-          url: 'https://pod.example/tasks/real-id-123',
+          url: 'https://pod.example/tasks/123',
           title: 'New Task',
           description: 'Created offline',
           dateCreated: '2026-01-15T10:00:00.000Z', // Should accept ISO string
@@ -228,7 +368,7 @@ describe('SyncService', () => {
 
       // Should mark as synced
       expect(mockLocalStore.markAsSynced).toHaveBeenCalledWith(
-        'https://pod.example/tasks/real-id-123',
+        'https://pod.example/tasks/123',
       )
     })
 
@@ -308,6 +448,1141 @@ describe('SyncService', () => {
     })
   })
 
+  describe('sync - field-level merge', () => {
+    const base = {
+      title: 'Write report',
+      status: 'In Progress',
+      endDate: '2026-01-20T17:00:00.000Z',
+    }
+
+    const createRemoteTask = (fields: Partial<Task>) =>
+      ({
+        url: 'https://pod.example/tasks/report',
+        title: base.title,
+        status: base.status,
+        endDate: new Date(base.endDate),
+        updatedAt: new Date('2026-01-16T12:00:00.000Z'),
+        save: vi.fn(),
+        ...fields,
+      }) as unknown as Task
+
+    const createLocalTask = (fields: Record<string, unknown>) => ({
+      url: 'https://pod.example/tasks/report',
+      ...base,
+      lastModified: '2026-01-16T09:00:00.000Z',
+      syncStatus: 'pending' as const,
+      base,
+      ...fields,
+    })
+
+    it('should keep a local rename and a remote completion', async () => {
+      const remoteTask = createRemoteTask({ status: 'Completed' })
+      mockRemoteService.fetchTasks.mockResolvedValue([remoteTask])
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        createLocalTask({ title: 'Write the report' }),
+      ])
+
+      await syncService.sync()
+
+      expect(remoteTask.title).toBe('Write the report')
+      expect(remoteTask.status).toBe('Completed')
+      expect(remoteTask.save).toHaveBeenCalled()
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://pod.example/tasks/report',
+          title: 'Write the report',
+          status: 'Completed',
+        }),
+      )
+    })
+
+    it('should not write back when only the local side changed', async () => {
+      const remoteTask = createRemoteTask({})
+      mockRemoteService.fetchTasks.mockResolvedValue([remoteTask])
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        createLocalTask({ title: 'Write the report' }),
+      ])
+
+      await syncService.sync()
+
+      expect(remoteTask.title).toBe('Write the report')
+      expect(remoteTask.save).toHaveBeenCalled()
+      expect(mockLocalStore.saveTask).not.toHaveBeenCalled()
+    })
+
+    it('should keep the latest edit of a field changed on both sides', async () => {
+      syncService.setConflictResolution('last-write-wins')
+      const remoteTask = createRemoteTask({ title: 'Remote title' })
+      mockRemoteService.fetchTasks.mockResolvedValue([remoteTask])
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        createLocalTask({
+          title: 'Local title',
+          lastModified: '2026-01-17T09:00:00.000Z',
+          fieldModified: { title: '2026-01-15T09:00:00.000Z' },
+        }),
+      ])
+
+      await syncService.sync()
+
+      // The local title was edited before the remote update
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Remote title' }),
+      )
+      expect(remoteTask.save).not.toHaveBeenCalled()
+    })
+
+    it('should flag fields changed on both sides for the user', async () => {
+      const remoteTask = createRemoteTask({
+        title: 'Remote title',
+        status: 'Completed',
+      })
+      mockRemoteService.fetchTasks.mockResolvedValue([remoteTask])
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        createLocalTask({ title: 'Local title' }),
+      ])
+
+      await syncService.sync()
+
+      // The remote completion doesn't conflict, so it is taken right away
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Local title', status: 'Completed' }),
+      )
+      expect(mockLocalStore.markAsConflict).toHaveBeenCalledWith(
+        'https://pod.example/tasks/report',
+        {
+          remote: expect.objectContaining({ title: 'Remote title' }),
+          fields: ['title'],
+        },
+      )
+      expect(remoteTask.save).not.toHaveBeenCalled()
+    })
+
+    it('should leave conflicts flagged after syncing', async () => {
+      const remoteTask = createRemoteTask({})
+      mockRemoteService.fetchTasks.mockResolvedValue([remoteTask])
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        createLocalTask({ syncStatus: 'conflict' }),
+      ])
+
+      await syncService.sync()
+
+      expect(remoteTask.save).not.toHaveBeenCalled()
+      expect(mockLocalStore.saveTask).not.toHaveBeenCalled()
+      expect(mockLocalStore.markAsSynced).not.toHaveBeenCalled()
+    })
+
+    it('should use the configured conflict resolution', async () => {
+      syncService.setConflictResolution('local-wins')
+      const remoteTask = createRemoteTask({
+        title: 'Remote title',
+        status: 'Completed',
+      })
+      mockRemoteService.fetchTasks.mockResolvedValue([remoteTask])
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        createLocalTask({ title: 'Local title' }),
+      ])
+
+      await syncService.sync()
+
+      expect(remoteTask.title).toBe('Local title')
+      expect(remoteTask.status).toBe('Completed')
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Local title', status: 'Completed' }),
+      )
+    })
+    it('should merge again when the task changed remotely meanwhile', async () => {
+      const remoteTask = createRemoteTask({})
+      vi.mocked(remoteTask.save).mockRejectedValue(
+        new PreconditionFailedError(remoteTask.url!),
+      )
+      const latestTask = createRemoteTask({ status: 'Completed' })
+      mockRemoteService.fetchTasks.mockResolvedValue([remoteTask])
+      mockRemoteService.fetchTask.mockResolvedValue(latestTask)
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        createLocalTask({ title: 'Write the report' }),
+      ])
+
+      await syncService.sync()
+
+      expect(mockRemoteService.fetchTask).toHaveBeenCalledWith(
+        'https://pod.example/tasks/report',
+      )
+      expect(latestTask.title).toBe('Write the report')
+      expect(latestTask.status).toBe('Completed')
+      expect(latestTask.save).toHaveBeenCalled()
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Write the report',
+          status: 'Completed',
+        }),
+      )
+    })
+  })
+
+  describe('outbox', () => {
+    const storedTask = {
+      url: 'https://pod.example/tasks/report',
+      title: 'Write report',
+      lastModified: '2026-01-16T09:00:00.000Z',
+      syncStatus: 'synced' as const,
+    }
+
+    it('should log a new task once, however often it is saved', async () => {
+      const task = new TaskClass({
+        id: 'new-task',
+        name: 'New Task',
+        addedDate: new Date(),
+      })
+
+      await syncService.saveLocal(task)
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        { url: 'temp:new-task', title: 'New Task', syncStatus: 'pending' },
+      ])
+      await syncService.saveLocal(task)
+
+      expect(operations).toEqual([
+        expect.objectContaining({ type: 'create', url: 'temp:new-task' }),
+      ])
+    })
+
+    it('should log moving a task under another parent', async () => {
+      mockLocalStore.getAllTasks.mockResolvedValue([storedTask])
+      const task = new TaskClass({
+        id: 'report',
+        name: 'Write report',
+        addedDate: new Date(),
+        parentId: 'https://pod.example/tasks/project',
+      })
+      task.fullId = storedTask.url
+
+      await syncService.saveLocal(task)
+
+      expect(operations).toEqual([
+        expect.objectContaining({ type: 'move', url: storedTask.url }),
+      ])
+    })
+
+    it('should keep a failed remote delete for a later retry', async () => {
+      mockRemoteService.deleteTask.mockRejectedValue(new Error('Offline'))
+
+      await syncService.deleteTask(storedTask.url)
+
+      expect(mockLocalStore.deleteTask).toHaveBeenCalledWith(storedTask.url)
+      expect(operations).toEqual([
+        expect.objectContaining({
+          type: 'delete',
+          attempts: 1,
+          lastError: 'Offline',
+          nextAttemptAt: expect.any(String),
+        }),
+      ])
+
+      // Not retried before its time
+      await syncService.sync()
+      expect(mockRemoteService.deleteTask).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retry a failed operation once it is due', async () => {
+      await mockLocalStore.addOperation({
+        id: 'op-1',
+        type: 'delete',
+        url: storedTask.url,
+        createdAt: '2026-01-15T10:00:00.000Z',
+        attempts: 2,
+        nextAttemptAt: '2026-01-15T10:00:10.000Z',
+      })
+
+      await syncService.sync()
+
+      expect(mockRemoteService.deleteTask).toHaveBeenCalledWith(storedTask.url)
+      expect(operations).toEqual([])
+    })
+
+    it('should hold back later operations on a task that failed', async () => {
+      // Renamed locally, so the update is pushed to the remote
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        { ...storedTask, title: 'Renamed', syncStatus: 'pending' as const },
+      ])
+      mockRemoteService.fetchTasks.mockResolvedValue([
+        {
+          url: storedTask.url,
+          title: 'Write report',
+          save: vi.fn().mockRejectedValue(new Error('Server error')),
+        },
+      ])
+      await mockLocalStore.addOperation(
+        createOperation('update', storedTask.url),
+      )
+      await mockLocalStore.addOperation(
+        createOperation('delete', storedTask.url),
+      )
+      syncService.setConflictResolution('local-wins')
+
+      await syncService.sync()
+
+      expect(mockRemoteService.deleteTask).not.toHaveBeenCalled()
+      expect(operations.map(operation => operation.type)).toEqual([
+        'update',
+        'delete',
+      ])
+      expect(operations[0].attempts).toBe(1)
+      expect(mockLocalStore.markAsSynced).not.toHaveBeenCalledWith(
+        storedTask.url,
+      )
+    })
+
+    it('should not create a task twice when replaying a create', async () => {
+      const localTask = {
+        url: 'temp:abc',
+        title: 'Task A',
+        lastModified: '2026-01-15T10:05:00.000Z',
+        syncStatus: 'pending' as const,
+      }
+      mockLocalStore.getAllTasks.mockResolvedValue([localTask])
+      // Created by an earlier attempt, whose operation was kept
+      mockRemoteService.fetchTasks.mockResolvedValue([
+        { url: 'https://pod.example/tasks/abc', title: 'Task A' },
+      ])
+      await mockLocalStore.addOperation(createOperation('create', 'temp:abc'))
+      const TaskConstructor = vi.mocked(Task)
+      TaskConstructor.mockClear()
+
+      await syncService.sync()
+
+      expect(TaskConstructor).not.toHaveBeenCalled()
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://pod.example/tasks/abc' }),
+      )
+      expect(operations).toEqual([])
+    })
+
+    it('should update a task created by an earlier attempt not listed yet', async () => {
+      const localTask = {
+        url: 'temp:abc',
+        title: 'Task A, renamed',
+        lastModified: '2026-01-15T10:05:00.000Z',
+        syncStatus: 'pending' as const,
+      }
+      mockLocalStore.getAllTasks.mockResolvedValue([localTask])
+      await mockLocalStore.addOperation(createOperation('create', 'temp:abc'))
+      vi.mocked(Task).mockImplementationOnce(
+        () =>
+          ({
+            save: vi
+              .fn()
+              .mockRejectedValue(
+                new PreconditionFailedError('https://pod.example/tasks/abc'),
+              ),
+          }) as unknown as Task,
+      )
+      const created = {
+        url: 'https://pod.example/tasks/abc',
+        title: 'Task A',
+        save: vi.fn(),
+      }
+      mockRemoteService.fetchTask.mockResolvedValue(created)
+
+      await syncService.sync()
+
+      expect(created.save).toHaveBeenCalled()
+      expect(created.title).toBe('Task A, renamed')
+      expect(operations).toEqual([])
+    })
+
+    it.each(['create', 'update', 'move', 'delete'] as const)(
+      'should not apply a %s again after the app stopped before removing it',
+      async type => {
+        const url = type === 'create' ? 'temp:report' : storedTask.url
+        const remoteTask = { ...storedTask, save: vi.fn() }
+        if (type !== 'delete') {
+          mockLocalStore.getAllTasks.mockResolvedValue([
+            {
+              ...storedTask,
+              url,
+              title: 'Renamed',
+              parentTaskUrl:
+                type === 'move'
+                  ? 'https://pod.example/tasks/project'
+                  : undefined,
+              syncStatus: 'pending' as const,
+            },
+          ])
+        }
+        if (type === 'update' || type === 'move') {
+          mockRemoteService.fetchTasks.mockResolvedValue([remoteTask])
+        }
+        syncService.setConflictResolution('local-wins')
+        const TaskConstructor = vi.mocked(Task)
+        TaskConstructor.mockClear()
+        const remoteWrites = () =>
+          TaskConstructor.mock.results.length +
+          remoteTask.save.mock.calls.length +
+          mockRemoteService.deleteTask.mock.calls.length
+
+        await mockLocalStore.addOperation(createOperation(type, url))
+        const outbox = [...operations]
+        // The app stops once the operation is applied
+        mockLocalStore.completeOperation.mockRejectedValueOnce(
+          new Error('App stopped'),
+        )
+        await syncService.sync()
+        expect(remoteWrites()).toBe(1)
+
+        // Started again, with the outbox as it was left
+        operations = outbox
+        await new SyncService(
+          mockLocalStore as unknown as IndexedDBTaskStorage,
+          mockRemoteService,
+        ).sync()
+
+        expect(remoteWrites()).toBe(1)
+        expect(operations).toEqual([])
+      },
+    )
+
+    it('should drop the operations of a task never created remotely', async () => {
+      await mockLocalStore.addOperation(createOperation('create', 'temp:abc'))
+
+      await syncService.deleteTask('temp:abc')
+
+      expect(operations).toEqual([])
+      expect(mockRemoteService.deleteTask).not.toHaveBeenCalled()
+    })
+
+    it('should report the number of pending operations', async () => {
+      const listener = vi.fn()
+      syncService.onPendingOperationsChange(listener)
+      mockRemoteService.deleteTask.mockRejectedValue(new Error('Offline'))
+
+      await syncService.deleteTask(storedTask.url)
+
+      expect(listener).toHaveBeenLastCalledWith(1)
+    })
+  })
+
+  describe('stable identity of new tasks', () => {
+    type Record = { url: string; syncStatus: string; [key: string]: unknown }
+    let records: Map<string, Record>
+    let created: Task[]
+
+    // A subtree created offline: project > phase > step
+    const createSubtree = () => {
+      const addedDate = new Date('2026-01-15T10:00:00.000Z')
+      const project = new TaskClass({
+        id: 'project',
+        name: 'Project',
+        addedDate,
+        childIds: ['phase'],
+      })
+      const phase = new TaskClass({
+        id: 'phase',
+        name: 'Phase',
+        addedDate,
+        parentId: 'project',
+        childIds: ['step'],
+      })
+      const step = new TaskClass({
+        id: 'step',
+        name: 'Step',
+        addedDate,
+        parentId: 'phase',
+        dependsOn: ['phase'],
+      })
+      return [project, phase, step]
+    }
+
+    beforeEach(() => {
+      // In-memory local records
+      records = new Map()
+      mockLocalStore.saveTask.mockImplementation(async (task: Record) => {
+        records.set(task.url, { ...task, syncStatus: 'pending' })
+      })
+      mockLocalStore.getAllTasks.mockImplementation(async () => [
+        ...records.values(),
+      ])
+      mockLocalStore.deleteTask.mockImplementation(async (url: string) => {
+        records.delete(url)
+      })
+      mockLocalStore.markAsSynced.mockImplementation(async (url: string) => {
+        const record = records.get(url)
+        if (record) records.set(url, { ...record, syncStatus: 'synced' })
+      })
+
+      created = []
+      vi.mocked(Task).mockImplementation(() => {
+        const task = { url: undefined, title: '' } as unknown as Task
+        task.save = vi.fn(async () => {
+          created.push(task)
+        }) as unknown as Task['save']
+        return task
+      })
+    })
+
+    it('should create new subtrees at URLs derived from the task ids', async () => {
+      for (const task of createSubtree()) {
+        await syncService.saveLocal(task)
+      }
+
+      await syncService.sync()
+
+      expect(created.map(task => task.url)).toEqual([
+        'https://pod.example/tasks/project',
+        'https://pod.example/tasks/phase',
+        'https://pod.example/tasks/step',
+      ])
+      expect(created[0].subTaskUrls).toEqual(['phase'])
+      expect(created[2].parentTaskUrl).toBe('phase')
+      expect([...records.keys()]).toEqual([
+        'https://pod.example/tasks/project',
+        'https://pod.example/tasks/phase',
+        'https://pod.example/tasks/step',
+      ])
+      expect(operations).toEqual([])
+    })
+
+    it('should keep task ids and relationships after the first sync', async () => {
+      for (const task of createSubtree()) {
+        await syncService.saveLocal(task)
+      }
+
+      await syncService.sync()
+      const tasks = await syncService.loadLocal()
+
+      const step = tasks.find(task => task.id === 'step')!
+      expect(tasks.map(task => task.id)).toEqual(['project', 'phase', 'step'])
+      expect(tasks.find(task => task.id === 'project')!.childIds).toEqual([
+        'phase',
+      ])
+      expect(step.parentId).toBe('phase')
+      expect(step.dependsOn).toEqual(['phase'])
+      expect(step.fullId).toBe('https://pod.example/tasks/step')
+    })
+
+    it('should tell listeners the URLs new tasks were created at', async () => {
+      const listener = vi.fn()
+      syncService.onTaskUrlsChange(listener)
+      await syncService.saveLocal(createSubtree()[0])
+
+      await syncService.sync()
+
+      expect(listener).toHaveBeenCalledWith(
+        new Map([['temp:project', 'https://pod.example/tasks/project']]),
+      )
+    })
+
+    it('should save later edits of a created task at its new URL', async () => {
+      const [project] = createSubtree()
+      await syncService.saveLocal(project)
+      await syncService.sync()
+
+      // Still without the URL it was created at
+      project.name = 'Renamed project'
+      await syncService.saveLocal(project)
+
+      expect([...records.keys()]).toEqual(['https://pod.example/tasks/project'])
+      expect(operations).toEqual([
+        expect.objectContaining({
+          type: 'update',
+          url: 'https://pod.example/tasks/project',
+        }),
+      ])
+    })
+
+    it('should refer to tasks by id instead of temp: URL', async () => {
+      records.set('https://pod.example/tasks/phase', {
+        url: 'https://pod.example/tasks/phase',
+        title: 'Phase',
+        subTaskUrls: ['temp:step'],
+        parentTaskUrl: 'temp:project',
+        syncStatus: 'synced',
+      })
+      mockRemoteService.fetchTasks.mockResolvedValue([
+        { url: 'https://pod.example/tasks/phase', title: 'Phase' },
+      ])
+
+      await syncService.sync()
+
+      expect(records.get('https://pod.example/tasks/phase')).toEqual(
+        expect.objectContaining({
+          subTaskUrls: ['step'],
+          parentTaskUrl: 'project',
+        }),
+      )
+    })
+  })
+
+  describe('remote deletions', () => {
+    const base = { title: 'Write report' }
+    const deletedAt = new Date('2026-01-16T12:00:00.000Z')
+    const editedTask = {
+      url: 'https://pod.example/tasks/report',
+      title: 'Write the report',
+      base,
+      lastModified: '2026-01-16T15:00:00.000Z', // After the deletion
+      syncStatus: 'pending' as const,
+    }
+
+    beforeEach(() => {
+      mockRemoteService.fetchDeletions.mockResolvedValue([
+        { url: editedTask.url, deletedAt },
+      ])
+    })
+
+    it('should delete tasks deleted remotely and unchanged locally', async () => {
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        { ...editedTask, syncStatus: 'synced' as const },
+      ])
+
+      await syncService.sync()
+
+      expect(mockLocalStore.deleteTask).toHaveBeenCalledWith(editedTask.url)
+      expect(mockLocalStore.markAsConflict).not.toHaveBeenCalled()
+    })
+
+    it('should delete tasks edited locally before they were deleted', async () => {
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        { ...editedTask, lastModified: '2026-01-16T09:00:00.000Z' },
+      ])
+
+      await syncService.sync()
+
+      expect(mockLocalStore.deleteTask).toHaveBeenCalledWith(editedTask.url)
+    })
+
+    it('should flag tasks edited locally after they were deleted', async () => {
+      mockLocalStore.getAllTasks.mockResolvedValue([editedTask])
+      await mockLocalStore.addOperation(
+        createOperation('update', editedTask.url),
+      )
+
+      await syncService.sync()
+
+      expect(mockLocalStore.deleteTask).not.toHaveBeenCalled()
+      expect(mockLocalStore.markAsConflict).toHaveBeenCalledWith(
+        editedTask.url,
+        {
+          remote: base,
+          fields: ['title'],
+          deleted: true,
+          deletedAt: deletedAt.toISOString(),
+        },
+      )
+      expect(operations).toEqual([])
+    })
+
+    it('should keep local edits to tasks deleted at an unknown time', async () => {
+      mockRemoteService.fetchDeletions.mockResolvedValue([
+        { url: editedTask.url },
+      ])
+      mockLocalStore.getAllTasks.mockResolvedValue([editedTask])
+
+      await syncService.sync()
+
+      expect(mockLocalStore.deleteTask).not.toHaveBeenCalled()
+      expect(mockLocalStore.markAsConflict).toHaveBeenCalledWith(
+        editedTask.url,
+        expect.objectContaining({ deleted: true, deletedAt: undefined }),
+      )
+    })
+
+    it('should keep tasks missing remotely without a tombstone', async () => {
+      // e.g. the container could not be read
+      mockRemoteService.fetchDeletions.mockResolvedValue([])
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        editedTask,
+        { ...editedTask, url: 'https://pod.example/tasks/slides' },
+        {
+          ...editedTask,
+          url: 'https://pod.example/tasks/notes',
+          syncStatus: 'synced' as const,
+        },
+      ])
+
+      await syncService.sync()
+
+      expect(mockLocalStore.deleteTask).not.toHaveBeenCalled()
+      expect(mockLocalStore.markAsConflict).not.toHaveBeenCalled()
+    })
+
+    it('should create tasks edited locally again if missing without a tombstone', async () => {
+      mockRemoteService.fetchDeletions.mockResolvedValue([])
+      mockLocalStore.getAllTasks.mockResolvedValue([editedTask])
+      await mockLocalStore.addOperation(
+        createOperation('update', editedTask.url),
+      )
+      const TaskConstructor = vi.mocked(Task)
+      TaskConstructor.mockClear()
+
+      await syncService.sync()
+
+      const created = TaskConstructor.mock.results[0].value
+      expect(created.url).toBe(editedTask.url)
+      expect(created.title).toBe('Write the report')
+      expect(created.save).toHaveBeenCalled()
+      expect(operations).toEqual([])
+    })
+
+    it('should not create tasks deleted remotely again', async () => {
+      mockLocalStore.getAllTasks.mockResolvedValue([editedTask])
+      await mockLocalStore.addOperation(
+        createOperation('update', editedTask.url),
+      )
+      const TaskConstructor = vi.mocked(Task)
+      TaskConstructor.mockClear()
+
+      await syncService.sync()
+
+      expect(TaskConstructor).not.toHaveBeenCalled()
+    })
+
+    it('should restore a deleted task by creating it again', async () => {
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        {
+          ...editedTask,
+          syncStatus: 'conflict',
+          conflict: { remote: base, fields: ['title'], deleted: true },
+        },
+      ])
+
+      await syncService.resolveDeletion(editedTask.url, true)
+
+      expect(mockLocalStore.deleteTask).toHaveBeenCalledWith(editedTask.url)
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'temp:report',
+          title: 'Write the report',
+        }),
+      )
+      expect(operations).toEqual([
+        expect.objectContaining({ type: 'create', url: 'temp:report' }),
+      ])
+    })
+
+    it('should apply the deletion if the task is not restored', async () => {
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        {
+          ...editedTask,
+          syncStatus: 'conflict',
+          conflict: { remote: base, fields: ['title'], deleted: true },
+        },
+      ])
+
+      await syncService.resolveDeletion(editedTask.url, false)
+
+      expect(mockLocalStore.deleteTask).toHaveBeenCalledWith(editedTask.url)
+      expect(mockLocalStore.saveTask).not.toHaveBeenCalled()
+      expect(operations).toEqual([])
+    })
+  })
+
+  describe('live updates', () => {
+    const syncedTask = {
+      url: 'https://pod.example/tasks/report',
+      title: 'Write report',
+      lastModified: '2026-01-16T09:00:00.000Z',
+      syncStatus: 'synced' as const,
+    }
+
+    // A subscription that can follow every resource
+    let subscription: {
+      close: ReturnType<typeof vi.fn>
+      follow: ReturnType<typeof vi.fn>
+    }
+
+    beforeEach(() => {
+      mockLocalStore.getAllTasks.mockResolvedValue([syncedTask])
+      subscription = {
+        close: vi.fn(),
+        follow: vi.fn(async (urls: string[]) => urls),
+      }
+    })
+
+    afterEach(() => {
+      syncService.stopAutoSync()
+      vi.useRealTimers()
+    })
+
+    it('should pull only the tasks notified as changed', async () => {
+      const listener = vi.fn()
+      syncService.onRemoteChange(listener)
+      mockRemoteService.fetchTask.mockResolvedValue({
+        url: syncedTask.url,
+        title: 'Write the report',
+      })
+
+      await syncService.pullChanges([syncedTask.url])
+
+      expect(mockRemoteService.fetchTask).toHaveBeenCalledWith(syncedTask.url)
+      expect(mockRemoteService.fetchTasks).not.toHaveBeenCalled()
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: syncedTask.url,
+          title: 'Write the report',
+        }),
+      )
+      expect(listener).toHaveBeenCalled()
+    })
+
+    it('should ignore notifications of changes already pulled', async () => {
+      const listener = vi.fn()
+      syncService.onRemoteChange(listener)
+      mockRemoteService.fetchTask.mockResolvedValue({
+        url: syncedTask.url,
+        title: syncedTask.title,
+      })
+
+      await syncService.pullChanges([syncedTask.url])
+
+      expect(mockLocalStore.saveTask).not.toHaveBeenCalled()
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should remove tasks notified as deleted', async () => {
+      mockRemoteService.fetchDeletions.mockResolvedValue([
+        { url: syncedTask.url },
+      ])
+
+      await syncService.pullChanges([syncedTask.url])
+
+      expect(mockLocalStore.deleteTask).toHaveBeenCalledWith(syncedTask.url)
+    })
+
+    it('should keep tasks notified as missing without a tombstone', async () => {
+      // e.g. a notification arriving before the tombstone is written
+      await syncService.pullChanges([syncedTask.url])
+
+      expect(mockRemoteService.fetchDeletions).toHaveBeenCalled()
+      expect(mockLocalStore.deleteTask).not.toHaveBeenCalled()
+    })
+
+    it('should fully sync changes to tasks also changed locally', async () => {
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        { ...syncedTask, syncStatus: 'pending' as const },
+      ])
+
+      await syncService.pullChanges([syncedTask.url])
+
+      expect(mockRemoteService.fetchTasks).toHaveBeenCalled()
+      expect(mockRemoteService.fetchTask).not.toHaveBeenCalled()
+    })
+
+    it('should pull changes as they are notified instead of polling', async () => {
+      vi.useFakeTimers()
+      mockRemoteService.subscribeToChanges.mockResolvedValue(subscription)
+
+      syncService.startAutoSync(60000)
+      await vi.advanceTimersByTimeAsync(0)
+      const [{ onChange }] = mockRemoteService.subscribeToChanges.mock.calls[0]
+      onChange(syncedTask.url)
+      await vi.advanceTimersByTimeAsync(60000)
+
+      expect(mockRemoteService.fetchTask).toHaveBeenCalledTimes(1)
+      expect(mockRemoteService.fetchTasks).not.toHaveBeenCalled()
+    })
+
+    it('should pull a change notified for a subtask only', async () => {
+      vi.useFakeTimers()
+      const subtask = {
+        url: 'https://pod.example/tasks/outline',
+        title: 'Outline',
+        parentTaskUrl: syncedTask.url,
+        lastModified: '2026-01-16T09:00:00.000Z',
+        syncStatus: 'synced' as const,
+      }
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        { ...syncedTask, subTaskUrls: [subtask.url] },
+        subtask,
+      ])
+      mockRemoteService.subscribeToChanges.mockResolvedValue(subscription)
+      mockRemoteService.fetchTask.mockResolvedValue({
+        url: subtask.url,
+        title: 'Outline the report',
+        parentTaskUrl: syncedTask.url,
+      })
+
+      syncService.startAutoSync(60000)
+      await vi.advanceTimersByTimeAsync(0)
+      expect(mockRemoteService.subscribeToChanges).toHaveBeenCalledTimes(1)
+      expect(subscription.follow).toHaveBeenLastCalledWith([
+        syncedTask.url,
+        subtask.url,
+      ])
+
+      const [{ onChange }] = mockRemoteService.subscribeToChanges.mock.calls[0]
+      onChange(subtask.url)
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(mockRemoteService.fetchTask).toHaveBeenCalledWith(subtask.url)
+      expect(mockRemoteService.fetchTasks).not.toHaveBeenCalled()
+      expect(mockLocalStore.saveTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: subtask.url,
+          title: 'Outline the report',
+        }),
+      )
+    })
+
+    it('should stop following the tasks deleted remotely', async () => {
+      vi.useFakeTimers()
+      mockRemoteService.subscribeToChanges.mockResolvedValue(subscription)
+
+      syncService.startAutoSync(60000)
+      await vi.advanceTimersByTimeAsync(0)
+      expect(subscription.follow).toHaveBeenLastCalledWith([syncedTask.url])
+      mockLocalStore.getAllTasks.mockResolvedValue([])
+      await syncService.pullChanges([syncedTask.url])
+
+      expect(subscription.follow).toHaveBeenLastCalledWith([])
+      expect(subscription.close).not.toHaveBeenCalled()
+    })
+
+    it('should also poll when the Pod cannot follow every task', async () => {
+      vi.useFakeTimers()
+      mockRemoteService.subscribeToChanges.mockResolvedValue({
+        ...subscription,
+        follow: vi.fn(async () => []),
+      })
+
+      syncService.startAutoSync(60000)
+      await vi.advanceTimersByTimeAsync(60000)
+
+      expect(mockRemoteService.fetchTasks).toHaveBeenCalledTimes(1)
+    })
+
+    it('should poll once notifications stop', async () => {
+      vi.useFakeTimers()
+      mockRemoteService.subscribeToChanges.mockResolvedValue(subscription)
+
+      syncService.startAutoSync(60000)
+      await vi.advanceTimersByTimeAsync(0)
+      const [{ onClose }] = mockRemoteService.subscribeToChanges.mock.calls[0]
+      onClose()
+      await vi.advanceTimersByTimeAsync(60000)
+
+      expect(mockRemoteService.fetchTasks).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('multiple tabs', () => {
+    let isLeader: boolean
+    let receive: (message: TabMessage) => void
+    let takeOver: () => void
+    let tabs: {
+      isLeader: boolean
+      broadcast: ReturnType<typeof vi.fn>
+      onMessage: ReturnType<typeof vi.fn>
+      onLeadership: ReturnType<typeof vi.fn>
+    }
+
+    beforeEach(() => {
+      isLeader = false
+      tabs = {
+        get isLeader() {
+          return isLeader
+        },
+        broadcast: vi.fn(),
+        onMessage: vi.fn(callback => (receive = callback)),
+        onLeadership: vi.fn(callback => (takeOver = callback)),
+      }
+      syncService = new SyncService(
+        mockLocalStore as unknown as IndexedDBTaskStorage,
+        mockRemoteService,
+        tabs as unknown as TabCoordinator,
+      )
+    })
+
+    afterEach(() => {
+      syncService.stopAutoSync()
+      vi.useRealTimers()
+    })
+
+    it('should have the syncing tab sync for the others', async () => {
+      await syncService.sync()
+
+      expect(mockRemoteService.fetchTasks).not.toHaveBeenCalled()
+      expect(tabs.broadcast).toHaveBeenCalledWith({ type: 'sync-requested' })
+    })
+
+    it('should sync when another tab asks to', async () => {
+      isLeader = true
+
+      receive({ type: 'sync-requested' })
+      await vi.waitFor(() => {
+        expect(mockRemoteService.fetchTasks).toHaveBeenCalled()
+      })
+      expect(tabs.broadcast).toHaveBeenCalledWith({
+        type: 'status',
+        status: 'syncing',
+      })
+    })
+
+    it('should tell the other tabs about local changes', async () => {
+      await syncService.saveLocal(
+        new TaskClass({ id: 'task-1', name: 'Task', addedDate: new Date() }),
+      )
+
+      expect(tabs.broadcast).toHaveBeenCalledWith({
+        type: 'changed',
+        urls: ['temp:task-1'],
+      })
+    })
+
+    it('should reload once for changes made together in another tab', async () => {
+      vi.useFakeTimers()
+      const listener = vi.fn()
+      syncService.onRemoteChange(listener)
+
+      receive({ type: 'changed', urls: ['temp:task-1'] })
+      receive({ type: 'changed', urls: ['temp:task-2', 'temp:task-1'] })
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith(['temp:task-1', 'temp:task-2'])
+    })
+
+    it('should reload all tasks when another tab does not say which changed', async () => {
+      vi.useFakeTimers()
+      const listener = vi.fn()
+      syncService.onRemoteChange(listener)
+
+      receive({ type: 'changed', urls: ['temp:task-1'] })
+      receive({ type: 'changed' })
+      await vi.advanceTimersByTimeAsync(100)
+      receive({ type: 'changed', urls: ['temp:task-2'] })
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(listener.mock.calls).toEqual([[undefined], [['temp:task-2']]])
+    })
+
+    it('should show the sync status of the syncing tab', () => {
+      const listener = vi.fn()
+      syncService.onStatusChange(listener)
+
+      receive({ type: 'status', status: 'syncing' })
+
+      expect(listener).toHaveBeenCalledWith('syncing')
+      expect(syncService.getStatus()).toBe('syncing')
+    })
+
+    it('should start syncing once it takes over', async () => {
+      syncService.startAutoSync(60000)
+      expect(mockRemoteService.subscribeToChanges).not.toHaveBeenCalled()
+
+      isLeader = true
+      takeOver()
+
+      expect(mockRemoteService.subscribeToChanges).toHaveBeenCalled()
+      await vi.waitFor(() => {
+        expect(mockRemoteService.fetchTasks).toHaveBeenCalled()
+      })
+    })
+  })
+
+  describe('conflicts', () => {
+    it('should list conflicted tasks with both versions', async () => {
+      mockLocalStore.getConflictedTasks.mockResolvedValue([
+        {
+          url: 'https://pod.example/tasks/report',
+          title: 'Local title',
+          lastModified: '2026-01-16T09:00:00.000Z',
+          syncStatus: 'conflict',
+          conflict: { remote: { title: 'Remote title' }, fields: ['title'] },
+        },
+      ])
+
+      const conflicts = await syncService.getConflicts()
+
+      expect(conflicts).toEqual([
+        {
+          url: 'https://pod.example/tasks/report',
+          local: expect.objectContaining({ title: 'Local title' }),
+          remote: { title: 'Remote title' },
+          fields: ['title'],
+        },
+      ])
+    })
+
+    it('should save the resolved fields locally', async () => {
+      await syncService.resolveConflict('https://pod.example/tasks/report', {
+        title: 'Combined title',
+      })
+
+      expect(mockLocalStore.resolveConflict).toHaveBeenCalledWith(
+        'https://pod.example/tasks/report',
+        { title: 'Combined title' },
+      )
+    })
+  })
+
+  describe('calendar feed', () => {
+    let publishCalendarFeed: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      publishCalendarFeed = vi.fn()
+      syncService.setRemoteService({
+        ...mockRemoteService,
+        publishCalendarFeed,
+      })
+      let builds = 0
+      syncService.setFeedBuilder({
+        build: tasks =>
+          `Build ${++builds}\n` +
+          tasks.map(task => `Due: ${task.name}\n`).join(''),
+        withoutTimestamps: feed => feed.replace(/^Build.*\n/, ''),
+      })
+      mockLocalStore.getAllTasks.mockResolvedValue([
+        {
+          url: 'https://pod.example/tasks/report',
+          title: 'Write report',
+          endDate: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          lastModified: '2026-01-16T09:00:00.000Z',
+          syncStatus: 'synced',
+        },
+      ])
+    })
+
+    it('should publish the upcoming deadlines after a sync', async () => {
+      await syncService.sync()
+
+      expect(publishCalendarFeed).toHaveBeenCalledTimes(1)
+      expect(publishCalendarFeed.mock.calls[0][0]).toContain(
+        'Due: Write report',
+      )
+    })
+
+    it('should not publish a feed without a way to build it', async () => {
+      syncService.setFeedBuilder(null)
+
+      await syncService.sync()
+
+      expect(publishCalendarFeed).not.toHaveBeenCalled()
+    })
+
+    it('should only publish the feed again when it changed', async () => {
+      await syncService.sync()
+      await syncService.sync()
+      expect(publishCalendarFeed).toHaveBeenCalledTimes(1)
+
+      mockLocalStore.getAllTasks.mockResolvedValue([])
+      await syncService.sync()
+      expect(publishCalendarFeed).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not fail the sync when the feed cannot be published', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      publishCalendarFeed.mockRejectedValue(new Error('Forbidden'))
+
+      await syncService.sync()
+
+      expect(syncService.getStatus()).toBe('idle')
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Failed to publish the calendar feed:',
+        expect.any(Error),
+      )
+      errorSpy.mockRestore()
+    })
+  })
+
   describe('loadLocal with Date conversion', () => {
     it('should convert ISO strings from IndexedDB to Date objects', async () => {
       const storedTasks = [
@@ -373,6 +1648,100 @@ describe('SyncService', () => {
       expect(task.endDate).toBeUndefined()
     })
 
+    it('should restore dependencies from dependsOnUrls', async () => {
+      const storedTasks = [
+        {
+          url: 'https://example.com/blocked',
+          title: 'Blocked',
+          dependsOnUrls: ['blocker-1'],
+          lastModified: '2026-01-15T10:00:00.000Z',
+          syncStatus: 'synced' as const,
+        },
+      ]
+
+      mockLocalStore.getAllTasks.mockResolvedValue(storedTasks)
+
+      const tasks = await syncService.loadLocal()
+
+      expect(tasks[0].dependsOn).toEqual(['blocker-1'])
+      expect(tasks[0].childIds).toEqual([])
+    })
+
+    it('should restore the recurrence and estimated effort', async () => {
+      const storedTasks = [
+        {
+          url: 'https://example.com/monthly',
+          title: 'Monthly Invoices',
+          recurrenceRule: 'FREQ=MONTHLY;COUNT=3',
+          estimatedEffort: 3,
+          completedDate: '2026-01-18T16:30:00.000Z',
+          rolloverCount: 2,
+          lastModified: '2026-01-15T10:00:00.000Z',
+          syncStatus: 'synced' as const,
+        },
+      ]
+
+      mockLocalStore.getAllTasks.mockResolvedValue(storedTasks)
+
+      const tasks = await syncService.loadLocal()
+
+      expect(tasks[0].recurrence).toEqual({
+        frequency: RecurrenceFrequency.MONTHLY,
+        interval: 1,
+        count: 3,
+      })
+      expect(tasks[0].estimatedEffort).toBe(3)
+      expect(tasks[0].completedDate).toEqual(
+        new Date('2026-01-18T16:30:00.000Z'),
+      )
+      expect(tasks[0].rolloverCount).toBe(2)
+    })
+
+    it('should restore the tombstone of a trashed task', async () => {
+      const storedTasks = [
+        {
+          url: 'https://example.com/dropped',
+          title: 'Dropped',
+          status: 'Cancelled',
+          tombstoneReason: 'Plans changed',
+          tombstonedDate: '2026-02-01T09:00:00.000Z',
+          lastModified: '2026-02-01T09:00:00.000Z',
+          syncStatus: 'synced' as const,
+        },
+      ]
+
+      mockLocalStore.getAllTasks.mockResolvedValue(storedTasks)
+
+      const tasks = await syncService.loadLocal()
+
+      expect(tasks[0].tombstoned).toBe(true)
+      expect(tasks[0].tombstoneReason).toBe('Plans changed')
+      expect(tasks[0].tombstonedDate).toEqual(
+        new Date('2026-02-01T09:00:00.000Z'),
+      )
+    })
+
+    it('should load only the tasks asked for, leaving out missing ones', async () => {
+      mockLocalStore.getAllTasks.mockResolvedValue(
+        ['task1', 'task2'].map(id => ({
+          url: `https://example.com/${id}`,
+          title: id,
+          lastModified: '2026-01-15T10:00:00.000Z',
+          syncStatus: 'synced' as const,
+        })),
+      )
+
+      const tasks = await syncService.loadLocalTasks([
+        'https://example.com/task2',
+        'https://example.com/deleted',
+      ])
+
+      expect(tasks).toHaveLength(1)
+      expect(tasks[0]).toBeInstanceOf(TaskClass)
+      expect(tasks[0].fullId).toBe('https://example.com/task2')
+      expect(tasks[0].name).toBe('task2')
+    })
+
     it('should convert plain array childIds', async () => {
       const storedTasks = [
         {
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { TabCoordinator } from '@/storage/sync/tabs'
+
+class MockBroadcastChannel extends EventTarget {
+  static instances: MockBroadcastChannel[] = []
+  postMessage = vi.fn()
+  name: string
+
+  constructor(name: string) {
+    super()
+    this.name = name
+    MockBroadcastChannel.instances.push(this)
+  }
+
+  receive(data: unknown) {
+    this.dispatchEvent(new MessageEvent('message', { data }))
+  }
+}
+
+describe('TabCoordinator', () => {
+  let grantLock: (() => void) | undefined
+
+  beforeEach(() => {
+    MockBroadcastChannel.instances = []
+    grantLock = undefined
+    vi.stubGlobal('BroadcastChannel', MockBroadcastChannel)
+    vi.stubGlobal('navigator', {
+      locks: {
+        request: vi.fn(
+          (_name: string, callback: () => Promise<void>) =>
+            new Promise<void>(resolve => {
+              grantLock = () => callback().then(resolve)
+            }),
+        ),
+      },
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should lead once it holds the lock', () => {
+    const tabs = new TabCoordinator()
+    const listener = vi.fn()
+    tabs.onLeadership(listener)
+
+    expect(tabs.isLeader).toBe(false)
+    expect(navigator.locks.request).toHaveBeenCalledWith(
+      'solid-planner-sync',
+      expect.any(Function),
+    )
+
+    grantLock!()
+
+    expect(tabs.isLeader).toBe(true)
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('should lead without Web Locks', () => {
+    vi.stubGlobal('navigator', {})
+
+    expect(new TabCoordinator().isLeader).toBe(true)
+  })
+
+  it('should exchange messages with the other tabs', () => {
+    const tabs = new TabCoordinator()
+    const listener = vi.fn()
+    tabs.onMessage(listener)
+    const [channel] = MockBroadcastChannel.instances
+
+    tabs.broadcast({ type: 'changed' })
+    channel.receive({ type: 'sync-requested' })
+
+    expect(channel.name).toBe('solid-planner')
+    expect(channel.postMessage).toHaveBeenCalledWith({ type: 'changed' })
+    expect(listener).toHaveBeenCalledWith({ type: 'sync-requested' })
+  })
+})
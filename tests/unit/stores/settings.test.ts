@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { setupPinia } from '../../helpers/pinia'
+import { useSettingsStore, DEFAULT_SETTINGS } from '@/stores/settings'
+import { DEFAULT_CALENDAR, getCalendar, setCalendar } from '@/utils/calendar'
+import { TaskClass, Status } from '@/models/TaskClass'
+import { TaskGraph } from '@/models/TaskGraph'
+
+const metadata = new Map<string, string | number | boolean>()
+
+const storageMock = {
+  getMetadata: vi.fn(async (key: string) => metadata.get(key)),
+  setMetadata: vi.fn(async (key: string, value: string | number | boolean) => {
+    metadata.set(key, value)
+  }),
+}
+
+vi.mock('@/storage/local/indexeddb-storage', () => ({
+  getIndexedDBStorage: vi.fn(() => storageMock),
+}))
+
+describe('useSettingsStore', () => {
+  beforeEach(() => {
+    setupPinia()
+    metadata.clear()
+    vi.clearAllMocks()
+    setCalendar(DEFAULT_CALENDAR)
+  })
+
+  it('should start with the default settings', () => {
+    const settings = useSettingsStore()
+
+    expect(settings.weeklyCapacity).toBe(DEFAULT_SETTINGS.weeklyCapacity)
+    expect(settings.effortUnit).toBe('hours')
+    expect(settings.planningMode).toBe(false)
+    expect(settings.effortSuffix).toBe('h')
+  })
+
+  it('should load saved settings', async () => {
+    metadata.set('settings.weeklyCapacity', 25)
+    metadata.set('settings.effortUnit', 'points')
+    metadata.set('settings.planningMode', true)
+
+    const settings = useSettingsStore()
+    await settings.loadSettings()
+
+    expect(settings.weeklyCapacity).toBe(25)
+    expect(settings.effortUnit).toBe('points')
+    expect(settings.effortSuffix).toBe('pts')
+    expect(settings.planningMode).toBe(true)
+    expect(settings.loaded).toBe(true)
+  })
+
+  it('should ignore saved values of the wrong type', async () => {
+    metadata.set('settings.weeklyCapacity', 'lots')
+
+    const settings = useSettingsStore()
+    await settings.loadSettings()
+
+    expect(settings.weeklyCapacity).toBe(DEFAULT_SETTINGS.weeklyCapacity)
+  })
+
+  it('should only load once', async () => {
+    const settings = useSettingsStore()
+    await settings.loadSettings()
+    await settings.loadSettings()
+
+    expect(storageMock.getMetadata).toHaveBeenCalledTimes(
+      Object.keys(DEFAULT_SETTINGS).length,
+    )
+  })
+
+  it('should save updated settings', async () => {
+    const settings = useSettingsStore()
+
+    await settings.updateSetting('weeklyCapacity', 32)
+
+    expect(settings.weeklyCapacity).toBe(32)
+    expect(storageMock.setMetadata).toHaveBeenCalledWith(
+      'settings.weeklyCapacity',
+      32,
+    )
+  })
+
+  it('should save priority weights as JSON', async () => {
+    const settings = useSettingsStore()
+
+    await settings.setPriorityWeight('eisenhower', 'urgent', 400)
+
+    expect(settings.priorityWeights).toEqual({ eisenhower: { urgent: 400 } })
+    expect(metadata.get('settings.priorityWeights')).toBe(
+      JSON.stringify({ eisenhower: { urgent: 400 } }),
+    )
+  })
+
+  it('should load priority weights saved as JSON', async () => {
+    metadata.set('settings.priorityStrategy', 'eisenhower')
+    metadata.set(
+      'settings.priorityWeights',
+      JSON.stringify({ eisenhower: { focusThreshold: 300 } }),
+    )
+
+    const settings = useSettingsStore()
+    await settings.loadSettings()
+
+    expect(settings.priorityStrategy).toBe('eisenhower')
+    expect(settings.priorityScorer.focusThreshold).toBe(300)
+  })
+
+  it('should ignore malformed priority weights', async () => {
+    metadata.set('settings.priorityWeights', '{not json')
+
+    const settings = useSettingsStore()
+    await settings.loadSettings()
+
+    expect(settings.priorityWeights).toEqual({})
+  })
+
+  it('should reset the weights of one strategy', async () => {
+    const settings = useSettingsStore()
+    await settings.setPriorityWeight('default', 'overdue', 5)
+    await settings.setPriorityWeight('eisenhower', 'urgent', 400)
+
+    await settings.resetPriorityWeights('default')
+
+    expect(settings.priorityWeights).toEqual({ eisenhower: { urgent: 400 } })
+  })
+
+  it('should apply the saved calendar', async () => {
+    metadata.set('settings.weekStartsOn', 1)
+    metadata.set('settings.workingDays', '[0,1,2,3,4]')
+    metadata.set('settings.endOfWorkday', '17:30')
+
+    const settings = useSettingsStore()
+    await settings.loadSettings()
+
+    expect(settings.workingDays).toEqual([0, 1, 2, 3, 4])
+    expect(getCalendar()).toEqual({
+      weekStartsOn: 1,
+      workingDays: [0, 1, 2, 3, 4],
+      endOfWorkday: '17:30',
+    })
+  })
+
+  it('should update the calendar when a setting changes', async () => {
+    const settings = useSettingsStore()
+
+    await settings.updateSetting('workingDays', [1, 2, 3])
+
+    expect(getCalendar().workingDays).toEqual([1, 2, 3])
+    expect(metadata.get('settings.workingDays')).toBe('[1,2,3]')
+  })
+
+  it('should limit Focus Now by the capacity when planning', async () => {
+    const tasks = [1, 2, 3].map(
+      i =>
+        new TaskClass({
+          id: String(i),
+          name: `Task ${i}`,
+          addedDate: new Date(),
+          endDate: new Date(Date.now() + i * 24 * 60 * 60 * 1000),
+          status: Status.IN_PROGRESS,
+          estimatedEffort: 4,
+        }),
+    )
+    const taskMap = new Map(tasks.map(task => [task.id, task]))
+    const settings = useSettingsStore()
+    await settings.updateSetting('maxFocusTasks', 3)
+
+    expect(settings.getFocusLimit(tasks, new TaskGraph(), taskMap)).toBe(3)
+
+    await settings.updateSetting('planningMode', true)
+    // 40 hours over 5 working days leave 8 a day, for 2 tasks of 4 hours
+    expect(settings.getFocusLimit(tasks, new TaskGraph(), taskMap)).toBe(2)
+  })
+
+  describe('by user', () => {
+    const webId = 'https://alice.example/profile/card#me'
+
+    it("should save the settings under the user's WebID", async () => {
+      const settings = useSettingsStore()
+      await settings.setUser(webId)
+
+      await settings.updateSetting('weeklyCapacity', 32)
+
+      expect(metadata.get(`settings.${webId}.weeklyCapacity`)).toBe(32)
+      expect(metadata.has('settings.weeklyCapacity')).toBe(false)
+    })
+
+    it('should load the settings of the user logged in', async () => {
+      metadata.set(`settings.${webId}.weeklyCapacity`, 32)
+      metadata.set('settings.weeklyCapacity', 20)
+      metadata.set('settings.effortUnit', 'points')
+
+      const settings = useSettingsStore()
+      await settings.setUser(webId)
+
+      expect(settings.weeklyCapacity).toBe(32)
+      // Starting from the settings saved while logged out
+      expect(settings.effortUnit).toBe('points')
+    })
+
+    it('should switch back to the defaults for another user', async () => {
+      metadata.set(`settings.${webId}.workingDays`, '[1,2,3]')
+      const settings = useSettingsStore()
+      await settings.setUser(webId)
+
+      await settings.setUser('https://bob.example/profile/card#me')
+
+      expect(settings.workingDays).toEqual(DEFAULT_SETTINGS.workingDays)
+      expect(getCalendar().workingDays).toEqual(DEFAULT_SETTINGS.workingDays)
+    })
+
+    it('should not apply the settings of a previous user loaded late', async () => {
+      metadata.set('settings.weeklyCapacity', 20)
+      metadata.set(`settings.${webId}.weeklyCapacity`, 32)
+      const settings = useSettingsStore()
+      // The settings saved while logged out are slow to read
+      storageMock.getMetadata.mockImplementationOnce(
+        key =>
+          new Promise(resolve => setTimeout(() => resolve(metadata.get(key)))),
+      )
+
+      const loggedOut = settings.setUser(null)
+      await settings.setUser(webId)
+      await loggedOut
+
+      expect(settings.webId).toBe(webId)
+      expect(settings.weeklyCapacity).toBe(32)
+    })
+  })
+
+  it('should keep the new value if saving fails', async () => {
+    const settings = useSettingsStore()
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    storageMock.setMetadata.mockRejectedValueOnce(new Error('Save failed'))
+
+    await settings.updateSetting('planningMode', true)
+
+    expect(settings.planningMode).toBe(true)
+    expect(errorSpy).toHaveBeenCalled()
+
+    errorSpy.mockRestore()
+  })
+})
@@ -1,7 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { setupPinia } from '../../helpers/pinia'
 import { useTaskStore } from '@/stores/tasks'
-import { TaskGraph } from '@/models/TaskGraph'
+import {
+  TaskGraph,
+  TaskCycleError,
+  DependencyCycleError,
+} from '@/models/TaskGraph'
 import { Status } from '@/models/TaskClass'
 import {
   createMockTask,
@@ -118,6 +122,19 @@ describe('useTaskStore', () => {
 
       warnSpy.mockRestore()
     })
+
+    it('should reject adding an ancestor as subtask', () => {
+      const store = useTaskStore()
+      const parent = createMockTask({ id: 'parent' })
+      const child = createMockTask({ id: 'child' })
+
+      store.addTaskClass(parent)
+      store.addSubTask('parent', child)
+
+      expect(() => store.addSubTask('child', parent)).toThrow(TaskCycleError)
+      expect(child.getChildrenIds()).toEqual([])
+      expect(parent.getParentId()).toBeUndefined()
+    })
   })
 
   describe('removeTaskClass', () => {
@@ -152,6 +169,156 @@ describe('useTaskStore', () => {
       store.removeTaskClass('non-existent')
       // Should not throw
     })
+
+    it('should drop dependencies on removed tasks', () => {
+      const store = useTaskStore()
+      const blocker = createMockTask({ id: 'blocker' })
+      const blocked = createMockTask({ id: 'blocked', dependsOn: ['blocker'] })
+      store.loadTaskClasses([blocker, blocked], TaskGraph.fromTasks([]))
+
+      const changed = store.removeTaskClass('blocker')
+
+      expect(changed).toEqual([blocked])
+      expect(blocked.dependsOn).toEqual([])
+      expect(store.graph.getDependencyIds('blocked')).toEqual([])
+    })
+  })
+
+  describe('tombstoneTask / restoreTask', () => {
+    it('should tombstone a task with its open subtasks', () => {
+      const store = useTaskStore()
+      const { parent, child1, child2, grandchild } = createMockTaskHierarchy()
+      child2.status = Status.COMPLETED
+      const graph = TaskGraph.fromTasks([parent, child1, child2, grandchild])
+      store.loadTaskClasses([parent, child1, child2, grandchild], graph)
+      const now = new Date('2024-03-01T10:00:00')
+
+      const changed = store.tombstoneTask(
+        'parent-1',
+        Status.DEPRECATED,
+        'Superseded',
+        now,
+      )
+
+      expect(changed.map(task => task.id).sort()).toEqual([
+        'child-1',
+        'grandchild-1',
+        'parent-1',
+      ])
+      expect(parent.status).toBe(Status.DEPRECATED)
+      expect(grandchild.tombstoneReason).toBe('Superseded')
+      expect(grandchild.tombstonedDate).toEqual(now)
+      expect(child2.status).toBe(Status.COMPLETED)
+      expect(store.taskMap.size).toBe(4)
+    })
+
+    it('should restore the subtasks tombstoned along with the task', () => {
+      const store = useTaskStore()
+      const { parent, child1, child2, grandchild } = createMockTaskHierarchy()
+      const graph = TaskGraph.fromTasks([parent, child1, child2, grandchild])
+      store.loadTaskClasses([parent, child1, child2, grandchild], graph)
+      store.tombstoneTask(
+        'child-2',
+        Status.CANCELLED,
+        undefined,
+        new Date('2024-03-01'),
+      )
+      store.tombstoneTask(
+        'parent-1',
+        Status.CANCELLED,
+        undefined,
+        new Date('2024-03-02'),
+      )
+
+      store.restoreTask('parent-1')
+
+      expect(parent.tombstoned).toBe(false)
+      expect(grandchild.status).toBe(Status.IN_PROGRESS)
+      // Deleted separately, so it stays in the trash
+      expect(child2.status).toBe(Status.CANCELLED)
+    })
+
+    it('should restore tombstoned ancestors of a restored task', () => {
+      const store = useTaskStore()
+      const { parent, child1, child2, grandchild } = createMockTaskHierarchy()
+      const graph = TaskGraph.fromTasks([parent, child1, child2, grandchild])
+      store.loadTaskClasses([parent, child1, child2, grandchild], graph)
+      store.tombstoneTask('parent-1')
+
+      const changed = store.restoreTask('grandchild-1')
+
+      expect(changed.map(task => task.id).sort()).toEqual([
+        'child-1',
+        'grandchild-1',
+        'parent-1',
+      ])
+      expect(child2.tombstoned).toBe(true)
+      expect(parent.getChildrenIds()).toContain('child-1')
+    })
+
+    it('should ignore tasks that are not in the trash', () => {
+      const store = useTaskStore()
+      const task = createMockTask({ id: 'task-1' })
+      store.loadTaskClasses([task], TaskGraph.fromTasks([task]))
+
+      expect(store.restoreTask('task-1')).toEqual([])
+      expect(store.tombstoneTask('non-existent')).toEqual([])
+    })
+  })
+
+  describe('addDependency / removeDependency', () => {
+    it('should add a dependency to task and graph', () => {
+      const store = useTaskStore()
+      const [task, blocker] = createMockTasks(2)
+      store.loadTaskClasses([task, blocker], TaskGraph.fromTasks([]))
+
+      store.addDependency(task.id, blocker.id)
+
+      expect(task.dependsOn).toEqual([blocker.id])
+      expect(store.graph.getDependentIds(blocker.id)).toEqual([task.id])
+    })
+
+    it('should remove a dependency from task and graph', () => {
+      const store = useTaskStore()
+      const [task, blocker] = createMockTasks(2)
+      task.dependsOn = [blocker.id]
+      store.loadTaskClasses([task, blocker], TaskGraph.fromTasks([]))
+
+      store.removeDependency(task.id, blocker.id)
+
+      expect(task.dependsOn).toEqual([])
+      expect(store.graph.getDependencyIds(task.id)).toEqual([])
+    })
+
+    it('should reject a dependency that would create a cycle', () => {
+      const store = useTaskStore()
+      const [a, b, c] = createMockTasks(3)
+      store.loadTaskClasses([a, b, c], TaskGraph.fromTasks([]))
+      store.addDependency(b.id, a.id)
+      store.addDependency(c.id, b.id)
+
+      expect(() => store.addDependency(a.id, c.id)).toThrow(
+        DependencyCycleError,
+      )
+      expect(() => store.addDependency(a.id, a.id)).toThrow(
+        DependencyCycleError,
+      )
+      expect(a.dependsOn).toEqual([])
+      expect(store.graph.getDependentIds(c.id)).toEqual([])
+    })
+
+    it('should warn if dependency task not found', () => {
+      const store = useTaskStore()
+      const task = createMockTask()
+      store.addTaskClass(task)
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      store.addDependency(task.id, 'missing')
+
+      expect(warnSpy).toHaveBeenCalled()
+      expect(task.dependsOn).toEqual([])
+      warnSpy.mockRestore()
+    })
   })
 
   describe('updateTaskClass', () => {
@@ -168,6 +335,78 @@ describe('useTaskStore', () => {
     })
   })
 
+  describe('replaceTaskClasses', () => {
+    it('should replace some tasks and rebuild the graph', () => {
+      const store = useTaskStore()
+      const { parent, child1, child2 } = createMockTaskHierarchy()
+      const tasks = [parent, child1, child2]
+      store.loadTaskClasses(tasks, TaskGraph.fromTasks(tasks))
+
+      const updated = createMockTask({ id: 'parent-1', name: 'Updated' })
+      updated.childIds = ['child-1']
+      store.replaceTaskClasses([updated], ['child-2'])
+
+      expect(store.tasks.map(t => t.id).sort()).toEqual(['child-1', 'parent-1'])
+      expect(store.taskMap.get('parent-1')?.name).toBe('Updated')
+      expect(store.taskMap.get('child-1')?.name).toBe('Child Task 1')
+      expect(store.graph.getChildrenIds('parent-1')).toEqual(['child-1'])
+      updated.addChildId('child-3')
+      expect(store.graph.getChildrenIds('parent-1')).toContain('child-3')
+    })
+  })
+
+  describe('refreshEstimates', () => {
+    it('should estimate open tasks once enough tasks are completed', () => {
+      const store = useTaskStore()
+      const addedDate = new Date('2026-01-01T09:00:00')
+      const done = [1, 2, 3].map(n =>
+        createMockTask({
+          id: `done-${n}`,
+          addedDate,
+          status: Status.COMPLETED,
+          completedDate: new Date('2026-01-03T09:00:00'),
+        }),
+      )
+      const open = createMockTask({ id: 'open', addedDate })
+
+      store.loadTaskClasses([...done, open], TaskGraph.fromTasks([]))
+
+      expect(store.taskMap.get('open')?.scheduleEstimate?.deadline).toEqual(
+        new Date('2026-01-03T23:59:59.999'),
+      )
+      expect(store.taskMap.get('done-1')?.scheduleEstimate).toBeUndefined()
+    })
+
+    it('should not estimate without enough history', () => {
+      const store = useTaskStore()
+      const task = createMockTask()
+
+      store.addTaskClass(task)
+
+      expect(store.taskMap.get(task.id)?.scheduleEstimate).toBeUndefined()
+    })
+
+    it('should pass parent deadlines down to subtasks', () => {
+      const store = useTaskStore()
+      const endDate = new Date('2026-03-01T17:00:00')
+      const parent = createMockTask({ id: 'parent', endDate })
+      const other = createMockTask({ id: 'other' })
+      const child = createMockTask({ id: 'child' })
+      store.addTaskClass(parent)
+      store.addTaskClass(other)
+      store.addSubTask('parent', child)
+
+      expect(child.inheritedDeadline).toEqual({
+        deadline: endDate,
+        fromId: 'parent',
+      })
+
+      store.moveTask('child', 'other')
+
+      expect(child.inheritedDeadline).toBeUndefined()
+    })
+  })
+
   describe('moveTask', () => {
     it('should move task to new parent', () => {
       const store = useTaskStore()
@@ -215,6 +454,33 @@ describe('useTaskStore', () => {
       expect(parent.getChildrenIds()).toEqual(initialChildIds)
     })
 
+    it('should reject moving a task under its own descendant', () => {
+      const store = useTaskStore()
+      const parent = createMockTask({ id: 'parent' })
+      const child = createMockTask({ id: 'child' })
+      const grandchild = createMockTask({ id: 'grandchild' })
+
+      store.addTaskClass(parent)
+      store.addSubTask('parent', child)
+      store.addSubTask('child', grandchild)
+
+      expect(() => store.moveTask('parent', 'grandchild')).toThrow(
+        TaskCycleError,
+      )
+      expect(parent.getParentId()).toBeUndefined()
+      expect(grandchild.getChildrenIds()).toEqual([])
+      expect(store.graph.getParentId('parent')).toBeUndefined()
+    })
+
+    it('should reject moving a task under itself', () => {
+      const store = useTaskStore()
+      const task = createMockTask({ id: 'task' })
+      store.addTaskClass(task)
+
+      expect(() => store.moveTask('task', 'task')).toThrow(TaskCycleError)
+      expect(task.getChildrenIds()).toEqual([])
+    })
+
     it('should warn if task not found', () => {
       const store = useTaskStore()
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
@@ -361,6 +627,19 @@ describe('useTaskStore', () => {
         expect(overdue).toHaveLength(0)
       })
 
+      it('should not include tombstoned tasks', () => {
+        const store = useTaskStore()
+        const task = createMockTask({
+          id: 'cancelled',
+          endDate: new Date('2020-01-01'),
+          status: Status.IN_PROGRESS,
+        })
+        task.tombstone()
+        store.loadTaskClasses([task], TaskGraph.fromTasks([task]))
+
+        expect(store.overdueTasks).toHaveLength(0)
+      })
+
       it('should not include tasks without endDate', () => {
         const store = useTaskStore()
         const task = createMockTask({
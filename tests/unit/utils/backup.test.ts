@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BACKUP_FORMAT,
+  BackupError,
+  exportTasks,
+  parseBackup,
+  planImport,
+} from '@/utils/backup'
+import { Status, TaskClass } from '@/models/TaskClass'
+import { RecurrenceFrequency } from '@/models/recurrence'
+
+const createTask = (
+  id: string,
+  fields: Partial<ConstructorParameters<typeof TaskClass>[0]> = {},
+) =>
+  new TaskClass({
+    id,
+    name: `Task ${id}`,
+    addedDate: new Date('2026-01-05T09:00:00.000Z'),
+    ...fields,
+  })
+
+const createBackup = (tasks: unknown[]) => ({
+  format: BACKUP_FORMAT,
+  version: 1,
+  exportedAt: '2026-02-01T00:00:00.000Z',
+  tasks,
+})
+
+describe('exportTasks', () => {
+  it('should export tasks with their relationships', () => {
+    const parent = createTask('parent', { childIds: ['child'] })
+    parent.fullId = 'https://pod.example/tasks/parent'
+    const child = createTask('child', {
+      parentId: 'parent',
+      dependsOn: ['other'],
+      status: Status.CANCELLED,
+      tombstoneReason: 'Not needed',
+      tombstonedDate: new Date('2026-01-10T00:00:00.000Z'),
+    })
+
+    const backup = exportTasks(
+      [parent, child],
+      new Date('2026-02-01T00:00:00.000Z'),
+    )
+
+    expect(backup).toEqual(
+      expect.objectContaining({
+        format: BACKUP_FORMAT,
+        version: 1,
+        exportedAt: '2026-02-01T00:00:00.000Z',
+      }),
+    )
+    expect(backup.tasks[0]).toEqual(
+      expect.objectContaining({
+        id: 'parent',
+        url: 'https://pod.example/tasks/parent',
+        childIds: ['child'],
+      }),
+    )
+    expect(backup.tasks[1]).toEqual(
+      expect.objectContaining({
+        parentId: 'parent',
+        dependsOn: ['other'],
+        status: Status.CANCELLED,
+        tombstoneReason: 'Not needed',
+        tombstonedDate: '2026-01-10T00:00:00.000Z',
+      }),
+    )
+  })
+
+  it('should survive a round trip', () => {
+    const task = createTask('task', {
+      description: 'Every week',
+      endDate: new Date('2026-01-09T17:00:00.000Z'),
+      recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 2 },
+      estimatedEffort: 3,
+      rolloverCount: 1,
+    })
+
+    const [parsed] = parseBackup(
+      JSON.parse(JSON.stringify(exportTasks([task]))),
+    )
+
+    expect(parsed).toEqual(task)
+  })
+})
+
+describe('parseBackup', () => {
+  it('should reject documents that are not backups', () => {
+    expect(() => parseBackup({ tasks: [] })).toThrow(BackupError)
+    expect(() => parseBackup({ ...createBackup([]), version: 2 })).toThrow(
+      'newer version',
+    )
+  })
+
+  it('should list the problems of invalid tasks', () => {
+    const backup = createBackup([
+      { id: 'a', name: 'A', addedDate: 'yesterday' },
+      { id: 'b', name: 'B', addedDate: '2026-01-05', status: 'Someday' },
+      { id: 'b', name: 'C', addedDate: '2026-01-05' },
+    ])
+
+    try {
+      parseBackup(backup)
+      expect.fail('Expected the backup to be rejected')
+    } catch (err) {
+      expect((err as BackupError).problems).toEqual([
+        'task 1: invalid addedDate',
+        'task 2: unknown status Someday',
+        'task 3: duplicate id b',
+      ])
+    }
+  })
+})
+
+describe('planImport', () => {
+  it('should update matching tasks and add the others', () => {
+    const existing = createTask('a', { name: 'Old name' })
+    existing.fullId = 'https://pod.example/tasks/a'
+
+    const plan = planImport(
+      [existing],
+      [createTask('a', { name: 'New name' }), createTask('b')],
+      'merge',
+    )
+
+    expect(plan).toEqual(
+      expect.objectContaining({
+        added: 1,
+        updated: 1,
+        trashed: 0,
+        importedIds: ['a', 'b'],
+      }),
+    )
+    expect(plan.tasks.map(task => [task.id, task.name, task.fullId])).toEqual([
+      ['a', 'New name', 'https://pod.example/tasks/a'],
+      ['b', 'Task b', undefined],
+    ])
+  })
+
+  it('should move the tasks not imported to the trash when replacing', () => {
+    const kept = createTask('a')
+    const dropped = createTask('b')
+
+    const plan = planImport([kept, dropped], [createTask('a')], 'replace')
+
+    expect(plan.trashed).toBe(1)
+    const trashed = plan.tasks.find(task => task.id === 'b')!
+    expect(trashed.status).toBe(Status.CANCELLED)
+    expect(dropped.status).toBeUndefined()
+  })
+
+  it('should give copies new ids, keeping their relationships', () => {
+    const ids = ['new-1', 'new-2']
+    const plan = planImport(
+      [createTask('parent'), createTask('child')],
+      [
+        createTask('parent', { childIds: ['child'] }),
+        createTask('child', { parentId: 'parent', dependsOn: ['missing'] }),
+      ],
+      'copy',
+      () => ids.shift()!,
+    )
+
+    expect(plan).toEqual(expect.objectContaining({ added: 2, updated: 0 }))
+    const [parent, child] = plan.tasks
+    expect(parent.id).toBe('new-1')
+    expect(parent.childIds).toEqual(['new-2'])
+    expect(child.parentId).toBe('new-1')
+    expect(child.dependsOn).toEqual([])
+  })
+
+  it('should move imported tasks out of their previous parent', () => {
+    const oldParent = createTask('old', { childIds: ['child'] })
+    const child = createTask('child', { parentId: 'old' })
+
+    const plan = planImport(
+      [oldParent, child, createTask('new')],
+      [createTask('child', { parentId: 'new' })],
+      'merge',
+    )
+
+    const saved = new Map(plan.tasks.map(task => [task.id, task]))
+    expect(saved.get('old')?.childIds).toEqual([])
+    expect(saved.get('new')?.childIds).toEqual(['child'])
+    expect(oldParent.childIds).toEqual(['child'])
+  })
+})
@@ -0,0 +1,170 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  DEFAULT_CALENDAR,
+  getCalendar,
+  getEndOfWeek,
+  getEndOfWorkWeek,
+  getEndOfWorkday,
+  getStartOfWeek,
+  isWorkingDay,
+  parseTimeOfDay,
+  setCalendar,
+  type CalendarConfig,
+} from '@/utils/calendar'
+
+const MONDAY_CALENDAR: CalendarConfig = {
+  weekStartsOn: 1,
+  workingDays: [1, 2, 3, 4, 5],
+  endOfWorkday: '24:00',
+}
+
+const SUNDAY_TO_THURSDAY: CalendarConfig = {
+  weekStartsOn: 0,
+  workingDays: [0, 1, 2, 3, 4],
+  endOfWorkday: '17:00',
+}
+
+describe('calendar', () => {
+  afterEach(() => {
+    setCalendar(DEFAULT_CALENDAR)
+  })
+
+  describe('getStartOfWeek', () => {
+    it('should start weeks on Sunday by default', () => {
+      // Wednesday, Feb 18, 2026
+      const start = getStartOfWeek(new Date('2026-02-18T15:00:00'))
+
+      expect(start.getDay()).toBe(0)
+      expect(start.getDate()).toBe(15)
+      expect(start.getHours()).toBe(0)
+    })
+
+    it('should start weeks on the configured day', () => {
+      const start = getStartOfWeek(
+        new Date('2026-02-18T15:00:00'),
+        MONDAY_CALENDAR,
+      )
+
+      expect(start.getDay()).toBe(1)
+      expect(start.getDate()).toBe(16)
+    })
+
+    it('should put Sunday at the end of Monday-based weeks', () => {
+      // Sunday, Feb 22, 2026
+      const start = getStartOfWeek(new Date('2026-02-22'), MONDAY_CALENDAR)
+
+      expect(start.getDate()).toBe(16)
+    })
+  })
+
+  describe('getEndOfWeek', () => {
+    it('should end on the day before the next week starts', () => {
+      const end = getEndOfWeek(new Date('2026-02-18'), MONDAY_CALENDAR)
+
+      expect(end.getDay()).toBe(0)
+      expect(end.getDate()).toBe(22)
+      expect(end.getHours()).toBe(23)
+      expect(end.getMinutes()).toBe(59)
+    })
+  })
+
+  describe('getEndOfWorkday', () => {
+    it('should end just before midnight by default', () => {
+      const end = getEndOfWorkday(new Date('2026-02-18T09:00:00'))
+
+      expect(end).toEqual(new Date('2026-02-18T23:59:59.999'))
+    })
+
+    it('should end just before the configured time', () => {
+      const end = getEndOfWorkday(
+        new Date('2026-02-18T09:00:00'),
+        SUNDAY_TO_THURSDAY,
+      )
+
+      expect(end).toEqual(new Date('2026-02-18T16:59:59.999'))
+    })
+  })
+
+  describe('isWorkingDay', () => {
+    it('should use the configured working days', () => {
+      // Friday, Feb 20 and Sunday, Feb 22, 2026
+      expect(isWorkingDay(new Date('2026-02-20'))).toBe(true)
+      expect(isWorkingDay(new Date('2026-02-22'))).toBe(false)
+      expect(isWorkingDay(new Date('2026-02-20'), SUNDAY_TO_THURSDAY)).toBe(
+        false,
+      )
+      expect(isWorkingDay(new Date('2026-02-22'), SUNDAY_TO_THURSDAY)).toBe(
+        true,
+      )
+    })
+  })
+
+  describe('getEndOfWorkWeek', () => {
+    it('should end on Friday for a Monday to Friday week', () => {
+      const end = getEndOfWorkWeek(new Date('2026-02-17'), MONDAY_CALENDAR)
+
+      expect(end).toEqual(new Date('2026-02-20T23:59:59.999'))
+    })
+
+    it('should end on Thursday for a Sunday to Thursday week', () => {
+      const end = getEndOfWorkWeek(
+        new Date('2026-02-15T10:00:00'),
+        SUNDAY_TO_THURSDAY,
+      )
+
+      expect(end).toEqual(new Date('2026-02-19T16:59:59.999'))
+    })
+
+    it('should move to the next week once the last working day is over', () => {
+      // Thursday, Feb 19, 2026, after the end of the workday
+      const end = getEndOfWorkWeek(
+        new Date('2026-02-19T18:00:00'),
+        SUNDAY_TO_THURSDAY,
+      )
+
+      expect(end).toEqual(new Date('2026-02-26T16:59:59.999'))
+    })
+  })
+
+  describe('setCalendar', () => {
+    it('should change the calendar used by default', () => {
+      setCalendar(MONDAY_CALENDAR)
+
+      expect(getCalendar()).toEqual(MONDAY_CALENDAR)
+      expect(getStartOfWeek(new Date('2026-02-22')).getDate()).toBe(16)
+    })
+
+    it('should replace invalid values by their defaults', () => {
+      setCalendar({
+        weekStartsOn: 9,
+        workingDays: [5, 1, 1, 7],
+        endOfWorkday: '25:00',
+      })
+
+      expect(getCalendar()).toEqual({
+        weekStartsOn: DEFAULT_CALENDAR.weekStartsOn,
+        workingDays: [1, 5],
+        endOfWorkday: DEFAULT_CALENDAR.endOfWorkday,
+      })
+    })
+
+    it('should not allow a week without working days', () => {
+      setCalendar({ workingDays: [] })
+
+      expect(getCalendar().workingDays).toEqual(DEFAULT_CALENDAR.workingDays)
+    })
+  })
+
+  describe('parseTimeOfDay', () => {
+    it('should parse valid times', () => {
+      expect(parseTimeOfDay('9:30')).toEqual({ hours: 9, minutes: 30 })
+      expect(parseTimeOfDay('24:00')).toEqual({ hours: 24, minutes: 0 })
+    })
+
+    it('should reject malformed times', () => {
+      expect(parseTimeOfDay('24:30')).toBeUndefined()
+      expect(parseTimeOfDay('12:60')).toBeUndefined()
+      expect(parseTimeOfDay('noon')).toBeUndefined()
+    })
+  })
+})
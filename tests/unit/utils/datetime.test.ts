@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { isToday, isThisWeek, isOverdue, endOfWeek } from '@/utils/datetime'
+import { DEFAULT_CALENDAR, setCalendar } from '@/utils/calendar'
 import { createMockTask } from '../../mocks/task.mock'
 import { Status } from '@/models/TaskClass'
 
@@ -11,6 +12,7 @@ describe('datetime utilities', () => {
 
   afterEach(() => {
     vi.useRealTimers()
+    setCalendar(DEFAULT_CALENDAR)
   })
 
   describe('isToday', () => {
@@ -77,8 +79,7 @@ describe('datetime utilities', () => {
       const today = new Date('2024-01-15T12:00:00')
       vi.setSystemTime(today)
 
-      // Note: isThisWeek includes the end date, so Jan 21 (next Sunday) is included
-      expect(isThisWeek('2024-01-21T12:00:00')).toBe(true) // End of current week range
+      expect(isThisWeek('2024-01-21T12:00:00')).toBe(false) // Next Sunday
       expect(isThisWeek('2024-01-22T12:00:00')).toBe(false) // Next week
       expect(isThisWeek('2024-01-28T12:00:00')).toBe(false) // Week after
     })
@@ -87,12 +88,32 @@ describe('datetime utilities', () => {
       // Monday (middle of week)
       const monday = new Date('2024-01-15T12:00:00')
       vi.setSystemTime(monday)
-      // Week range is Sun Jan 14 through Sun Jan 21
-      expect(isThisWeek('2024-01-14T12:00:00')).toBe(true) // Sunday start (same time of day)
-      expect(isThisWeek('2024-01-21T12:00:00')).toBe(true) // Sunday end (same time of day)
-      expect(isThisWeek('2024-01-21T23:59:59')).toBe(false) // After end time
+      // Week range is Sun Jan 14 00:00 through Sat Jan 20 23:59:59.999
+      expect(isThisWeek('2024-01-14T00:00:00')).toBe(true) // Start of Sunday
+      expect(isThisWeek('2024-01-20T23:59:59.999')).toBe(true) // End of Saturday
       expect(isThisWeek('2024-01-13T23:59:59')).toBe(false) // Before range
-      expect(isThisWeek('2024-01-22T00:00:00')).toBe(false) // After range
+      expect(isThisWeek('2024-01-21T00:00:00')).toBe(false) // After range
+    })
+
+    it('should use the configured first day of the week', () => {
+      setCalendar({ weekStartsOn: 1 })
+      // Sunday, the last day of a Monday-Sunday week
+      vi.setSystemTime(new Date('2024-01-21T12:00:00'))
+
+      expect(isThisWeek('2024-01-15T00:00:00')).toBe(true) // Start of Monday
+      expect(isThisWeek('2024-01-21T23:59:59')).toBe(true) // End of Sunday
+      expect(isThisWeek('2024-01-14T23:59:59')).toBe(false) // Sunday before
+      expect(isThisWeek('2024-01-22T00:00:00')).toBe(false) // Next Monday
+    })
+
+    it('should include the first hours of the week for a Sunday-Thursday week', () => {
+      setCalendar({ weekStartsOn: 0, workingDays: [0, 1, 2, 3, 4] })
+      // Early on the first day of the week
+      vi.setSystemTime(new Date('2024-01-14T01:00:00'))
+
+      expect(isThisWeek('2024-01-14T00:30:00')).toBe(true)
+      expect(isThisWeek('2024-01-20T23:00:00')).toBe(true)
+      expect(isThisWeek('2024-01-21T00:30:00')).toBe(false)
     })
   })
 
@@ -137,14 +158,14 @@ describe('datetime utilities', () => {
       const now = new Date('2024-01-20T12:00:00')
       vi.setSystemTime(now)
 
-      const addedDate = new Date('2024-01-01T12:00:00') // Week ending Jan 7
+      const addedDate = new Date('2024-01-01T12:00:00') // Work week ending Jan 5
       const task = createMockTask({
         addedDate,
         endDate: undefined,
         status: Status.IN_PROGRESS,
       })
 
-      // effectiveEndDate should be end of week (Jan 7), which is before now (Jan 20)
+      // effectiveEndDate should be end of work week (Jan 5), which is before now (Jan 20)
       expect(isOverdue(task)).toBe(true)
     })
 
@@ -162,56 +183,57 @@ describe('datetime utilities', () => {
   })
 
   describe('endOfWeek', () => {
-    it('should return end of week (Sunday) for a Monday', () => {
+    it('should return the end of Saturday for a Monday', () => {
       const monday = new Date('2024-01-15T12:00:00') // Monday
       const result = endOfWeek(monday)
 
-      expect(result.getDate()).toBe(21) // Next Sunday
-      expect(result.getMonth()).toBe(0) // January
-      expect(result.getFullYear()).toBe(2024)
+      expect(result).toEqual(new Date(2024, 0, 20, 23, 59, 59, 999))
     })
 
-    it('should return next Sunday for a Sunday', () => {
+    it('should return the same week for a Sunday', () => {
       const sunday = new Date('2024-01-14T12:00:00') // Sunday
       const result = endOfWeek(sunday)
 
-      expect(result.getDate()).toBe(21) // Next Sunday
-      expect(result.getMonth()).toBe(0) // January
+      expect(result).toEqual(new Date(2024, 0, 20, 23, 59, 59, 999))
     })
 
-    it('should return next Sunday for a Saturday', () => {
+    it('should return the end of the day for a Saturday', () => {
       const saturday = new Date('2024-01-20T12:00:00') // Saturday
       const result = endOfWeek(saturday)
 
-      expect(result.getDate()).toBe(21) // Next day (Sunday)
-      expect(result.getMonth()).toBe(0) // January
+      expect(result).toEqual(new Date(2024, 0, 20, 23, 59, 59, 999))
     })
 
     it('should handle month boundaries', () => {
       const date = new Date('2024-01-29T12:00:00') // Monday, Jan 29
       const result = endOfWeek(date)
 
-      expect(result.getDate()).toBe(4) // Feb 4 (Sunday)
-      expect(result.getMonth()).toBe(1) // February
+      expect(result).toEqual(new Date(2024, 1, 3, 23, 59, 59, 999)) // Feb 3
     })
 
     it('should handle year boundaries', () => {
       const date = new Date('2024-12-30T12:00:00') // Monday, Dec 30
       const result = endOfWeek(date)
 
-      expect(result.getDate()).toBe(5) // Jan 5 (Sunday)
-      expect(result.getMonth()).toBe(0) // January
-      expect(result.getFullYear()).toBe(2025)
+      expect(result).toEqual(new Date(2025, 0, 4, 23, 59, 59, 999)) // Jan 4
     })
 
-    it('should preserve time components', () => {
-      const date = new Date('2024-01-15T14:30:45.123')
-      const result = endOfWeek(date)
+    it('should use the configured first day of the week', () => {
+      setCalendar({ weekStartsOn: 1 })
+
+      // Sunday is the last day of a Monday-Sunday week
+      expect(endOfWeek(new Date('2024-01-21T12:00:00'))).toEqual(
+        new Date(2024, 0, 21, 23, 59, 59, 999),
+      )
+      expect(endOfWeek(new Date('2024-01-15T00:00:00'))).toEqual(
+        new Date(2024, 0, 21, 23, 59, 59, 999),
+      )
 
-      expect(result.getHours()).toBe(14)
-      expect(result.getMinutes()).toBe(30)
-      expect(result.getSeconds()).toBe(45)
-      expect(result.getMilliseconds()).toBe(123)
+      // Sunday-Thursday workers still have a Sunday-Saturday week
+      setCalendar({ weekStartsOn: 0, workingDays: [0, 1, 2, 3, 4] })
+      expect(endOfWeek(new Date('2024-01-14T00:00:00'))).toEqual(
+        new Date(2024, 0, 20, 23, 59, 59, 999),
+      )
     })
 
     it('should not modify the original date', () => {
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest'
+import { Status } from '@/models/TaskClass'
+import {
+  MIN_SAMPLES,
+  buildScheduleModel,
+  estimateSchedule,
+} from '@/utils/estimation'
+import { createMockTask } from '../../mocks/task.mock'
+
+const day = (n: number) => new Date(2026, 0, n, 12, 0)
+
+/**
+ * A completed task that took `days` days from creation to completion
+ */
+function completedTask(days: number, overrides = {}) {
+  return createMockTask({
+    addedDate: day(1),
+    status: Status.COMPLETED,
+    completedDate: day(1 + days),
+    ...overrides,
+  })
+}
+
+describe('estimation', () => {
+  describe('buildScheduleModel', () => {
+    it('should need enough completed tasks to learn from', () => {
+      const tasks = Array.from({ length: MIN_SAMPLES - 1 }, () =>
+        completedTask(2),
+      )
+
+      expect(buildScheduleModel(tasks)).toBeNull()
+    })
+
+    it('should ignore open tasks and completed tasks without a completion date', () => {
+      const tasks = [
+        completedTask(2),
+        completedTask(2),
+        createMockTask({ status: Status.IN_PROGRESS }),
+        createMockTask({ status: Status.COMPLETED }),
+      ]
+
+      expect(buildScheduleModel(tasks)).toBeNull()
+    })
+
+    it('should use the median duration', () => {
+      const model = buildScheduleModel([
+        completedTask(1),
+        completedTask(2),
+        completedTask(30),
+      ])
+
+      expect(model?.sampleSize).toBe(3)
+      expect(model?.durationDays).toBe(2)
+    })
+
+    it('should measure duration from the start date if set', () => {
+      const model = buildScheduleModel([
+        completedTask(10, { startDate: day(9) }),
+        completedTask(10, { startDate: day(9) }),
+        completedTask(10, { startDate: day(9) }),
+      ])
+
+      expect(model?.durationDays).toBe(2)
+      expect(model?.leadDays).toBe(8)
+    })
+
+    it('should learn the duration per effort unit', () => {
+      const model = buildScheduleModel([
+        completedTask(2, { estimatedEffort: 4 }),
+        completedTask(3, { estimatedEffort: 6 }),
+        completedTask(1, { estimatedEffort: 2 }),
+      ])
+
+      expect(model?.daysPerEffort).toBe(0.5)
+    })
+
+    it('should learn durations per subtask count', () => {
+      const model = buildScheduleModel([
+        completedTask(1),
+        completedTask(1),
+        completedTask(1),
+        completedTask(10, { childIds: ['a', 'b', 'c', 'd'] }),
+        completedTask(12, { childIds: ['a', 'b', 'c', 'd'] }),
+        completedTask(14, { childIds: ['a', 'b', 'c', 'd', 'e'] }),
+      ])
+
+      expect(model?.durationBySubtasks).toEqual({ none: 1, many: 12 })
+    })
+  })
+
+  describe('estimateSchedule', () => {
+    const history = [
+      completedTask(1),
+      completedTask(1),
+      completedTask(1),
+      completedTask(10, { childIds: ['a', 'b', 'c', 'd'] }),
+      completedTask(10, { childIds: ['a', 'b', 'c', 'd'] }),
+      completedTask(10, { childIds: ['a', 'b', 'c', 'd'] }),
+    ]
+    const model = buildScheduleModel(history)
+
+    it('should not estimate without a model', () => {
+      expect(estimateSchedule(createMockTask(), null)).toBeUndefined()
+    })
+
+    it('should give small tasks an earlier deadline than big ones', () => {
+      const errand = createMockTask({ addedDate: day(5) })
+      const project = createMockTask({
+        addedDate: day(5),
+        childIds: ['x', 'y', 'z', 'w'],
+      })
+
+      const errandEstimate = estimateSchedule(errand, model)!
+      const projectEstimate = estimateSchedule(project, model)!
+
+      expect(errandEstimate.basis).toBe('subtasks')
+      expect(errandEstimate.deadline).toEqual(
+        new Date(2026, 0, 6, 23, 59, 59, 999),
+      )
+      expect(projectEstimate.deadline).toEqual(
+        new Date(2026, 0, 15, 23, 59, 59, 999),
+      )
+      expect(errandEstimate.sampleSize).toBe(6)
+    })
+
+    it('should prefer the estimated effort when it can be used', () => {
+      const effortModel = buildScheduleModel([
+        completedTask(2, { estimatedEffort: 2 }),
+        completedTask(2, { estimatedEffort: 2 }),
+        completedTask(2, { estimatedEffort: 2 }),
+      ])
+      const task = createMockTask({ addedDate: day(5), estimatedEffort: 3 })
+
+      const estimate = estimateSchedule(task, effortModel)!
+
+      expect(estimate.basis).toBe('effort')
+      expect(estimate.deadline).toEqual(new Date(2026, 0, 8, 23, 59, 59, 999))
+    })
+
+    it('should fall back to all completed tasks', () => {
+      const mixed = buildScheduleModel([
+        completedTask(1),
+        completedTask(2, { childIds: ['a'] }),
+        completedTask(3, { childIds: ['a', 'b', 'c', 'd'] }),
+      ])
+
+      const estimate = estimateSchedule(createMockTask(), mixed)!
+
+      expect(estimate.basis).toBe('history')
+    })
+
+    it('should propose a start date working back from a deadline', () => {
+      const task = createMockTask({
+        addedDate: day(1),
+        endDate: day(20),
+        childIds: ['x', 'y', 'z', 'w'],
+      })
+
+      const estimate = estimateSchedule(task, model)!
+
+      expect(estimate.startDate).toEqual(day(10))
+      expect(estimate.deadline).toEqual(day(20))
+    })
+
+    it('should not propose a start date before the task was created', () => {
+      const task = createMockTask({
+        addedDate: day(15),
+        endDate: day(20),
+        childIds: ['x', 'y', 'z', 'w'],
+      })
+
+      expect(estimateSchedule(task, model)?.startDate).toEqual(day(15))
+    })
+
+    it('should not estimate tasks with both dates, or finished tasks', () => {
+      expect(
+        estimateSchedule(
+          createMockTask({ startDate: day(1), endDate: day(2) }),
+          model,
+        ),
+      ).toBeUndefined()
+      expect(
+        estimateSchedule(createMockTask({ status: Status.COMPLETED }), model),
+      ).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatDeadlineFeed,
+  formatICalendar,
+  parseICalendar,
+  withoutTimestamps,
+} from '@/utils/icalendar'
+import { Status, TaskClass } from '@/models/TaskClass'
+import { RecurrenceFrequency } from '@/models/recurrence'
+
+const createTask = (
+  id: string,
+  fields: Partial<ConstructorParameters<typeof TaskClass>[0]> = {},
+) =>
+  new TaskClass({
+    id,
+    name: `Task ${id}`,
+    addedDate: new Date('2026-01-05T09:00:00.000Z'),
+    ...fields,
+  })
+
+const unfold = (text: string) => text.replace(/\r\n /g, '').split('\r\n')
+
+describe('formatICalendar', () => {
+  it('should format tasks as to-dos', () => {
+    const parent = createTask('parent', { childIds: ['child'] })
+    const child = createTask('child', {
+      name: 'Buy milk, eggs; bread',
+      description: 'From the\nbakery',
+      endDate: new Date('2026-01-09T17:00:00.000Z'),
+      status: Status.COMPLETED,
+      recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 2 },
+      parentId: 'parent',
+      dependsOn: ['other'],
+    })
+
+    const lines = unfold(
+      formatICalendar([parent, child], new Date('2026-02-01T00:00:00.000Z')),
+    )
+
+    expect(lines.slice(0, 3)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Solid Planner//Tasks//EN',
+    ])
+    expect(lines.filter(line => line === 'BEGIN:VTODO')).toHaveLength(2)
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'UID:child',
+        'DTSTAMP:20260201T000000Z',
+        'SUMMARY:Buy milk\\, eggs\\; bread',
+        'DESCRIPTION:From the\\nbakery',
+        'DUE:20260109T170000Z',
+        'STATUS:COMPLETED',
+        'RRULE:FREQ=WEEKLY;INTERVAL=2',
+        'RELATED-TO;RELTYPE=PARENT:parent',
+        'RELATED-TO;RELTYPE=DEPENDS-ON:other',
+      ]),
+    )
+    expect(lines.slice(-2)).toEqual(['END:VCALENDAR', ''])
+  })
+
+  it('should fold long lines', () => {
+    const text = formatICalendar([
+      createTask('task', { description: 'é'.repeat(100) }),
+    ])
+
+    for (const line of text.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    }
+    expect(unfold(text)).toContain(`DESCRIPTION:${'é'.repeat(100)}`)
+  })
+})
+
+describe('formatDeadlineFeed', () => {
+  it('should list the open tasks due in the coming weeks', () => {
+    const now = new Date(2026, 0, 7, 12) // A Wednesday
+    const tasks = [
+      createTask('later', { endDate: new Date(2026, 0, 30, 17) }),
+      createTask('soon', { endDate: new Date(2026, 0, 9, 17) }),
+      createTask('last-week', { endDate: new Date(2026, 0, 3, 17) }),
+      createTask('next-month', { endDate: new Date(2026, 1, 3, 17) }),
+      createTask('done', {
+        endDate: new Date(2026, 0, 8, 17),
+        status: Status.COMPLETED,
+      }),
+      createTask('trashed', {
+        endDate: new Date(2026, 0, 8, 17),
+        status: Status.CANCELLED,
+      }),
+      createTask('stale', { addedDate: new Date(2025, 11, 1) }),
+    ]
+
+    const lines = unfold(formatDeadlineFeed(tasks, now))
+
+    expect(lines.filter(line => line.startsWith('UID:'))).toEqual([
+      'UID:soon',
+      'UID:soon-deadline',
+      'UID:later',
+      'UID:later-deadline',
+    ])
+    expect(lines).toContain('X-WR-CALNAME:Solid Planner deadlines')
+    const event = lines.slice(
+      lines.indexOf('UID:soon-deadline'),
+      lines.indexOf('UID:later'),
+    )
+    expect(event).toEqual(
+      expect.arrayContaining([
+        `DTSTART:${new Date(2026, 0, 9, 17)
+          .toISOString()
+          .replace(/[-:]|\.\d{3}/g, '')}`,
+        'SUMMARY:Due: Task soon',
+        'RELATED-TO:soon',
+      ]),
+    )
+  })
+
+  it('should list tasks without a deadline at their soft deadline', () => {
+    const now = new Date(2026, 0, 7, 12)
+    const tasks = [
+      createTask('soon', { endDate: new Date(2026, 0, 9, 17) }),
+      createTask('no-deadline'), // Added on Monday
+    ]
+
+    const lines = unfold(formatDeadlineFeed(tasks, now))
+
+    expect(lines.filter(line => line.startsWith('UID:'))).toEqual([
+      'UID:soon',
+      'UID:soon-deadline',
+      'UID:no-deadline',
+      'UID:no-deadline-deadline',
+    ])
+    const event = lines.slice(lines.indexOf('UID:no-deadline-deadline'))
+    expect(event).toEqual(
+      expect.arrayContaining([
+        `DTSTART:${new Date(2026, 0, 9, 23, 59, 59)
+          .toISOString()
+          .replace(/[-:]|\.\d{3}/g, '')}`,
+        'SUMMARY:Soft deadline: Task no-deadline',
+        'X-SOLID-PLANNER-SOFT-DEADLINE:TRUE',
+      ]),
+    )
+    // The to-do itself stays without a due date
+    expect(lines.filter(line => line.startsWith('DUE:'))).toHaveLength(1)
+    expect(lines).toContain('SUMMARY:Due: Task soon')
+  })
+
+  it('should be the same feed later on, timestamps aside', () => {
+    const tasks = [createTask('soon', { endDate: new Date(2026, 0, 9, 17) })]
+
+    const feed = formatDeadlineFeed(tasks, new Date(2026, 0, 7, 12))
+    const later = formatDeadlineFeed(tasks, new Date(2026, 0, 7, 13))
+
+    expect(later).not.toBe(feed)
+    expect(withoutTimestamps(later)).toBe(withoutTimestamps(feed))
+  })
+})
+
+describe('parseICalendar', () => {
+  it('should survive a round trip', () => {
+    const tasks = [
+      createTask('parent', {
+        status: Status.IN_PROGRESS,
+        childIds: ['child'],
+      }),
+      createTask('child', {
+        status: Status.COMPLETED,
+        completedDate: new Date('2026-01-08T12:00:00.000Z'),
+        description: 'Every week',
+        startDate: new Date('2026-01-06T08:00:00.000Z'),
+        endDate: new Date('2026-01-09T17:00:00.000Z'),
+        recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 2 },
+        parentId: 'parent',
+      }),
+      createTask('old', { status: Status.DEPRECATED }),
+    ]
+
+    expect(parseICalendar(formatICalendar(tasks))).toEqual(tasks)
+  })
+
+  it('should read to-dos from other apps', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Example//Calendar//EN',
+      'BEGIN:VEVENT',
+      'UID:meeting',
+      'SUMMARY:Meeting',
+      'END:VEVENT',
+      'BEGIN:VTODO',
+      'UID:{project}',
+      'SUMMARY:Project',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:step-1',
+      'SUMMARY:First',
+      '  step',
+      'DUE;VALUE=DATE:20260110',
+      'STATUS:IN-PROCESS',
+      'RELATED-TO:{project}',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VTODO',
+      'END:VCALENDAR',
+    ].join('\n')
+
+    const [project, step] = parseICalendar(text)
+
+    expect(project.id).not.toBe('{project}')
+    expect(project.childIds).toEqual(['step-1'])
+    expect(step).toEqual(
+      expect.objectContaining({
+        id: 'step-1',
+        name: 'First step',
+        status: Status.IN_PROGRESS,
+        parentId: project.id,
+      }),
+    )
+    expect(step.description).toBeUndefined()
+    expect(step.endDate).toEqual(new Date(2026, 0, 10, 23, 59, 59))
+  })
+
+  it('should reject other files', () => {
+    expect(() => parseICalendar('BEGIN:VCARD\r\nEND:VCARD')).toThrow(
+      'Not an iCalendar file',
+    )
+  })
+})
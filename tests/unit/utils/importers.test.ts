@@ -0,0 +1,296 @@
+import { describe, it, expect } from 'vitest'
+import { detectImporter, getImporter, getImporters } from '@/utils/importers'
+import { Status, type TaskClass } from '@/models/TaskClass'
+
+const now = new Date('2026-02-01T00:00:00.000Z')
+
+const parse = (importerId: string, content: unknown) =>
+  getImporter(importerId)!.parse(
+    typeof content === 'string' ? content : JSON.stringify(content),
+    now,
+  )
+
+const byName = (tasks: TaskClass[], name: string) =>
+  tasks.find(task => task.name === name)!
+
+describe('importers', () => {
+  it('should register the built-in importers', () => {
+    expect(getImporters().map(importer => importer.id)).toEqual([
+      'taskwarrior',
+      'todoist',
+      'github',
+    ])
+  })
+
+  it('should detect the app a file comes from', () => {
+    expect(
+      detectImporter(JSON.stringify([{ uuid: 'a', entry: 'b' }]))?.id,
+    ).toBe('taskwarrior')
+    expect(detectImporter('TYPE,CONTENT,DESCRIPTION\n')?.id).toBe('todoist')
+    expect(
+      detectImporter(JSON.stringify({ items: [{ content: 'A', checked: 0 }] }))
+        ?.id,
+    ).toBe('todoist')
+    expect(
+      detectImporter(JSON.stringify([{ number: 1, title: 'A', state: 'open' }]))
+        ?.id,
+    ).toBe('github')
+    expect(detectImporter('not an export')).toBeUndefined()
+  })
+})
+
+describe('Taskwarrior', () => {
+  const uuids = {
+    fence: '8d0f8c52-7d4f-4b8e-9ad0-5e3c1f6b3a01',
+    paint: '3c1a9e44-2a7b-4c1e-8f6d-9b2e4d7c5a02',
+    old: 'a7e2b1c3-9d8f-4e6a-b5c4-1f2e3d4c5b03',
+  }
+  const exported = [
+    {
+      id: 1,
+      uuid: uuids.fence,
+      description: 'Fix the fence',
+      status: 'pending',
+      entry: '20260105T090000Z',
+      due: '20260110T170000Z',
+      scheduled: '20260108T080000Z',
+      project: 'Home.Garden',
+      tags: ['outdoor', 'weekend'],
+      annotations: [{ entry: '20260105T091000Z', description: 'Buy nails' }],
+    },
+    {
+      id: 0,
+      uuid: uuids.paint,
+      description: 'Paint the fence',
+      status: 'completed',
+      entry: '20260105T090000Z',
+      end: '20260112T150000Z',
+      project: 'Home.Garden',
+      depends: uuids.fence,
+    },
+    {
+      id: 0,
+      uuid: uuids.old,
+      description: 'Old idea',
+      status: 'deleted',
+      entry: '20260101T090000Z',
+      end: '20260102T090000Z',
+    },
+    { uuid: 'template', description: 'Water', status: 'recurring', entry: '' },
+  ]
+
+  it('should map the fields of tasks', () => {
+    const tasks = parse('taskwarrior', exported)
+    const fence = byName(tasks, 'Fix the fence')
+
+    expect(fence).toEqual(
+      expect.objectContaining({
+        id: uuids.fence,
+        description: 'Buy nails\n\nLabels: outdoor, weekend',
+        addedDate: new Date('2026-01-05T09:00:00.000Z'),
+        startDate: new Date('2026-01-08T08:00:00.000Z'),
+        endDate: new Date('2026-01-10T17:00:00.000Z'),
+        status: Status.IN_PROGRESS,
+      }),
+    )
+    expect(byName(tasks, 'Paint the fence')).toEqual(
+      expect.objectContaining({
+        dependsOn: [uuids.fence],
+        status: Status.COMPLETED,
+        completedDate: new Date('2026-01-12T15:00:00.000Z'),
+      }),
+    )
+    expect(byName(tasks, 'Old idea').status).toBe(Status.CANCELLED)
+    expect(tasks.some(task => task.name === 'Water')).toBe(false)
+  })
+
+  it('should turn projects into parent tasks', () => {
+    const tasks = parse('taskwarrior', exported)
+    const home = byName(tasks, 'Home')
+    const garden = byName(tasks, 'Garden')
+
+    expect(home.childIds).toEqual([garden.id])
+    expect(garden.parentId).toBe(home.id)
+    expect(garden.childIds).toEqual([uuids.fence, uuids.paint])
+  })
+
+  it('should drop dependencies on tasks not imported', () => {
+    const tasks = parse('taskwarrior', [
+      ...exported,
+      {
+        uuid: 'b9c8d7e6-5f4a-4b3c-9d2e-1f0a9b8c7d04',
+        description: 'Water the fence',
+        status: 'pending',
+        entry: '20260105T090000Z',
+        depends: `${uuids.fence},template,f0e1d2c3-b4a5-4968-8776-655443322110`,
+      },
+    ])
+
+    expect(byName(tasks, 'Water the fence').dependsOn).toEqual([uuids.fence])
+  })
+})
+
+describe('Todoist', () => {
+  it('should read a CSV template with sections, indents and notes', () => {
+    const csv = [
+      'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE,DEADLINE',
+      'section,Groceries,,,,,,,,,',
+      'task,Buy milk @shop,,4,1,Ann,,2026-01-10,en,UTC,',
+      'note,"Oat milk, not cow milk",,,,,,,,,',
+      'task,Compare prices,,4,2,Ann,,,en,UTC,',
+      'task,Plan meals,"For the week",4,1,Ann,,every monday,en,UTC,2026-01-12',
+    ].join('\r\n')
+
+    const [groceries, milk, prices, meals] = parse('todoist', csv)
+
+    expect(groceries.childIds).toEqual([milk.id, meals.id])
+    expect(milk).toEqual(
+      expect.objectContaining({
+        name: 'Buy milk',
+        description: 'Labels: shop\n\nOat milk, not cow milk',
+        endDate: new Date(2026, 0, 10, 23, 59, 59),
+      }),
+    )
+    expect(prices.parentId).toBe(milk.id)
+    expect(meals).toEqual(
+      expect.objectContaining({
+        description: 'For the week\n\nDue: every monday',
+        endDate: new Date(2026, 0, 12, 23, 59, 59),
+      }),
+    )
+  })
+
+  it('should read a JSON backup with projects', () => {
+    const tasks = parse('todoist', {
+      projects: [
+        { id: 'p0', name: 'Inbox', inbox_project: true },
+        { id: 'p1', name: 'Work' },
+      ],
+      sections: [{ id: 's1', name: 'Reports', project_id: 'p1' }],
+      items: [
+        {
+          id: '1',
+          content: 'Quarterly report',
+          project_id: 'p1',
+          section_id: 's1',
+          labels: ['writing'],
+          due: { date: '2026-01-09', is_recurring: false },
+          deadline: { date: '2026-01-16' },
+          checked: false,
+          added_at: '2026-01-02T10:00:00Z',
+        },
+        {
+          id: '2',
+          content: 'Collect numbers',
+          project_id: 'p1',
+          parent_id: '1',
+          checked: true,
+          completed_at: '2026-01-05T12:00:00Z',
+        },
+        { id: '3', content: 'Call mom', project_id: 'p0', checked: false },
+      ],
+    })
+
+    const report = byName(tasks, 'Quarterly report')
+    expect(byName(tasks, 'Work').childIds).toEqual([
+      byName(tasks, 'Reports').id,
+    ])
+    expect(report).toEqual(
+      expect.objectContaining({
+        id: 'todoist-1',
+        parentId: 'todoist-section-s1',
+        childIds: ['todoist-2'],
+        description: 'Labels: writing',
+        startDate: new Date(2026, 0, 9, 23, 59, 59),
+        endDate: new Date(2026, 0, 16, 23, 59, 59),
+        addedDate: new Date('2026-01-02T10:00:00Z'),
+      }),
+    )
+    expect(byName(tasks, 'Collect numbers').status).toBe(Status.COMPLETED)
+    expect(byName(tasks, 'Call mom').parentId).toBeUndefined()
+    expect(tasks.some(task => task.name === 'Inbox')).toBe(false)
+  })
+})
+
+describe('GitHub issues', () => {
+  it('should map issues, with milestones as parents', () => {
+    const tasks = parse('github', [
+      {
+        number: 12,
+        title: 'Design the API',
+        body: 'See the notes',
+        state: 'closed',
+        state_reason: 'completed',
+        labels: [{ name: 'design' }],
+        milestone: { number: 1, title: 'v1.0', due_on: '2026-03-01T08:00:00Z' },
+        created_at: '2026-01-02T10:00:00Z',
+        closed_at: '2026-01-20T10:00:00Z',
+        html_url: 'https://github.com/acme/app/issues/12',
+      },
+      {
+        number: 13,
+        title: 'Implement the API',
+        body: 'Depends on #12',
+        state: 'open',
+        labels: [],
+        milestone: { number: 1, title: 'v1.0', due_on: '2026-03-01T08:00:00Z' },
+        created_at: '2026-01-03T10:00:00Z',
+        html_url: 'https://github.com/acme/app/issues/13',
+      },
+      {
+        number: 14,
+        title: 'A pull request',
+        state: 'open',
+        pull_request: {},
+      },
+    ])
+
+    expect(tasks.map(task => task.name)).toEqual([
+      'v1.0',
+      'Design the API',
+      'Implement the API',
+    ])
+    const [milestone, design, implement] = tasks
+    expect(milestone).toEqual(
+      expect.objectContaining({
+        id: 'github-acme-app-milestone-1',
+        endDate: new Date('2026-03-01T08:00:00Z'),
+        childIds: [design.id, implement.id],
+      }),
+    )
+    expect(design).toEqual(
+      expect.objectContaining({
+        id: 'github-acme-app-12',
+        description:
+          'See the notes\n\nLabels: design\n\nhttps://github.com/acme/app/issues/12',
+        status: Status.COMPLETED,
+        completedDate: new Date('2026-01-20T10:00:00Z'),
+      }),
+    )
+    expect(implement.dependsOn).toEqual(['github-acme-app-12'])
+  })
+
+  it('should read issues listed with gh', () => {
+    const [issue] = parse('github', [
+      {
+        number: 7,
+        title: 'Drop old browsers',
+        body: '',
+        state: 'CLOSED',
+        stateReason: 'NOT_PLANNED',
+        labels: [{ name: 'chore' }],
+        createdAt: '2026-01-02T10:00:00Z',
+        closedAt: '2026-01-04T10:00:00Z',
+        url: 'https://github.com/acme/app/issues/7',
+      },
+    ])
+
+    expect(issue).toEqual(
+      expect.objectContaining({
+        id: 'github-acme-app-7',
+        status: Status.CANCELLED,
+        tombstonedDate: new Date('2026-01-04T10:00:00Z'),
+      }),
+    )
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatMarkdownChecklist,
+  formatTodoTxt,
+  parseMarkdownChecklist,
+  parseTodoTxt,
+} from '@/utils/plain-text'
+import { Status, TaskClass } from '@/models/TaskClass'
+
+const createTask = (
+  id: string,
+  fields: Partial<ConstructorParameters<typeof TaskClass>[0]> = {},
+) =>
+  new TaskClass({
+    id,
+    name: `Task ${id}`,
+    addedDate: new Date(2026, 0, 5, 9),
+    ...fields,
+  })
+
+// A project with a completed subtask, and a task in the trash
+const createTree = () => [
+  createTask('trip', { name: 'Plan the trip', childIds: ['flights', 'visa'] }),
+  createTask('flights', {
+    name: 'Book flights',
+    parentId: 'trip',
+    startDate: new Date(2026, 0, 6),
+    endDate: new Date(2026, 0, 9, 17),
+  }),
+  createTask('visa', {
+    name: 'Get a visa',
+    parentId: 'trip',
+    status: Status.COMPLETED,
+    completedDate: new Date(2026, 0, 7, 12),
+  }),
+  createTask('old', { name: 'Old plan', status: Status.CANCELLED }),
+]
+
+describe('todo.txt', () => {
+  it('should format tasks with their projects, dates and priorities', () => {
+    const text = formatTodoTxt(createTree(), new Map([['flights', 'A']]))
+
+    expect(text).toBe(
+      [
+        '2026-01-05 Plan the trip',
+        '(A) 2026-01-05 Book flights +Plan-the-trip due:2026-01-09 t:2026-01-06',
+        'x 2026-01-07 2026-01-05 Get a visa +Plan-the-trip',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('should read tasks back with their hierarchy', () => {
+    const [trip, flights, visa] = parseTodoTxt(formatTodoTxt(createTree()))
+
+    expect(trip.childIds).toEqual([flights.id, visa.id])
+    expect(flights).toEqual(
+      expect.objectContaining({
+        name: 'Book flights',
+        parentId: trip.id,
+        addedDate: new Date(2026, 0, 5),
+        startDate: new Date(2026, 0, 6),
+        endDate: new Date(2026, 0, 9, 23, 59, 59),
+        status: Status.IN_PROGRESS,
+      }),
+    )
+    expect(visa).toEqual(
+      expect.objectContaining({
+        status: Status.COMPLETED,
+        completedDate: new Date(2026, 0, 7),
+      }),
+    )
+  })
+
+  it('should keep tasks with the same name apart', () => {
+    const tasks = [
+      createTask('a', { name: 'Review', childIds: ['a1'] }),
+      createTask('a1', { name: 'First', parentId: 'a' }),
+      createTask('b', { name: 'Review', childIds: ['b1'] }),
+      createTask('b1', { name: 'Second', parentId: 'b' }),
+    ]
+
+    const [a, a1, b, b1] = parseTodoTxt(formatTodoTxt(tasks))
+
+    expect(a1.parentId).toBe(a.id)
+    expect(b1.parentId).toBe(b.id)
+  })
+
+  it('should add the projects that are not tasks themselves', () => {
+    const now = new Date(2026, 1, 1)
+    const tasks = parseTodoTxt(
+      '(B) Call the plumber @phone +House +Errands\n\nFix the +House roof\n',
+      now,
+    )
+
+    expect(tasks.map(task => task.name)).toEqual([
+      'Call the plumber @phone +Errands',
+      'Fix the roof',
+      'House',
+    ])
+    const house = tasks[2]
+    expect(house.childIds).toEqual([tasks[0].id, tasks[1].id])
+    expect(tasks[0].addedDate).toEqual(now)
+  })
+
+  it('should not make a task its own ancestor', () => {
+    const [a, b] = parseTodoTxt('A +B\nB +A\n')
+
+    expect(a.parentId).toBe(b.id)
+    expect(b.parentId).toBeUndefined()
+  })
+})
+
+describe('Markdown checklists', () => {
+  it('should format the task tree as a nested checklist', () => {
+    expect(formatMarkdownChecklist(createTree())).toBe(
+      [
+        '- [ ] Plan the trip',
+        '  - [ ] Book flights',
+        '  - [x] Get a visa',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('should read indented items as subtasks', () => {
+    const now = new Date(2026, 1, 1)
+    const tasks = parseMarkdownChecklist(
+      [
+        '# Holidays',
+        '* [ ] Plan the trip',
+        '    * [X] Get a visa',
+        '    * Book flights',
+        '\t\t1. [ ] Compare prices',
+        '- [ ]',
+        '- [ ] Pack',
+      ].join('\n'),
+      now,
+    )
+
+    expect(tasks.map(task => [task.name, task.status])).toEqual([
+      ['Plan the trip', Status.IN_PROGRESS],
+      ['Get a visa', Status.COMPLETED],
+      ['Book flights', Status.IN_PROGRESS],
+      ['Compare prices', Status.IN_PROGRESS],
+      ['Pack', Status.IN_PROGRESS],
+    ])
+    const [trip, visa, flights, prices, pack] = tasks
+    expect(trip.childIds).toEqual([visa.id, flights.id])
+    expect(prices.parentId).toBe(flights.id)
+    expect(pack.parentId).toBeUndefined()
+    expect(visa.completedDate).toEqual(now)
+  })
+})
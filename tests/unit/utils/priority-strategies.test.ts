@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { TaskClass, Status } from '@/models/TaskClass'
+import { TaskGraph } from '@/models/TaskGraph'
+import {
+  calculatePriorityScore,
+  categorizeTasksByFocus,
+  DEFAULT_PRIORITY_WEIGHTS,
+} from '@/utils/priority'
+import {
+  DEFAULT_STRATEGY_ID,
+  createPriorityScorer,
+  getPriorityStrategies,
+  getPriorityStrategy,
+  registerPriorityStrategy,
+  resolvePriorityWeights,
+} from '@/utils/priority-strategies'
+
+const daysFromNow = (days: number) => {
+  const date = new Date()
+  date.setDate(date.getDate() + days)
+  return date
+}
+
+describe('priority strategies', () => {
+  let tasks: Map<string, TaskClass>
+
+  const addTask = (data: Partial<TaskClass> & { id: string }) => {
+    const task = new TaskClass({
+      name: data.id,
+      addedDate: new Date(),
+      ...data,
+    })
+    tasks.set(task.id, task)
+    return task
+  }
+
+  const graph = () => TaskGraph.fromTasks(Array.from(tasks.values()))
+
+  beforeEach(() => {
+    tasks = new Map()
+  })
+
+  describe('registry', () => {
+    it('should provide the default, Eisenhower and deadline-only strategies', () => {
+      expect(getPriorityStrategies().map(s => s.id)).toEqual(
+        expect.arrayContaining([
+          DEFAULT_STRATEGY_ID,
+          'eisenhower',
+          'deadline-only',
+        ]),
+      )
+    })
+
+    it('should let every strategy tune the focus threshold', () => {
+      for (const strategy of getPriorityStrategies()) {
+        expect(strategy.weights.map(w => w.key)).toContain('focusThreshold')
+      }
+    })
+
+    it('should fall back to the default strategy for unknown ids', () => {
+      expect(getPriorityStrategy('removed').id).toBe(DEFAULT_STRATEGY_ID)
+    })
+
+    it('should accept new strategies', () => {
+      registerPriorityStrategy({
+        id: 'alphabetical',
+        name: 'Alphabetical',
+        description: 'A before Z',
+        weights: [
+          { key: 'focusThreshold', label: 'Threshold', defaultValue: 0 },
+        ],
+        explain: task => ({
+          total: -task.name.charCodeAt(0),
+          factors: [],
+        }),
+      })
+
+      const scorer = createPriorityScorer('alphabetical')
+      const task = addTask({ id: 'apple' })
+
+      expect(scorer.explain(task, graph(), tasks).total).toBe(-97)
+    })
+  })
+
+  describe('resolvePriorityWeights', () => {
+    it('should apply overrides and drop unknown keys', () => {
+      const strategy = getPriorityStrategy(DEFAULT_STRATEGY_ID)
+
+      const weights = resolvePriorityWeights(strategy, {
+        overdue: 2000,
+        unknown: 1,
+      })
+
+      expect(weights).toEqual({ ...DEFAULT_PRIORITY_WEIGHTS, overdue: 2000 })
+    })
+  })
+
+  describe('default strategy', () => {
+    it('should score like calculatePriorityScore with default weights', () => {
+      const task = addTask({ id: 'late', endDate: daysFromNow(-2) })
+
+      const scorer = createPriorityScorer(DEFAULT_STRATEGY_ID)
+
+      expect(scorer.explain(task, graph(), tasks).total).toBe(
+        calculatePriorityScore(task, graph(), tasks),
+      )
+      expect(scorer.focusThreshold).toBe(
+        DEFAULT_PRIORITY_WEIGHTS.focusThreshold,
+      )
+    })
+
+    it('should use tuned weights', () => {
+      const parent = addTask({ id: 'parent', childIds: ['child'] })
+      addTask({ id: 'child', parentId: 'parent' })
+
+      const scorer = createPriorityScorer(DEFAULT_STRATEGY_ID, {
+        activeChildren: 700,
+        dueThisWeek: 0,
+        dueThisMonth: 0,
+      })
+
+      expect(scorer.explain(parent, graph(), tasks).factors).toEqual([
+        expect.objectContaining({ key: 'activeChildren', points: 700 }),
+      ])
+    })
+  })
+
+  describe('deadline-only strategy', () => {
+    it('should ignore subtasks and start dates', () => {
+      const parent = addTask({
+        id: 'parent',
+        childIds: ['child'],
+        startDate: daysFromNow(-1),
+        endDate: daysFromNow(3),
+      })
+      addTask({ id: 'child', parentId: 'parent' })
+
+      const breakdown = createPriorityScorer('deadline-only').explain(
+        parent,
+        graph(),
+        tasks,
+      )
+
+      expect(breakdown.factors.map(f => f.key)).toEqual(['deadline'])
+      expect(breakdown.total).toBe(200)
+    })
+
+    it('should rank completed tasks last', () => {
+      const task = addTask({ id: 'done', status: Status.COMPLETED })
+
+      expect(
+        createPriorityScorer('deadline-only').explain(task, graph(), tasks)
+          .total,
+      ).toBe(-1000)
+    })
+  })
+
+  describe('Eisenhower strategy', () => {
+    it('should put urgent and important tasks first', () => {
+      const doFirst = addTask({ id: 'do-first', endDate: daysFromNow(1) })
+      const schedule = addTask({ id: 'schedule', endDate: daysFromNow(20) })
+      const delegate = addTask({ id: 'delegate', addedDate: daysFromNow(-6) })
+      const eliminate = addTask({ id: 'eliminate' })
+      const scorer = createPriorityScorer('eisenhower')
+
+      const score = (task: TaskClass) =>
+        scorer.explain(task, graph(), tasks).total
+
+      expect(score(doFirst)).toBeGreaterThan(score(schedule))
+      expect(score(schedule)).toBeGreaterThan(score(delegate))
+      expect(score(delegate)).toBeGreaterThan(score(eliminate))
+    })
+
+    it('should explain why a task is important', () => {
+      const blocker = addTask({ id: 'blocker' })
+      addTask({ id: 'blocked', dependsOn: ['blocker'] })
+
+      const breakdown = createPriorityScorer('eisenhower').explain(
+        blocker,
+        graph(),
+        tasks,
+      )
+
+      expect(breakdown.factors).toContainEqual(
+        expect.objectContaining({ key: 'important', detail: 'Blocks 1 task' }),
+      )
+    })
+
+    it('should only focus on tasks that are urgent and important', () => {
+      const doFirst = addTask({ id: 'do-first', endDate: daysFromNow(1) })
+      const schedule = addTask({ id: 'schedule', endDate: daysFromNow(5) })
+
+      const { focusNow, thisWeek } = categorizeTasksByFocus(
+        [doFirst, schedule],
+        graph(),
+        tasks,
+        createPriorityScorer('eisenhower'),
+      )
+
+      expect(focusNow).toEqual([doFirst])
+      expect(thisWeek).toEqual([schedule])
+    })
+  })
+})
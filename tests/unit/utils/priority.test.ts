@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { TaskClass, Status } from '@/models/TaskClass'
 import { TaskGraph } from '@/models/TaskGraph'
 import {
@@ -13,8 +13,20 @@ import {
   getEndOfWeek,
   getUpcomingTasksByWeek,
   getWeekDateRange,
-  getWeekLabel
+  getWeekLabel,
+  getOpenBlockers,
+  isBlocked,
+  calculateDeadlineUrgency,
+  getInheritedUrgency,
+  getPriorityBreakdown,
+  getInheritedDeadline,
+  orderUrgentSubtasksFirst,
+  planWeekByCapacity,
+  getFocusLimitByCapacity,
+  defaultPriorityScorer
 } from '@/utils/priority'
+import { RecurrenceFrequency, createNextOccurrence } from '@/models/recurrence'
+import { DEFAULT_CALENDAR, setCalendar } from '@/utils/calendar'
 
 describe('Priority Utilities', () => {
   describe('calculateSoftDeadline', () => {
@@ -31,6 +43,23 @@ describe('Priority Utilities', () => {
       expect(result).toEqual(endDate)
     })
 
+    it('should prefer the estimated deadline over the end of the week', () => {
+      const deadline = new Date('2026-03-04T23:59:59.999')
+      const task = new TaskClass({
+        id: '1',
+        name: 'Test Task',
+        addedDate: new Date('2026-02-17')
+      })
+      task.scheduleEstimate = {
+        startDate: new Date('2026-02-17'),
+        deadline,
+        basis: 'history',
+        sampleSize: 5
+      }
+
+      expect(calculateSoftDeadline(task)).toEqual(deadline)
+    })
+
     it('should calculate Friday of the same week for tasks added before Friday', () => {
       // Monday, Feb 17, 2026
       const task = new TaskClass({
@@ -72,6 +101,33 @@ describe('Priority Utilities', () => {
       expect(result.getDay()).toBe(5) // Friday
       expect(result.getDate()).toBe(27) // Next Friday
     })
+
+    describe('with a custom calendar', () => {
+      afterEach(() => {
+        setCalendar(DEFAULT_CALENDAR)
+      })
+
+      it('should use the last working day and the end of the workday', () => {
+        setCalendar({ weekStartsOn: 0, workingDays: [0, 1, 2, 3, 4], endOfWorkday: '18:00' })
+        // Monday, Feb 16, 2026
+        const task = new TaskClass({
+          id: '1',
+          name: 'Test Task',
+          addedDate: new Date('2026-02-16')
+        })
+
+        expect(calculateSoftDeadline(task)).toEqual(new Date('2026-02-19T17:59:59.999'))
+      })
+
+      it('should bucket weeks from the configured first day', () => {
+        setCalendar({ weekStartsOn: 1 })
+        // Sunday, Feb 22, 2026
+        const start = getStartOfWeek(new Date('2026-02-22'))
+
+        expect(start.getDay()).toBe(1)
+        expect(start.getDate()).toBe(16)
+      })
+    })
   })
 
   describe('getDaysUntilDeadline', () => {
@@ -271,6 +327,170 @@ describe('Priority Utilities', () => {
     })
   })
 
+  describe('getPriorityBreakdown', () => {
+    let graph: TaskGraph
+    let tasks: Map<string, TaskClass>
+
+    beforeEach(() => {
+      graph = new TaskGraph()
+      tasks = new Map()
+    })
+
+    const daysFromNow = (days: number) => {
+      const date = new Date()
+      date.setDate(date.getDate() + days)
+      return date
+    }
+
+    it('should list the factors that add up to the priority score', () => {
+      const parent = new TaskClass({
+        id: 'parent',
+        name: 'Parent',
+        addedDate: new Date(),
+        startDate: daysFromNow(-1),
+        endDate: daysFromNow(-3),
+        childIds: ['done', 'open']
+      })
+      const done = new TaskClass({
+        id: 'done',
+        name: 'Done',
+        addedDate: new Date(),
+        parentId: 'parent',
+        status: Status.COMPLETED
+      })
+      const open = new TaskClass({
+        id: 'open',
+        name: 'Open',
+        addedDate: new Date(),
+        parentId: 'parent',
+        status: Status.IN_PROGRESS
+      })
+      for (const task of [parent, done, open]) tasks.set(task.id, task)
+      graph = TaskGraph.fromTasks([parent, done, open])
+
+      const breakdown = getPriorityBreakdown(parent, graph, tasks)
+
+      expect(breakdown.factors.map(f => f.key)).toEqual([
+        'overdue',
+        'activeChildren',
+        'momentum',
+        'startDate'
+      ])
+      expect(breakdown.factors[0]).toMatchObject({
+        points: 1150,
+        detail: '3 days overdue'
+      })
+      expect(breakdown.factors[2].points).toBe(25)
+      expect(breakdown.total).toBe(1150 + 200 + 25 + 100)
+      expect(breakdown.total).toBe(calculatePriorityScore(parent, graph, tasks))
+    })
+
+    it('should explain deadline proximity and upcoming start dates', () => {
+      const task = new TaskClass({
+        id: '1',
+        name: 'Upcoming',
+        addedDate: new Date(),
+        startDate: daysFromNow(2),
+        endDate: daysFromNow(4)
+      })
+      tasks.set(task.id, task)
+
+      const breakdown = getPriorityBreakdown(task, graph, tasks)
+
+      expect(breakdown.factors).toEqual([
+        {
+          key: 'deadline',
+          label: 'Deadline proximity',
+          points: 150,
+          detail: 'Due in 4 days'
+        },
+        {
+          key: 'startDate',
+          label: 'Starting soon',
+          points: 50,
+          detail: 'Starts in 2 days'
+        }
+      ])
+    })
+
+    it('should name the blocked task a blocker inherits its urgency from', () => {
+      const blocker = new TaskClass({
+        id: 'blocker',
+        name: 'Blocker',
+        addedDate: new Date(),
+        endDate: daysFromNow(60)
+      })
+      const blocked = new TaskClass({
+        id: 'blocked',
+        name: 'Release',
+        addedDate: new Date(),
+        endDate: daysFromNow(-1),
+        dependsOn: ['blocker']
+      })
+      for (const task of [blocker, blocked]) tasks.set(task.id, task)
+      graph = TaskGraph.fromTasks([blocker, blocked])
+
+      const breakdown = getPriorityBreakdown(blocker, graph, tasks)
+
+      expect(breakdown.factors).toHaveLength(1)
+      expect(breakdown.factors[0]).toMatchObject({
+        key: 'blocking',
+        points: calculateDeadlineUrgency(blocked),
+        detail: 'Urgency of "Release"'
+      })
+      expect(breakdown.total).toBe(getInheritedUrgency(blocker, graph, tasks))
+    })
+
+    it('should push up tasks that were rolled over', () => {
+      const task = new TaskClass({
+        id: '1',
+        name: 'Postponed',
+        addedDate: new Date(),
+        rolloverCount: 3
+      })
+      tasks.set(task.id, task)
+
+      const breakdown = getPriorityBreakdown(task, graph, tasks)
+      const rollover = breakdown.factors.find(f => f.key === 'rollover')
+
+      expect(rollover).toEqual({
+        key: 'rollover',
+        label: 'Rolled over',
+        points: 300,
+        detail: 'Carried over 3 times'
+      })
+    })
+
+    it('should explain why finished tasks are ranked last', () => {
+      const task = new TaskClass({
+        id: '1',
+        name: 'Done',
+        addedDate: new Date(),
+        status: Status.COMPLETED
+      })
+
+      expect(getPriorityBreakdown(task, graph, tasks)).toEqual({
+        total: -1000,
+        factors: [{ key: 'closed', label: 'Completed', points: -1000 }]
+      })
+    })
+
+    it('should rank tombstoned tasks last', () => {
+      const task = new TaskClass({
+        id: '1',
+        name: 'Dropped',
+        addedDate: new Date(),
+        status: Status.IN_PROGRESS
+      })
+      task.tombstone(Status.DEPRECATED)
+
+      expect(getPriorityBreakdown(task, graph, tasks)).toEqual({
+        total: -1000,
+        factors: [{ key: 'closed', label: 'Deprecated', points: -1000 }]
+      })
+    })
+  })
+
   describe('getWeeklyRelevantTasks', () => {
     it('should include overdue tasks', () => {
       const pastDate = new Date()
@@ -397,6 +617,332 @@ describe('Priority Utilities', () => {
       const result = categorizeTasksByFocus([task], graph, tasks)
       expect(result.thisWeek).toContain(task)
     })
+
+    it('should limit focusNow to the given number of tasks', () => {
+      const dueSoon = [1, 2, 3, 4].map(days => {
+        const endDate = new Date()
+        endDate.setDate(endDate.getDate() + days)
+        const task = new TaskClass({
+          id: String(days),
+          name: `Due in ${days} days`,
+          addedDate: new Date(),
+          endDate,
+          status: Status.IN_PROGRESS
+        })
+        tasks.set(task.id, task)
+        return task
+      })
+      const scorer = { ...defaultPriorityScorer, focusThreshold: 0 }
+
+      const result = categorizeTasksByFocus(dueSoon, graph, tasks, scorer, 2)
+      expect(result.focusNow).toEqual(dueSoon.slice(0, 2))
+      expect(result.thisWeek).toEqual(dueSoon.slice(2))
+    })
+  })
+
+  describe('dependencies', () => {
+    let graph: TaskGraph
+    let tasks: Map<string, TaskClass>
+
+    const daysFromNow = (days: number) => {
+      const date = new Date()
+      date.setDate(date.getDate() + days)
+      return date
+    }
+
+    beforeEach(() => {
+      graph = new TaskGraph()
+      tasks = new Map()
+    })
+
+    it('should report open blockers only', () => {
+      const openBlocker = new TaskClass({
+        id: 'open',
+        name: 'Open Blocker',
+        addedDate: new Date()
+      })
+      const doneBlocker = new TaskClass({
+        id: 'done',
+        name: 'Done Blocker',
+        addedDate: new Date(),
+        status: Status.COMPLETED
+      })
+      const task = new TaskClass({
+        id: 'task',
+        name: 'Blocked Task',
+        addedDate: new Date(),
+        dependsOn: ['open', 'done']
+      })
+      for (const t of [openBlocker, doneBlocker, task]) tasks.set(t.id, t)
+      graph.rebuildFromTasks([...tasks.values()])
+
+      expect(getOpenBlockers(task, graph, tasks)).toEqual([openBlocker])
+      expect(isBlocked(task, graph, tasks)).toBe(true)
+
+      openBlocker.completed = true
+      expect(isBlocked(task, graph, tasks)).toBe(false)
+    })
+
+    it('should not treat subtasks as blockers', () => {
+      const parent = new TaskClass({
+        id: 'parent',
+        name: 'Parent',
+        addedDate: new Date(),
+        childIds: ['child']
+      })
+      const child = new TaskClass({
+        id: 'child',
+        name: 'Child',
+        addedDate: new Date(),
+        parentId: 'parent'
+      })
+      tasks.set(parent.id, parent)
+      tasks.set(child.id, child)
+      graph.rebuildFromTasks([parent, child])
+
+      expect(isBlocked(parent, graph, tasks)).toBe(false)
+      expect(isBlocked(child, graph, tasks)).toBe(false)
+    })
+
+    it('should let a blocker inherit the urgency of the work it blocks', () => {
+      const blocker = new TaskClass({
+        id: 'blocker',
+        name: 'Blocker',
+        addedDate: new Date(),
+        endDate: daysFromNow(25)
+      })
+      const urgent = new TaskClass({
+        id: 'urgent',
+        name: 'Urgent',
+        addedDate: new Date(),
+        endDate: daysFromNow(-2),
+        dependsOn: ['blocker']
+      })
+      tasks.set(blocker.id, blocker)
+      tasks.set(urgent.id, urgent)
+      graph.rebuildFromTasks([blocker, urgent])
+
+      expect(getInheritedUrgency(blocker, graph, tasks)).toBe(
+        calculateDeadlineUrgency(urgent)
+      )
+      expect(calculatePriorityScore(blocker, graph, tasks)).toBeGreaterThan(1000)
+    })
+
+    it('should inherit urgency transitively', () => {
+      const first = new TaskClass({
+        id: 'first',
+        name: 'First',
+        addedDate: new Date(),
+        endDate: daysFromNow(25)
+      })
+      const middle = new TaskClass({
+        id: 'middle',
+        name: 'Middle',
+        addedDate: new Date(),
+        endDate: daysFromNow(25),
+        dependsOn: ['first']
+      })
+      const last = new TaskClass({
+        id: 'last',
+        name: 'Last',
+        addedDate: new Date(),
+        endDate: daysFromNow(1),
+        dependsOn: ['middle']
+      })
+      for (const t of [first, middle, last]) tasks.set(t.id, t)
+      graph.rebuildFromTasks([first, middle, last])
+
+      expect(getInheritedUrgency(first, graph, tasks)).toBe(
+        calculateDeadlineUrgency(last)
+      )
+    })
+
+    it('should not inherit urgency from completed dependents', () => {
+      const blocker = new TaskClass({
+        id: 'blocker',
+        name: 'Blocker',
+        addedDate: new Date(),
+        endDate: daysFromNow(25)
+      })
+      const done = new TaskClass({
+        id: 'done',
+        name: 'Done',
+        addedDate: new Date(),
+        endDate: daysFromNow(-2),
+        status: Status.COMPLETED,
+        dependsOn: ['blocker']
+      })
+      tasks.set(blocker.id, blocker)
+      tasks.set(done.id, done)
+      graph.rebuildFromTasks([blocker, done])
+
+      expect(getInheritedUrgency(blocker, graph, tasks)).toBe(0)
+    })
+
+    it('should keep blocked tasks out of focusNow until blockers are done', () => {
+      const blocker = new TaskClass({
+        id: 'blocker',
+        name: 'Blocker',
+        addedDate: new Date(),
+        endDate: daysFromNow(25)
+      })
+      const overdue = new TaskClass({
+        id: 'overdue',
+        name: 'Overdue',
+        addedDate: new Date(),
+        endDate: daysFromNow(-2),
+        dependsOn: ['blocker']
+      })
+      tasks.set(blocker.id, blocker)
+      tasks.set(overdue.id, overdue)
+      graph.rebuildFromTasks([blocker, overdue])
+
+      let result = categorizeTasksByFocus([blocker, overdue], graph, tasks)
+      expect(result.focusNow).toEqual([blocker])
+      expect(result.thisWeek).toEqual([overdue])
+
+      blocker.completed = true
+      result = categorizeTasksByFocus([blocker, overdue], graph, tasks)
+      expect(result.focusNow).toEqual([overdue])
+    })
+
+    it('should pull blockers of relevant tasks into the week', () => {
+      const blocker = new TaskClass({
+        id: 'blocker',
+        name: 'Blocker',
+        addedDate: new Date(),
+        endDate: daysFromNow(25)
+      })
+      const overdue = new TaskClass({
+        id: 'overdue',
+        name: 'Overdue',
+        addedDate: new Date(),
+        endDate: daysFromNow(-2),
+        dependsOn: ['blocker']
+      })
+      graph.rebuildFromTasks([blocker, overdue])
+
+      expect(getWeeklyRelevantTasks([blocker, overdue])).toEqual([overdue])
+      expect(
+        getWeeklyRelevantTasks([blocker, overdue], new Date(), graph)
+      ).toEqual([overdue, blocker])
+    })
+  })
+
+  describe('subtask propagation', () => {
+    let tasks: Map<string, TaskClass>
+
+    const daysFromNow = (days: number) => {
+      const date = new Date()
+      date.setDate(date.getDate() + days)
+      return date
+    }
+
+    const addTask = (data: Partial<TaskClass> & { id: string }) => {
+      const task = new TaskClass({
+        name: data.id,
+        addedDate: new Date(),
+        ...data
+      })
+      tasks.set(task.id, task)
+      return task
+    }
+
+    const buildGraph = () => TaskGraph.fromTasks(Array.from(tasks.values()))
+
+    beforeEach(() => {
+      tasks = new Map()
+    })
+
+    describe('getInheritedDeadline', () => {
+      it('should pass the earliest ancestor deadline down', () => {
+        addTask({ id: 'project', endDate: daysFromNow(20), childIds: ['milestone'] })
+        addTask({ id: 'milestone', parentId: 'project', endDate: daysFromNow(10), childIds: ['step'] })
+        const step = addTask({ id: 'step', parentId: 'milestone' })
+
+        expect(getInheritedDeadline(step, buildGraph(), tasks)).toEqual({
+          deadline: tasks.get('milestone')!.endDate,
+          fromId: 'milestone'
+        })
+      })
+
+      it('should keep the task\'s own deadline', () => {
+        addTask({ id: 'project', endDate: daysFromNow(5), childIds: ['step'] })
+        const step = addTask({ id: 'step', parentId: 'project', endDate: daysFromNow(10) })
+
+        expect(getInheritedDeadline(step, buildGraph(), tasks)).toBeUndefined()
+      })
+
+      it('should ignore finished ancestors', () => {
+        addTask({
+          id: 'project',
+          endDate: daysFromNow(5),
+          status: Status.COMPLETED,
+          childIds: ['step']
+        })
+        const step = addTask({ id: 'step', parentId: 'project' })
+
+        expect(getInheritedDeadline(step, buildGraph(), tasks)).toBeUndefined()
+      })
+
+      it('should be used as the soft deadline', () => {
+        const deadline = daysFromNow(10)
+        const step = addTask({ id: 'step' })
+        step.inheritedDeadline = { deadline, fromId: 'project' }
+
+        expect(calculateSoftDeadline(step)).toBe(deadline)
+      })
+    })
+
+    it('should give parents the urgency of their most urgent subtask', () => {
+      const parent = addTask({ id: 'parent', endDate: daysFromNow(25), childIds: ['child'] })
+      const child = addTask({ id: 'child', parentId: 'parent', endDate: daysFromNow(-2) })
+      const graph = buildGraph()
+
+      const breakdown = getPriorityBreakdown(parent, graph, tasks)
+
+      expect(breakdown.factors[0]).toMatchObject({
+        key: 'urgentSubtask',
+        points: calculateDeadlineUrgency(child),
+        detail: 'Urgency of "child"'
+      })
+      expect(breakdown.total).toBeGreaterThan(1000)
+    })
+
+    it('should not lower the urgency of parents with less urgent subtasks', () => {
+      const parent = addTask({ id: 'parent', endDate: daysFromNow(-2), childIds: ['child'] })
+      addTask({ id: 'child', parentId: 'parent', endDate: daysFromNow(25) })
+
+      const breakdown = getPriorityBreakdown(parent, buildGraph(), tasks)
+
+      expect(breakdown.factors[0].key).toBe('overdue')
+    })
+
+    it('should list urgent subtasks before their parents', () => {
+      const parent = addTask({ id: 'parent', endDate: daysFromNow(25), childIds: ['child'] })
+      const child = addTask({ id: 'child', parentId: 'parent', endDate: daysFromNow(1) })
+      const other = addTask({ id: 'other', endDate: daysFromNow(2) })
+      const graph = buildGraph()
+
+      const { focusNow, thisWeek } = categorizeTasksByFocus([parent, other, child], graph, tasks)
+
+      // The subtask joins its parent in Focus Now, even with a lower score
+      expect(focusNow).toEqual([child, parent])
+      expect(thisWeek).toEqual([other])
+    })
+
+    it('should keep less urgent subtasks after their parents', () => {
+      const parent = addTask({ id: 'parent', endDate: daysFromNow(1), childIds: ['child'] })
+      const child = addTask({ id: 'child', parentId: 'parent', endDate: daysFromNow(20) })
+      const graph = buildGraph()
+
+      const ordered = orderUrgentSubtasksFirst(
+        [{ task: parent, score: 550 }, { task: child, score: 250 }],
+        graph
+      )
+
+      expect(ordered.map(({ task }) => task)).toEqual([parent, child])
+    })
   })
 
   describe('getParentChainIds', () => {
@@ -437,6 +983,115 @@ describe('Priority Utilities', () => {
     })
   })
 
+  describe('planWeekByCapacity', () => {
+    let graph: TaskGraph
+    let tasks: Map<string, TaskClass>
+
+    const makeTask = (id: string, daysUntilDue: number, estimatedEffort?: number) => {
+      const endDate = new Date()
+      endDate.setDate(endDate.getDate() + daysUntilDue)
+      const task = new TaskClass({
+        id,
+        name: `Task ${id}`,
+        addedDate: new Date(),
+        endDate,
+        status: Status.IN_PROGRESS,
+        estimatedEffort
+      })
+      tasks.set(id, task)
+      return task
+    }
+
+    beforeEach(() => {
+      graph = new TaskGraph()
+      tasks = new Map()
+    })
+
+    it('should fill the week by priority until capacity is used', () => {
+      const urgent = makeTask('1', 1, 4)
+      const soon = makeTask('2', 3, 4)
+      const later = makeTask('3', 5, 4)
+
+      const plan = planWeekByCapacity([later, urgent, soon], graph, tasks, 10)
+
+      expect(plan.planned).toEqual([urgent, soon])
+      expect(plan.overflow).toEqual([later])
+      expect(plan.plannedEffort).toBe(8)
+      expect(plan.totalEffort).toBe(12)
+      expect(plan.overcommitment).toBe(2)
+    })
+
+    it('should keep priority order once a task overflows', () => {
+      const urgent = makeTask('1', 1, 8)
+      const soon = makeTask('2', 3, 4)
+      const small = makeTask('3', 5, 1)
+
+      const plan = planWeekByCapacity([urgent, soon, small], graph, tasks, 10)
+
+      expect(plan.planned).toEqual([urgent])
+      expect(plan.overflow).toEqual([soon, small])
+    })
+
+    it('should report no overcommitment when everything fits', () => {
+      const task = makeTask('1', 2, 3)
+
+      const plan = planWeekByCapacity([task], graph, tasks, 40)
+
+      expect(plan.planned).toEqual([task])
+      expect(plan.overflow).toEqual([])
+      expect(plan.overcommitment).toBe(0)
+    })
+
+    it('should count unestimated tasks as no effort', () => {
+      const estimated = makeTask('1', 1, 5)
+      const unestimated = makeTask('2', 2)
+
+      const plan = planWeekByCapacity([estimated, unestimated], graph, tasks, 5)
+
+      expect(plan.planned).toEqual([estimated, unestimated])
+      expect(plan.unestimated).toBe(1)
+    })
+
+    it('should skip completed tasks', () => {
+      const done = makeTask('1', 1, 5)
+      done.status = Status.COMPLETED
+
+      const plan = planWeekByCapacity([done], graph, tasks, 10)
+
+      expect(plan.planned).toEqual([])
+      expect(plan.totalEffort).toBe(0)
+    })
+
+    describe('getFocusLimitByCapacity', () => {
+      afterEach(() => setCalendar(DEFAULT_CALENDAR))
+
+      it('should focus on the tasks that fit into a working day', () => {
+        const urgent = makeTask('1', 1, 4)
+        const soon = makeTask('2', 3, 4)
+        const later = makeTask('3', 5, 4)
+
+        // 40 hours over 5 working days
+        expect(getFocusLimitByCapacity([urgent, soon, later], graph, tasks, 40)).toBe(2)
+
+        setCalendar({ workingDays: [1, 2, 3, 4] })
+        expect(getFocusLimitByCapacity([urgent, soon, later], graph, tasks, 40)).toBe(2)
+        expect(getFocusLimitByCapacity([urgent, soon, later], graph, tasks, 48)).toBe(3)
+      })
+
+      it('should focus on at least one task', () => {
+        const large = makeTask('1', 1, 20)
+
+        expect(getFocusLimitByCapacity([large], graph, tasks, 40)).toBe(1)
+      })
+
+      it('should fall back to the limit without estimates', () => {
+        const unestimated = [makeTask('1', 1), makeTask('2', 2)]
+
+        expect(getFocusLimitByCapacity(unestimated, graph, tasks, 40, undefined, 3)).toBe(3)
+      })
+    })
+  })
+
   describe('getUpcomingTasksByWeek', () => {
     it('should return empty array when no tasks for upcoming weeks', () => {
       const task = new TaskClass({
@@ -466,6 +1121,38 @@ describe('Priority Utilities', () => {
       expect(result[0].tasks).toContain(task)
     })
 
+    it('should show the next occurrence of a completed recurring task', () => {
+      const endOfThisWeek = getEndOfWeek(new Date())
+      endOfThisWeek.setSeconds(0, 0)
+      const task = new TaskClass({
+        id: '1',
+        name: 'Weekly Report',
+        addedDate: new Date(),
+        endDate: endOfThisWeek,
+        status: Status.COMPLETED,
+        recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 1 }
+      })
+
+      const next = createNextOccurrence(task, '2')!
+
+      expect(getWeeklyRelevantTasks([task, next])).toEqual([])
+      const result = getUpcomingTasksByWeek([task, next])
+      expect(result).toEqual([{ week: 1, tasks: [next] }])
+    })
+
+    it('should push carried-over tasks into next week', () => {
+      const thisWeekTask = new TaskClass({
+        id: '1',
+        name: 'Overflow Task',
+        addedDate: new Date(),
+        endDate: new Date(),
+        status: Status.IN_PROGRESS
+      })
+
+      const result = getUpcomingTasksByWeek([thisWeekTask], 4, new Date(), [thisWeekTask])
+      expect(result).toEqual([{ week: 1, tasks: [thisWeekTask] }])
+    })
+
     it('should organize tasks by week number', () => {
       const week1Date = new Date()
       week1Date.setDate(week1Date.getDate() + 8) // Next week
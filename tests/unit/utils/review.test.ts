@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { TaskClass, Status } from '@/models/TaskClass'
+import { DEFAULT_CALENDAR, setCalendar } from '@/utils/calendar'
+import {
+  getLeftoverTasks,
+  parseSubtaskNames,
+  rollOverTask,
+} from '@/utils/review'
+
+// Monday, Feb 16, 2026 (weeks start on Sunday, Feb 15)
+const MONDAY = new Date('2026-02-16T09:00:00')
+
+function makeTask(
+  id: string,
+  fields: Partial<ConstructorParameters<typeof TaskClass>[0]> = {},
+) {
+  return new TaskClass({
+    id,
+    name: `Task ${id}`,
+    addedDate: new Date('2026-02-01'),
+    ...fields,
+  })
+}
+
+describe('weekly review', () => {
+  afterEach(() => {
+    setCalendar(DEFAULT_CALENDAR)
+  })
+
+  describe('getLeftoverTasks', () => {
+    it('should return open tasks due before this week, oldest first', () => {
+      const lastWeek = makeTask('last-week', {
+        endDate: new Date('2026-02-13T17:00:00'),
+      })
+      const older = makeTask('older', {
+        endDate: new Date('2026-02-02'),
+      })
+      const thisWeek = makeTask('this-week', {
+        endDate: new Date('2026-02-18'),
+      })
+      const done = makeTask('done', {
+        endDate: new Date('2026-02-10'),
+        status: Status.COMPLETED,
+      })
+      const ignored = makeTask('ignored', {
+        endDate: new Date('2026-02-10'),
+        status: Status.IGNORED,
+      })
+
+      const leftovers = getLeftoverTasks(
+        [lastWeek, older, thisWeek, done, ignored],
+        MONDAY,
+      )
+
+      expect(leftovers.map(t => t.id)).toEqual(['older', 'last-week'])
+    })
+
+    it('should include tasks without a deadline from a previous week', () => {
+      const task = makeTask('soft', { addedDate: new Date('2026-02-10') })
+
+      expect(getLeftoverTasks([task], MONDAY)).toEqual([task])
+    })
+
+    it('should put a parent before the subtasks sharing its deadline', () => {
+      const deadline = new Date('2026-02-12')
+      const child = makeTask('child')
+      child.inheritedDeadline = { deadline, fromId: 'parent' }
+      const parent = makeTask('parent', { endDate: deadline })
+
+      const leftovers = getLeftoverTasks([child, parent], MONDAY)
+
+      expect(leftovers.map(t => t.id)).toEqual(['parent', 'child'])
+    })
+  })
+
+  describe('rollOverTask', () => {
+    it('should reschedule to the end of this week and count the rollover', () => {
+      const task = makeTask('1', {
+        startDate: new Date('2026-02-09'),
+        endDate: new Date('2026-02-13'),
+      })
+
+      rollOverTask(task, 0, MONDAY)
+
+      expect(task.endDate).toEqual(new Date('2026-02-20T23:59:59.999'))
+      expect(task.startDate).toEqual(new Date('2026-02-09'))
+      expect(task.rolloverCount).toBe(1)
+    })
+
+    it('should defer to the start of a later week', () => {
+      const task = makeTask('1', {
+        endDate: new Date('2026-02-13'),
+        rolloverCount: 2,
+      })
+
+      rollOverTask(task, 2, MONDAY)
+
+      expect(task.startDate).toEqual(new Date('2026-03-01T00:00:00'))
+      expect(task.endDate).toEqual(new Date('2026-03-06T23:59:59.999'))
+      expect(task.rolloverCount).toBe(3)
+    })
+
+    it('should use the configured working days', () => {
+      setCalendar({ workingDays: [0, 1, 2, 3, 4], endOfWorkday: '17:00' })
+      const task = makeTask('1', { endDate: new Date('2026-02-13') })
+
+      rollOverTask(task, 0, MONDAY)
+
+      expect(task.endDate).toEqual(new Date('2026-02-19T16:59:59.999'))
+    })
+
+    it('should no longer be a leftover once rescheduled', () => {
+      const task = makeTask('1', { endDate: new Date('2026-02-13') })
+
+      rollOverTask(task, 1, MONDAY)
+
+      expect(getLeftoverTasks([task], MONDAY)).toEqual([])
+    })
+  })
+
+  describe('parseSubtaskNames', () => {
+    it('should take one subtask per line, without list markers', () => {
+      expect(
+        parseSubtaskNames('- Draft outline\n\n* Write intro\n2. Review\n  '),
+      ).toEqual(['Draft outline', 'Write intro', 'Review'])
+    })
+  })
+})